@@ -1,9 +1,13 @@
+import { BrowserRouter } from 'react-router-dom';
 import { ThemeProvider } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
 import { Box } from '@mui/material';
 import { AuthProvider } from './contexts/AuthContext';
+import { DataSourceProvider } from './contexts/DataSourceContext';
 import { DataProvider } from './contexts/DataContext';
 import { SettingsProvider } from './contexts/SettingsContext';
+import { SignInSheetProvider } from './contexts/SignInSheetContext';
+import { EventsProvider } from './contexts/EventsContext';
 import ModernStudentDashboard from './components/ModernStudentDashboard';
 import ErrorBoundary from './components/ErrorBoundary';
 import EnvironmentChecker from './components/EnvironmentChecker';
@@ -15,15 +19,23 @@ function App() {
       <ThemeProvider theme={theme}>
         <CssBaseline />
         <EnvironmentChecker />
-        <AuthProvider>
-          <SettingsProvider>
-            <DataProvider>
-              <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
-                <ModernStudentDashboard />
-              </Box>
-            </DataProvider>
-          </SettingsProvider>
-        </AuthProvider>
+        <BrowserRouter>
+          <AuthProvider>
+            <DataSourceProvider>
+              <SettingsProvider>
+                <DataProvider>
+                  <SignInSheetProvider>
+                    <EventsProvider>
+                      <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+                        <ModernStudentDashboard />
+                      </Box>
+                    </EventsProvider>
+                  </SignInSheetProvider>
+                </DataProvider>
+              </SettingsProvider>
+            </DataSourceProvider>
+          </AuthProvider>
+        </BrowserRouter>
       </ThemeProvider>
     </ErrorBoundary>
   );
@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Alert,
+  CircularProgress,
+  Box,
+  TextField,
+  InputAdornment,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import { Inventory2 as ArchiveIcon, Refresh, Restore, Search } from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import { studentArchiveService } from '../services/StudentArchiveService';
+import { dataSourceService } from '../services/DataSourceService';
+import type { ArchivedStudent, Student } from '../types';
+
+interface ArchivedStudentsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onRestored?: (student: Student) => void;
+}
+
+/**
+ * Browse scholars on the archive tab and move them back to the scholars tab
+ */
+export const ArchivedStudentsDialog: React.FC<ArchivedStudentsDialogProps> = ({ open, onClose, onRestored }) => {
+  const { state: authState } = useAuth();
+  const { restoreStudent } = useData();
+  const [archived, setArchived] = useState<ArchivedStudent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  const loadArchive = useCallback(async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setArchived(await studentArchiveService.fetchArchivedStudents(accessToken));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load archived students');
+    } finally {
+      setLoading(false);
+    }
+  }, [authState.user?.accessToken]);
+
+  useEffect(() => {
+    if (open) {
+      setQuery('');
+      loadArchive();
+    }
+  }, [open, loadArchive]);
+
+  const visible = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    if (!search) return archived;
+    return archived.filter(({ student }) =>
+      [student.firstName, student.lastName, student.email, student.highSchool]
+        .some(value => value?.toLowerCase().includes(search))
+    );
+  }, [archived, query]);
+
+  const handleRestore = async (entry: ArchivedStudent) => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+
+    setRestoringId(entry.student.id);
+    setError(null);
+    try {
+      const restored = await restoreStudent(accessToken, entry.student.id);
+      setArchived(prev => prev.filter(item => item.student.id !== entry.student.id));
+      onRestored?.(restored);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore student');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <ArchiveIcon color="primary" />
+          Archived Students
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Students archived to the "{dataSourceService.archivedSheetName}" tab. Restoring moves a student back to the scholars tab.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <TextField
+          placeholder="Search archived students..."
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          size="small"
+          fullWidth
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search />
+                </InputAdornment>
+              ),
+            },
+          }}
+          sx={{ mb: 2 }}
+        />
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : visible.length === 0 ? (
+          <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            {archived.length === 0 ? 'No archived students' : 'No archived students match your search'}
+          </Typography>
+        ) : (
+          <List dense>
+            {visible.map(entry => (
+              <ListItem
+                key={entry.student.id || entry.rowIndex}
+                divider
+                secondaryAction={
+                  <Button
+                    size="small"
+                    startIcon={restoringId === entry.student.id ? <CircularProgress size={16} /> : <Restore />}
+                    onClick={() => handleRestore(entry)}
+                    disabled={restoringId !== null}
+                  >
+                    Restore
+                  </Button>
+                }
+              >
+                <ListItemText
+                  primary={`${entry.student.firstName} ${entry.student.lastName}`}
+                  secondary={[
+                    entry.student.highSchool,
+                    entry.student.graduationYear || undefined,
+                    entry.archivedAt && `Archived ${entry.archivedAt.toLocaleDateString()}`,
+                    entry.archivedBy && `by ${entry.archivedBy}`,
+                  ].filter(Boolean).join(' • ')}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={loadArchive} startIcon={<Refresh />} disabled={loading}>
+          Refresh
+        </Button>
+        <Button onClick={onClose}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Alert,
+  CircularProgress,
+  Box,
+  TextField,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import { Delete as DeleteIcon, EditNote, EmojiEvents } from '@mui/icons-material';
+import type { Student } from '../types';
+import { applyBulkAction, bulkActionChangesStudent, describeBulkAction } from '../utils/bulkActions';
+import type { BulkAction, BulkField } from '../utils/bulkActions';
+
+export type BulkActionType = BulkAction['type'];
+
+interface BulkActionDialogProps {
+  open: boolean;
+  actionType: BulkActionType | null;
+  students: Student[];
+  fields: BulkField[];
+  onClose: () => void;
+  onConfirm: (action: BulkAction, changedStudents: Student[]) => Promise<void>;
+}
+
+const titles: Record<BulkActionType, string> = {
+  setField: 'Set Field',
+  addPoints: 'Add Participation Points',
+  delete: 'Delete Students',
+};
+
+const icons: Record<BulkActionType, React.ReactNode> = {
+  setField: <EditNote color="primary" />,
+  addPoints: <EmojiEvents color="primary" />,
+  delete: <DeleteIcon color="error" />,
+};
+
+const PREVIEW_LIMIT = 8;
+
+export const BulkActionDialog: React.FC<BulkActionDialogProps> = ({
+  open,
+  actionType,
+  students,
+  fields,
+  onClose,
+  onConfirm,
+}) => {
+  const [step, setStep] = useState<'configure' | 'review'>('configure');
+  const [fieldKey, setFieldKey] = useState('');
+  const [value, setValue] = useState('');
+  const [points, setPoints] = useState('1');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setStep(actionType === 'delete' ? 'review' : 'configure');
+      setFieldKey(fields[0]?.key ?? '');
+      setValue(fields[0]?.type === 'boolean' ? 'true' : '');
+      setPoints('1');
+      setError(null);
+    }
+  }, [open, actionType, fields]);
+
+  const field = fields.find(f => f.key === fieldKey);
+
+  const action: BulkAction | null = useMemo(() => {
+    switch (actionType) {
+      case 'setField':
+        return field ? { type: 'setField', field, value } : null;
+      case 'addPoints': {
+        const parsed = Number(points);
+        return points.trim() !== '' && Number.isInteger(parsed) ? { type: 'addPoints', points: parsed } : null;
+      }
+      case 'delete':
+        return { type: 'delete' };
+      default:
+        return null;
+    }
+  }, [actionType, field, value, points]);
+
+  // Only rows that actually change are written, so the summary shows what will be skipped
+  const changedStudents = useMemo(
+    () => action ? students.filter(student => bulkActionChangesStudent(student, action)) : [],
+    [action, students]
+  );
+  const unchangedCount = students.length - changedStudents.length;
+
+  const handleFieldChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const next = fields.find(f => f.key === event.target.value);
+    setFieldKey(event.target.value);
+    setValue(next?.type === 'boolean' ? 'true' : '');
+  };
+
+  const handleConfirm = async () => {
+    if (!action) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const updated = action.type === 'delete'
+        ? changedStudents
+        : changedStudents.map(student => applyBulkAction(student, action));
+      await onConfirm(action, updated);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while updating the students');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!loading) {
+      onClose();
+    }
+  };
+
+  if (!actionType) return null;
+
+  const renderValueInput = () => {
+    if (!field) return null;
+    if (field.type === 'boolean') {
+      return (
+        <TextField select label="Value" value={value} onChange={e => setValue(e.target.value)} fullWidth>
+          <MenuItem value="true">Yes</MenuItem>
+          <MenuItem value="false">No</MenuItem>
+        </TextField>
+      );
+    }
+    return (
+      <TextField
+        label="Value"
+        type={field.type === 'date' ? 'date' : field.type === 'number' ? 'number' : 'text'}
+        value={value}
+        onChange={e => setValue(e.target.value)}
+        helperText="Leave empty to clear the field"
+        slotProps={{ inputLabel: { shrink: true } }}
+        fullWidth
+      />
+    );
+  };
+
+  const isDelete = actionType === 'delete';
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {icons[actionType]}
+          {titles[actionType]}
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {step === 'configure' ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              Applies to {students.length} selected student{students.length === 1 ? '' : 's'}.
+            </Typography>
+            {actionType === 'setField' && (
+              <>
+                <TextField select label="Field" value={fieldKey} onChange={handleFieldChange} fullWidth>
+                  {fields.map(f => (
+                    <MenuItem key={f.key} value={f.key}>{f.label}</MenuItem>
+                  ))}
+                </TextField>
+                {renderValueInput()}
+              </>
+            )}
+            {actionType === 'addPoints' && (
+              <TextField
+                label="Points"
+                type="number"
+                value={points}
+                onChange={e => setPoints(e.target.value)}
+                error={!action}
+                helperText={action ? 'Use a negative number to remove points' : 'Enter a whole number'}
+                fullWidth
+              />
+            )}
+          </Box>
+        ) : (
+          <Box>
+            <Typography variant="body1" sx={{ mb: 2 }}>
+              {isDelete
+                ? `Are you sure you want to delete ${students.length} student${students.length === 1 ? '' : 's'}? This action cannot be undone.`
+                : `${action ? describeBulkAction(action) : ''} for the selected students?`}
+            </Typography>
+            <Alert severity={isDelete ? 'warning' : 'info'} sx={{ mb: 2 }}>
+              {changedStudents.length} student{changedStudents.length === 1 ? '' : 's'} will be {isDelete ? 'deleted' : 'updated'} in a single Google Sheets update
+              {unchangedCount > 0 && `; ${unchangedCount} already ${unchangedCount === 1 ? 'has' : 'have'} this value and will be skipped`}.
+            </Alert>
+            <List dense disablePadding>
+              {changedStudents.slice(0, PREVIEW_LIMIT).map(student => (
+                <ListItem key={student.id} disableGutters>
+                  <ListItemText
+                    primary={`${student.firstName} ${student.lastName}`}
+                    secondary={[student.highSchool, student.graduationYear].filter(Boolean).join(' • ')}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            {changedStudents.length > PREVIEW_LIMIT && (
+              <Typography variant="body2" color="text.secondary">
+                …and {changedStudents.length - PREVIEW_LIMIT} more
+              </Typography>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={loading}>
+          Cancel
+        </Button>
+        {step === 'review' && !isDelete && (
+          <Button onClick={() => setStep('configure')} disabled={loading}>
+            Back
+          </Button>
+        )}
+        {step === 'configure' ? (
+          <Button variant="contained" onClick={() => setStep('review')} disabled={!action}>
+            Review
+          </Button>
+        ) : (
+          <Button
+            onClick={handleConfirm}
+            variant="contained"
+            color={isDelete ? 'error' : 'primary'}
+            disabled={loading || changedStudents.length === 0}
+            startIcon={loading ? <CircularProgress size={20} /> : undefined}
+          >
+            {loading ? 'Saving...' : isDelete ? `Delete ${changedStudents.length}` : `Update ${changedStudents.length}`}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Alert } from '@mui/material';
+import { CloudOff } from '@mui/icons-material';
+
+interface CachedDataIndicatorProps {
+  cachedAt: Date | null;
+  sx?: React.ComponentProps<typeof Alert>['sx'];
+}
+
+/**
+ * Banner shown while a cached snapshot is on screen and fresh data hasn't arrived yet
+ */
+export const CachedDataIndicator: React.FC<CachedDataIndicatorProps> = ({ cachedAt, sx }) => {
+  if (!cachedAt) return null;
+
+  return (
+    <Alert severity="info" icon={<CloudOff fontSize="inherit" />} sx={sx}>
+      Showing cached data from {cachedAt.toLocaleString()}. Checking Google Sheets for updates…
+    </Alert>
+  );
+};
@@ -10,13 +10,14 @@ import {
   CircularProgress,
   Box,
 } from '@mui/material';
-import { Delete as DeleteIcon } from '@mui/icons-material';
+import { Delete as DeleteIcon, Inventory2 as ArchiveIcon } from '@mui/icons-material';
 import type { Student } from '../types';
 
 interface DeleteConfirmationDialogProps {
   open: boolean;
   onClose: () => void;
-  onConfirm: () => Promise<void>;
+  onConfirm: () => Promise<void>; // Permanently delete
+  onArchive?: () => Promise<void>; // Move to the archive tab instead, when offered
   student: Student | null;
 }
 
@@ -24,22 +25,25 @@ export const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> =
   open,
   onClose,
   onConfirm,
+  onArchive,
   student,
 }) => {
-  const [loading, setLoading] = useState(false);
+  const [loading, setLoading] = useState<'archive' | 'delete' | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleConfirm = async () => {
-    setLoading(true);
+  const runAction = async (action: 'archive' | 'delete') => {
+    setLoading(action);
     setError(null);
 
     try {
-      await onConfirm();
+      await (action === 'archive' && onArchive ? onArchive() : onConfirm());
       onClose();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred while deleting the student');
+      setError(err instanceof Error
+        ? err.message
+        : `An error occurred while ${action === 'archive' ? 'archiving' : 'deleting'} the student`);
     } finally {
-      setLoading(false);
+      setLoading(null);
     }
   };
 
@@ -57,7 +61,7 @@ export const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> =
       <DialogTitle>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
           <DeleteIcon color="error" />
-          Delete Student
+          {onArchive ? 'Archive or Delete Student' : 'Delete Student'}
         </Box>
       </DialogTitle>
       <DialogContent>
@@ -67,9 +71,16 @@ export const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> =
           </Alert>
         )}
         
-        <Typography variant="body1" sx={{ mb: 2 }}>
-          Are you sure you want to delete this student? This action cannot be undone.
-        </Typography>
+        {onArchive ? (
+          <Typography variant="body1" sx={{ mb: 2 }}>
+            Archiving moves this student to the archive tab, keeping all of their history, and they can be
+            restored later. Deleting permanently removes their row from Google Sheets.
+          </Typography>
+        ) : (
+          <Typography variant="body1" sx={{ mb: 2 }}>
+            Are you sure you want to delete this student? This action cannot be undone.
+          </Typography>
+        )}
         
         <Box
           sx={{
@@ -98,18 +109,28 @@ export const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> =
         </Box>
       </DialogContent>
       <DialogActions>
-        <Button onClick={handleClose} disabled={loading}>
+        <Button onClick={handleClose} disabled={!!loading}>
           Cancel
         </Button>
         <Button
-          onClick={handleConfirm}
-          variant="contained"
+          onClick={() => runAction('delete')}
+          variant={onArchive ? 'outlined' : 'contained'}
           color="error"
-          disabled={loading}
-          startIcon={loading ? <CircularProgress size={20} /> : <DeleteIcon />}
+          disabled={!!loading}
+          startIcon={loading === 'delete' ? <CircularProgress size={20} /> : <DeleteIcon />}
         >
-          {loading ? 'Deleting...' : 'Delete Student'}
+          {loading === 'delete' ? 'Deleting...' : onArchive ? 'Delete Permanently' : 'Delete Student'}
         </Button>
+        {onArchive && (
+          <Button
+            onClick={() => runAction('archive')}
+            variant="contained"
+            disabled={!!loading}
+            startIcon={loading === 'archive' ? <CircularProgress size={20} /> : <ArchiveIcon />}
+          >
+            {loading === 'archive' ? 'Archiving...' : 'Archive Student'}
+          </Button>
+        )}
       </DialogActions>
     </Dialog>
   );
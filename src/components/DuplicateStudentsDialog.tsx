@@ -0,0 +1,276 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  Radio,
+  RadioGroup,
+  FormControlLabel,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  List,
+  ListItem,
+  ListItemText,
+  CircularProgress,
+} from '@mui/material';
+import { ContentCopy, MergeType, SwapHoriz } from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import type { Student } from '../types';
+import {
+  getChangedFields,
+  getStudentFieldValue,
+  formatFieldValue,
+  mergeStudentVersions,
+} from '../utils/studentConflicts';
+import type { ConflictResolutionChoice } from '../utils/studentConflicts';
+import { findDuplicateCandidates, getDefaultMergeChoices } from '../utils/studentDuplicates';
+import type { DuplicateCandidate } from '../utils/studentDuplicates';
+
+interface DuplicateStudentsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onMerged?: (survivor: Student, duplicate: Student) => void;
+}
+
+const getPairKey = (candidate: DuplicateCandidate) => [candidate.a.id, candidate.b.id].sort().join('|');
+
+const describeStudent = (student: Student) =>
+  [student.email, student.highSchool, `row ${student.rowIndex}`].filter(Boolean).join(' • ');
+
+/**
+ * Find scholars that were entered more than once and merge each pair into a single row
+ */
+export const DuplicateStudentsDialog: React.FC<DuplicateStudentsDialogProps> = ({ open, onClose, onMerged }) => {
+  const { state: authState } = useAuth();
+  const { state, mergeStudents } = useData();
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<DuplicateCandidate | null>(null);
+  const [survivorSide, setSurvivorSide] = useState<'a' | 'b'>('a');
+  const [choices, setChoices] = useState<Record<string, ConflictResolutionChoice>>({});
+  const [removal, setRemoval] = useState<'archive' | 'delete'>('archive');
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only score when the dialog is open, since it still compares many pairs on large sheets
+  const candidates = useMemo(
+    () => (open ? findDuplicateCandidates(state.students).filter(candidate => !dismissed.has(getPairKey(candidate))) : []),
+    [open, state.students, dismissed]
+  );
+
+  const survivor = selected && (survivorSide === 'a' ? selected.a : selected.b);
+  const duplicate = selected && (survivorSide === 'a' ? selected.b : selected.a);
+
+  const differingFields = useMemo(
+    () => (survivor && duplicate ? getChangedFields(survivor, duplicate) : []),
+    [survivor, duplicate]
+  );
+
+  useEffect(() => {
+    if (open) {
+      setSelected(null);
+      setError(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (survivor && duplicate) {
+      setChoices(getDefaultMergeChoices(survivor, duplicate));
+    }
+  }, [survivor, duplicate]);
+
+  const handleReview = (candidate: DuplicateCandidate) => {
+    // Keep the older row by default, since it's the one other records are most likely to refer to
+    setSurvivorSide(candidate.a.rowIndex <= candidate.b.rowIndex ? 'a' : 'b');
+    setRemoval('archive');
+    setError(null);
+    setSelected(candidate);
+  };
+
+  const handleDismiss = (candidate: DuplicateCandidate) => {
+    setDismissed(prev => new Set(prev).add(getPairKey(candidate)));
+  };
+
+  const handleMerge = async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken || !survivor || !duplicate) return;
+
+    setMerging(true);
+    setError(null);
+    try {
+      const merged = mergeStudentVersions(survivor, duplicate, choices);
+      const saved = await mergeStudents(accessToken, merged, survivor, duplicate.id, removal);
+      onMerged?.(saved, duplicate);
+      setSelected(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge students');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={merging ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {selected ? <MergeType color="primary" /> : <ContentCopy color="primary" />}
+          {selected ? 'Merge Students' : 'Possible Duplicates'}
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!selected ? (
+          candidates.length === 0 ? (
+            <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+              No likely duplicates found
+            </Typography>
+          ) : (
+            <>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                Pairs are scored on name similarity, email, phone, date of birth and high school.
+              </Typography>
+              <List dense>
+                {candidates.map(candidate => (
+                  <ListItem
+                    key={getPairKey(candidate)}
+                    divider
+                    secondaryAction={
+                      <Box sx={{ display: 'flex', gap: 1 }}>
+                        <Button size="small" onClick={() => handleDismiss(candidate)}>
+                          Not a Duplicate
+                        </Button>
+                        <Button size="small" variant="outlined" onClick={() => handleReview(candidate)}>
+                          Review
+                        </Button>
+                      </Box>
+                    }
+                    sx={{ pr: 30 }}
+                  >
+                    <ListItemText
+                      primary={
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                          {candidate.a.firstName} {candidate.a.lastName} / {candidate.b.firstName} {candidate.b.lastName}
+                          <Chip
+                            size="small"
+                            label={`${Math.round(candidate.score * 100)}%`}
+                            color={candidate.score >= 0.8 ? 'error' : 'warning'}
+                          />
+                        </Box>
+                      }
+                      secondary={candidate.reasons.join(' • ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )
+        ) : survivor && duplicate && (
+          <>
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Choose the value to keep for each field. The merged record is saved to {survivor.firstName} {survivor.lastName}'s
+              row, and the other record is then {removal === 'archive' ? 'archived' : 'permanently deleted'}.
+            </Alert>
+
+            {differingFields.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Both records hold the same values.
+              </Typography>
+            ) : (
+              <Table size="small" sx={{ mb: 2 }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Field</TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={600}>Keep</Typography>
+                      <Typography variant="caption" color="text.secondary">{describeStudent(survivor)}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={600}>Merge In</Typography>
+                      <Typography variant="caption" color="text.secondary">{describeStudent(duplicate)}</Typography>
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {differingFields.map(field => (
+                    <TableRow key={field.key}>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          {field.label}
+                        </Typography>
+                      </TableCell>
+                      {(['local', 'remote'] as const).map(choice => (
+                        <TableCell key={choice}>
+                          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                            <Radio
+                              size="small"
+                              checked={choices[field.key] === choice}
+                              onChange={() => setChoices(prev => ({ ...prev, [field.key]: choice }))}
+                              disabled={merging}
+                            />
+                            <Typography variant="body2">
+                              {formatFieldValue(getStudentFieldValue(choice === 'local' ? survivor : duplicate, field.key))}
+                            </Typography>
+                          </Box>
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2 }}>
+              <RadioGroup row value={removal} onChange={e => setRemoval(e.target.value as 'archive' | 'delete')}>
+                <FormControlLabel value="archive" control={<Radio size="small" />} label="Archive the other record" disabled={merging} />
+                <FormControlLabel value="delete" control={<Radio size="small" />} label="Delete it permanently" disabled={merging} />
+              </RadioGroup>
+              <Button
+                size="small"
+                startIcon={<SwapHoriz />}
+                onClick={() => setSurvivorSide(side => (side === 'a' ? 'b' : 'a'))}
+                disabled={merging}
+              >
+                Keep the Other Row
+              </Button>
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {selected ? (
+          <>
+            <Button onClick={() => setSelected(null)} disabled={merging}>
+              Back
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleMerge}
+              disabled={merging}
+              startIcon={merging ? <CircularProgress size={20} /> : <MergeType />}
+            >
+              {merging ? 'Merging...' : 'Merge'}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={onClose}>
+            Close
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
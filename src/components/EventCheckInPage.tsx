@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  CircularProgress,
+} from '@mui/material';
+import { ArrowBack } from '@mui/icons-material';
+import { useEvents } from '../hooks/useEvents';
+import { useSettings } from '../contexts/SettingsContext';
+import { EventSignInForm } from './EventSignInForm';
+import { StaffPinDialog } from './StaffPinDialog';
+import { colorTokens } from '../theme';
+
+interface EventCheckInPageProps {
+  eventId: string;
+  locked: boolean;
+  onClose: () => void;
+  onOpenSettings: () => void;
+}
+
+/**
+ * Phone-sized page where scholars sign themselves in to one event, opened by scanning the event's
+ * QR code on a phone or tablet signed in to the app. Several devices can each open it, so check-in
+ * isn't held up by a single kiosk. Like the kiosk, the device stays locked to the page until the
+ * staff PIN is entered, so it can't be opened until a PIN is set.
+ */
+const EventCheckInPage: React.FC<EventCheckInPageProps> = ({ eventId, locked, onClose, onOpenSettings }) => {
+  const { events, loading: eventsLoading } = useEvents();
+  const { state: settingsState } = useSettings();
+  const [exitOpen, setExitOpen] = useState(false);
+  const event = events.find(candidate => candidate.id === eventId) ?? null;
+  const hasKioskPin = !!settingsState.settings.kiosk.pinHash;
+
+  const renderContent = () => {
+    if (!locked) {
+      return hasKioskPin ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Set a staff PIN under Settings → Kiosk first, so scholars can't leave check-in for the rest of the app.
+          </Alert>
+          <Button variant="contained" onClick={onOpenSettings}>
+            Open Settings
+          </Button>
+        </>
+      );
+    }
+
+    if (event) {
+      return <EventSignInForm event={event} />;
+    }
+
+    return eventsLoading ? (
+      <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+        <CircularProgress />
+      </Box>
+    ) : (
+      <Typography variant="h6" color="text.secondary">
+        This check-in link is for an event that no longer exists.
+      </Typography>
+    );
+  };
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        p: { xs: 2, sm: 3 },
+        background: `linear-gradient(135deg, ${colorTokens.primary[50]} 0%, ${colorTokens.secondary[50]} 100%)`,
+      }}
+    >
+      <Box sx={{ width: '100%', maxWidth: 560 }}>
+        <Button startIcon={<ArrowBack />} onClick={() => (locked ? setExitOpen(true) : onClose())} sx={{ mb: 2 }}>
+          Back to App
+        </Button>
+
+        {event && (
+          <Box sx={{ textAlign: 'center', mb: 3 }}>
+            <Typography variant="h4" component="h1" fontWeight={700}>
+              {event.name}
+            </Typography>
+            {(event.date || event.location) && (
+              <Typography variant="body1" color="text.secondary">
+                {[event.date, event.location].filter(Boolean).join(' • ')}
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        <Card sx={{ borderRadius: 3 }}>
+          <CardContent sx={{ p: { xs: 2.5, sm: 4 } }}>
+            {renderContent()}
+          </CardContent>
+        </Card>
+      </Box>
+
+      <StaffPinDialog
+        open={exitOpen}
+        onClose={() => setExitOpen(false)}
+        onUnlock={() => {
+          setExitOpen(false);
+          onClose();
+        }}
+        actionLabel="Back to App"
+        helperText="Enter the staff PIN to leave check-in"
+      />
+    </Box>
+  );
+};
+
+export default EventCheckInPage;
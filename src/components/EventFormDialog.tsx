@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Alert,
+  Autocomplete,
+  CircularProgress,
+} from '@mui/material';
+import type { ProgramEvent, ProgramEventInput } from '../types/event';
+
+interface EventFormDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (input: ProgramEventInput) => Promise<void>;
+  initialData?: ProgramEvent | null;
+  title: string;
+  typeOptions: string[]; // Types already used by other events
+  existingNames: string[]; // Names of the other events, which must stay unique
+}
+
+const emptyForm: ProgramEventInput = { name: '', date: '', location: '', type: '', points: 1 };
+
+const toForm = (event?: ProgramEvent | null): ProgramEventInput => event
+  ? { name: event.name, date: event.date, location: event.location, type: event.type, points: event.points }
+  : emptyForm;
+
+export const EventFormDialog: React.FC<EventFormDialogProps> = ({
+  open,
+  onClose,
+  onSubmit,
+  initialData,
+  title,
+  typeOptions,
+  existingNames,
+}) => {
+  const [formData, setFormData] = useState<ProgramEventInput>(() => toForm(initialData));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the event being edited, or a blank form, each time the dialog opens
+  const [wasOpen, setWasOpen] = useState(open);
+  if (wasOpen !== open) {
+    setWasOpen(open);
+    if (open) {
+      setFormData(toForm(initialData));
+      setError(null);
+    }
+  }
+
+  const name = formData.name.trim();
+  const nameError = !name
+    ? 'Name is required'
+    : existingNames.some(existing => existing.toLowerCase() === name.toLowerCase())
+      ? 'Another event already has this name'
+      : null;
+
+  const handleChange = (field: keyof ProgramEventInput) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = field === 'points' ? Number(e.target.value) || 0 : e.target.value;
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (nameError) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await onSubmit({ ...formData, name });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the event');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={loading ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <TextField
+            label="Name"
+            value={formData.name}
+            onChange={handleChange('name')}
+            error={!!formData.name && !!nameError}
+            helperText={formData.name ? nameError : 'Sign-ins refer to the event by this exact name'}
+            required
+            fullWidth
+            autoFocus
+          />
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+            <TextField
+              type="date"
+              label="Date"
+              value={formData.date}
+              onChange={handleChange('date')}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              label="Location"
+              value={formData.location}
+              onChange={handleChange('location')}
+            />
+            <Autocomplete
+              freeSolo
+              options={typeOptions}
+              inputValue={formData.type}
+              onInputChange={(_, value) => setFormData(prev => ({ ...prev, type: value }))}
+              renderInput={params => <TextField {...params} label="Type" placeholder="e.g. Workshop" />}
+            />
+            <TextField
+              type="number"
+              label="Point Value"
+              value={formData.points}
+              onChange={handleChange('points')}
+              helperText="Participation points for attending"
+            />
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={loading || !!nameError}
+          startIcon={loading ? <CircularProgress size={20} /> : null}
+        >
+          {loading ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  Paper,
+  CircularProgress,
+  TablePagination,
+} from '@mui/material';
+import { AutoFixHigh, Add, Check } from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import { useEvents } from '../hooks/useEvents';
+import { useSignInSheet } from '../contexts/SignInSheetContext';
+import type { ProgramEvent } from '../types/event';
+import { getNonCanonicalEventNames } from '../utils/eventNormalization';
+import type { EventNameGroup } from '../utils/eventNormalization';
+import { EventPicker } from './EventPicker';
+
+interface EventNormalizationDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ROWS_PER_PAGE = 10;
+
+/**
+ * Map the free-text event names typed into the sign-in sheet onto canonical events, rewriting the
+ * matching sign-in rows, or turn a name into a new event
+ */
+export const EventNormalizationDialog: React.FC<EventNormalizationDialogProps> = ({ open, onClose }) => {
+  const { state: authState } = useAuth();
+  const { events, addEvent } = useEvents();
+  const { signIns, updateSignInEvents } = useSignInSheet();
+  const [choices, setChoices] = useState<Map<string, ProgramEvent | null>>(new Map());
+  const [busyName, setBusyName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+
+  const groups = useMemo(() => getNonCanonicalEventNames(signIns, events), [signIns, events]);
+  const getChoice = (group: EventNameGroup) => (choices.has(group.name) ? choices.get(group.name) ?? null : group.suggestion);
+  const suggested = groups.filter(group => getChoice(group));
+
+  // Clamp the page when resolving the last name on it
+  const lastPage = Math.max(0, Math.ceil(groups.length / ROWS_PER_PAGE) - 1);
+  const currentPage = Math.min(page, lastPage);
+
+  const run = async (name: string, action: (accessToken: string) => Promise<void>) => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+
+    setBusyName(name);
+    setError(null);
+    try {
+      await action(accessToken);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the sign-ins');
+    } finally {
+      setBusyName(null);
+    }
+  };
+
+  const handleApply = (group: EventNameGroup, event: ProgramEvent) =>
+    run(group.name, accessToken =>
+      updateSignInEvents(accessToken, group.signIns.map(signIn => ({ signIn, event: event.name })))
+    );
+
+  // The name itself becomes canonical, so its sign-ins need no rewriting
+  const handleCreateEvent = (group: EventNameGroup) =>
+    run(group.name, async accessToken => {
+      await addEvent(accessToken, { name: group.name, date: '', location: '', type: '', points: 0 });
+    });
+
+  const handleApplyAll = () =>
+    run('*', accessToken => updateSignInEvents(accessToken, suggested.flatMap(group => {
+      const event = getChoice(group);
+      return event ? group.signIns.map(signIn => ({ signIn, event: event.name })) : [];
+    })));
+
+  return (
+    <Dialog open={open} onClose={busyName !== null ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <AutoFixHigh color="primary" />
+          Normalize Event Names
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {groups.length === 0 ? (
+          <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            Every sign-in uses the exact name of an event
+          </Typography>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {groups.length} event name{groups.length === 1 ? ' in the sign-in sheet doesn\'t' : 's in the sign-in sheet don\'t'} match
+              an event exactly. Pick the event each one means to rewrite its sign-ins, or add it as a new event.
+            </Typography>
+
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+              {groups.slice(currentPage * ROWS_PER_PAGE, (currentPage + 1) * ROWS_PER_PAGE).map(group => {
+                const chosen = getChoice(group);
+                return (
+                  <Paper key={group.name} variant="outlined" sx={{ p: 2 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5, flexWrap: 'wrap' }}>
+                      <Typography variant="subtitle2" fontWeight={600}>
+                        "{group.name}"
+                      </Typography>
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label={`${group.signIns.length} sign-in${group.signIns.length === 1 ? '' : 's'}`}
+                      />
+                    </Box>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                      <Box sx={{ flex: 1, minWidth: 240 }}>
+                        <EventPicker
+                          size="small"
+                          label="Canonical Event"
+                          value={chosen?.name ?? ''}
+                          onChange={event => setChoices(prev => new Map(prev).set(group.name, event))}
+                          disabled={busyName !== null}
+                        />
+                      </Box>
+                      <Button
+                        variant="contained"
+                        size="small"
+                        startIcon={busyName === group.name ? <CircularProgress size={16} /> : <Check />}
+                        onClick={() => chosen && handleApply(group, chosen)}
+                        disabled={!chosen || busyName !== null}
+                      >
+                        Apply
+                      </Button>
+                      <Button
+                        size="small"
+                        startIcon={<Add />}
+                        onClick={() => handleCreateEvent(group)}
+                        disabled={busyName !== null}
+                      >
+                        Add as Event
+                      </Button>
+                    </Box>
+                  </Paper>
+                );
+              })}
+            </Box>
+
+            <TablePagination
+              component="div"
+              count={groups.length}
+              page={currentPage}
+              onPageChange={(_, newPage) => setPage(newPage)}
+              rowsPerPage={ROWS_PER_PAGE}
+              rowsPerPageOptions={[ROWS_PER_PAGE]}
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {suggested.length > 0 && (
+          <Button
+            onClick={handleApplyAll}
+            disabled={busyName !== null}
+            startIcon={busyName === '*' ? <CircularProgress size={16} /> : null}
+          >
+            Apply All {suggested.length} Choices
+          </Button>
+        )}
+        <Button onClick={onClose} disabled={busyName !== null}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Autocomplete, TextField } from '@mui/material';
+import { useEvents } from '../hooks/useEvents';
+import type { ProgramEvent } from '../types/event';
+import { findCanonicalEvent } from '../utils/eventNormalization';
+
+interface EventPickerProps {
+  value: string; // Event name as written on the sign-in
+  onChange: (event: ProgramEvent | null) => void;
+  label?: string;
+  disabled?: boolean;
+  size?: 'small' | 'medium';
+}
+
+const getEventLabel = (event: ProgramEvent) => [event.name, event.date].filter(Boolean).join(' • ');
+
+/**
+ * Pick one of the canonical events from the events tab, so sign-ins refer to events by their exact name
+ */
+export const EventPicker: React.FC<EventPickerProps> = ({ value, onChange, label = 'Event', disabled, size }) => {
+  const { events, loading } = useEvents();
+  const selected = findCanonicalEvent(value, events);
+  const isFreeText = !!value && !selected;
+
+  return (
+    <Autocomplete
+      size={size}
+      options={events}
+      value={selected}
+      onChange={(_, event) => onChange(event)}
+      getOptionLabel={getEventLabel}
+      getOptionKey={event => event.id}
+      isOptionEqualToValue={(option, current) => option.id === current.id}
+      loading={loading}
+      disabled={disabled}
+      noOptionsText="No events yet. Add them on the Events page."
+      renderInput={params => (
+        <TextField
+          {...params}
+          label={label}
+          helperText={isFreeText ? `"${value}" isn't one of the events` : undefined}
+          color={isFreeText ? 'warning' : undefined}
+        />
+      )}
+    />
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  Alert,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { CheckCircle, Info, ErrorOutline } from '@mui/icons-material';
+import jsQR from 'jsqr';
+import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import { useSignInSheet } from '../contexts/SignInSheetContext';
+import type { ProgramEvent } from '../types/event';
+import { buildStudentSignIn, getStudentQrValue, hasSignedInToday, parseStudentQrValue } from '../utils/checkIn';
+
+interface EventScannerDialogProps {
+  open: boolean;
+  onClose: () => void;
+  event: ProgramEvent | null;
+}
+
+interface ScanResult {
+  key: number;
+  status: 'signedIn' | 'duplicate' | 'error';
+  message: string;
+  time: string;
+}
+
+const REPEAT_SCAN_MS = 3000; // The camera keeps seeing a code held in front of it; ignore it for this long
+const MAX_RESULTS = 20;
+
+const statusIcons = {
+  signedIn: <CheckCircle color="success" />,
+  duplicate: <Info color="info" />,
+  error: <ErrorOutline color="error" />,
+};
+
+/**
+ * Scan scholars' QR codes with the device camera and sign each one in to the event.
+ * Scholars already signed in today are reported rather than added twice.
+ */
+export const EventScannerDialog: React.FC<EventScannerDialogProps> = ({ open, onClose, event }) => {
+  const theme = useTheme();
+  const fullScreen = useMediaQuery(theme.breakpoints.down('sm'));
+  const { state: authState } = useAuth();
+  const { state: dataState } = useData();
+  const { signIns, appendSignIn } = useSignInSheet();
+  const [results, setResults] = useState<ScanResult[]>([]);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [scanEventId, setScanEventId] = useState(event?.id);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScanRef = useRef({ text: '', at: 0 });
+  const busyRef = useRef(false);
+  const resultKeyRef = useRef(0);
+  // Students signed in from this scanner, as the sign-in list may not have caught up yet
+  const recordedRef = useRef(new Set<string>());
+  const handleCodeRef = useRef<(text: string) => Promise<void>>(async () => {});
+
+  // Start each event with an empty scan list
+  if (event?.id !== scanEventId) {
+    setScanEventId(event?.id);
+    setResults([]);
+    setManualCode('');
+  }
+
+  const addResult = (status: ScanResult['status'], message: string) => {
+    setResults(prev => [
+      { key: ++resultKeyRef.current, status, message, time: new Date().toLocaleTimeString() },
+      ...prev,
+    ].slice(0, MAX_RESULTS));
+  };
+
+  const handleCode = async (text: string) => {
+    const accessToken = authState.user?.accessToken;
+    if (!event || !accessToken) return;
+
+    const studentId = parseStudentQrValue(text);
+    if (!studentId) {
+      addResult('error', 'Not a scholar QR code');
+      return;
+    }
+    const student = dataState.students.find(candidate => candidate.id === studentId);
+    if (!student) {
+      addResult('error', `No scholar with ID ${studentId}`);
+      return;
+    }
+    const name = `${student.firstName} ${student.lastName}`;
+    if (recordedRef.current.has(`${event.id}|${student.id}`) || hasSignedInToday(signIns, event.name, student)) {
+      addResult('duplicate', `${name} is already signed in today`);
+      return;
+    }
+
+    try {
+      await appendSignIn(accessToken, buildStudentSignIn(student, event.name));
+      recordedRef.current.add(`${event.id}|${student.id}`);
+      addResult('signedIn', `${name} signed in`);
+      navigator.vibrate?.(100);
+    } catch (err) {
+      console.error('❌ Scanner sign-in failed:', err);
+      addResult('error', `Could not sign in ${name}. Scan again to retry.`);
+    }
+  };
+
+  // The camera loop outlives renders, so it calls the latest handler through a ref
+  useEffect(() => {
+    handleCodeRef.current = handleCode;
+  });
+
+  // Only touches refs, so the camera loop can hold on to it
+  const processCode = useCallback(async (text: string) => {
+    const now = Date.now();
+    if (busyRef.current) return;
+    if (text === lastScanRef.current.text && now - lastScanRef.current.at < REPEAT_SCAN_MS) return;
+    lastScanRef.current = { text, at: now };
+
+    busyRef.current = true;
+    try {
+      await handleCodeRef.current(text);
+    } finally {
+      busyRef.current = false;
+      // Time the repeat window from when the result was shown
+      lastScanRef.current = { text, at: Date.now() };
+    }
+  }, []);
+
+  // Run the camera while the scanner is open, decoding a frame at a time
+  const eventId = event?.id;
+  useEffect(() => {
+    if (!open || !eventId) return;
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    const scanFrame = () => {
+      if (stopped) return;
+      const video = videoRef.current;
+      if (video && context && video.readyState >= video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(data, canvas.width, canvas.height, { inversionAttempts: 'dontInvert' });
+        if (code?.data) processCode(code.data);
+      }
+      frame = requestAnimationFrame(scanFrame);
+    };
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError('This browser can\'t use the camera. Enter scholar IDs below instead.');
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+        if (stopped) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        setCameraError(null);
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        frame = requestAnimationFrame(scanFrame);
+      } catch (err) {
+        console.error('Failed to start the camera:', err);
+        setCameraError('The camera could not be started. Allow camera access, or enter scholar IDs below instead.');
+      }
+    };
+
+    start();
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [open, eventId, processCode]);
+
+  const handleManualSubmit = () => {
+    const value = manualCode.trim();
+    if (!value) return;
+    // Accept a bare ID as well as the text in the code
+    processCode(parseStudentQrValue(value) ? value : getStudentQrValue(value));
+    setManualCode('');
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth fullScreen={fullScreen}>
+      <DialogTitle>
+        Scan Scholar Codes
+        {event && (
+          <Typography variant="body2" color="text.secondary">
+            {event.name}
+          </Typography>
+        )}
+      </DialogTitle>
+      <DialogContent>
+        {cameraError ? (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {cameraError}
+          </Alert>
+        ) : (
+          <Box
+            component="video"
+            ref={videoRef}
+            muted
+            playsInline
+            sx={{ width: '100%', maxHeight: 360, bgcolor: 'grey.900', borderRadius: 1, mb: 2, objectFit: 'cover' }}
+          />
+        )}
+
+        <Box component="form" onSubmit={e => { e.preventDefault(); handleManualSubmit(); }} sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            size="small"
+            fullWidth
+            label="Scholar ID"
+            value={manualCode}
+            onChange={e => setManualCode(e.target.value)}
+            slotProps={{ htmlInput: { autoComplete: 'off' } }}
+          />
+          <Button type="submit" variant="outlined" disabled={!manualCode.trim()}>
+            Sign In
+          </Button>
+        </Box>
+
+        {results.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 2 }}>
+            Hold a scholar's QR code up to the camera.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {results.map(result => (
+              <ListItem key={result.key} disableGutters>
+                <ListItemIcon sx={{ minWidth: 36 }}>{statusIcons[result.status]}</ListItemIcon>
+                <ListItemText primary={result.message} secondary={result.time} />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} variant="contained">
+          Done
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,275 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { CheckCircle, HowToReg } from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import { useSignInSheet } from '../contexts/SignInSheetContext';
+import { SignInDataTransformService } from '../services/SignInDataTransformService';
+import type { Student } from '../types';
+import type { ProgramEvent } from '../types/event';
+import type { SignInRow } from '../types/signIn';
+import { buildStudentMatchIndex, matchSignIn } from '../utils/signInMatching';
+import { buildStudentSignIn, hasSignedInToday } from '../utils/checkIn';
+
+interface EventSignInFormProps {
+  event: ProgramEvent;
+  autoReset?: boolean; // Clear the confirmation by itself, for a shared device
+}
+
+type SignInStep =
+  | { name: 'lookup' }
+  | { name: 'confirm'; students: Student[] }
+  | { name: 'register' }
+  | { name: 'done'; firstName: string; alreadySignedIn: boolean };
+
+interface RegistrationForm {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  school: string;
+  gradYear: string;
+}
+
+const emptyForm: RegistrationForm = { firstName: '', lastName: '', email: '', phone: '', school: '', gradYear: '' };
+
+const DONE_RESET_MS = 4000; // How long the confirmation stays up before the next scholar
+
+// Show just enough of a name for scholars to recognize themselves
+const getShortName = (student: Student) => `${student.firstName} ${student.lastName.charAt(0)}.`;
+
+/**
+ * Steps for scholars to sign themselves in to an event by email or phone. Scholars not found
+ * are added as unlinked sign-ins for staff to match later.
+ */
+export const EventSignInForm: React.FC<EventSignInFormProps> = ({ event, autoReset = false }) => {
+  const { state: authState } = useAuth();
+  const { state: dataState } = useData();
+  const { signIns, appendSignIn } = useSignInSheet();
+  const [step, setStep] = useState<SignInStep>({ name: 'lookup' });
+  const [lookup, setLookup] = useState('');
+  const [form, setForm] = useState<RegistrationForm>(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const matchIndex = useMemo(() => buildStudentMatchIndex(dataState.students), [dataState.students]);
+
+  const reset = useCallback(() => {
+    setStep({ name: 'lookup' });
+    setLookup('');
+    setForm(emptyForm);
+    setError(null);
+  }, []);
+
+  // Clear the screen for the next scholar
+  useEffect(() => {
+    if (!autoReset || step.name !== 'done') return;
+    const timer = setTimeout(reset, DONE_RESET_MS);
+    return () => clearTimeout(timer);
+  }, [autoReset, step, reset]);
+
+  const handleLookup = () => {
+    const value = lookup.trim();
+    if (!value) return;
+
+    const isEmail = value.includes('@');
+    const probe: SignInRow = {
+      firstName: '', lastName: '', name: '', school: '', gradYear: '', date: '', event: '',
+      email: isEmail ? value : '',
+      phone: isEmail ? '' : value,
+    };
+    const match = matchSignIn(probe, matchIndex);
+    setError(null);
+
+    if (match.student) {
+      setStep({ name: 'confirm', students: [match.student] });
+    } else if (match.candidates.length > 0) {
+      setStep({ name: 'confirm', students: match.candidates });
+    } else {
+      setForm({ ...emptyForm, email: isEmail ? value : '', phone: isEmail ? '' : value });
+      setStep({ name: 'register' });
+    }
+  };
+
+  const submit = async (signIn: SignInRow, firstName: string) => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await appendSignIn(accessToken, signIn);
+      setStep({ name: 'done', firstName, alreadySignedIn: false });
+    } catch (err) {
+      console.error('❌ Event sign-in failed:', err);
+      setError('Sorry, we couldn\'t sign you in. Please try again or ask a staff member for help.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirm = (student: Student) => {
+    if (hasSignedInToday(signIns, event.name, student)) {
+      setStep({ name: 'done', firstName: student.firstName, alreadySignedIn: true });
+      return;
+    }
+    submit(buildStudentSignIn(student, event.name), student.firstName);
+  };
+
+  const handleRegister = () => {
+    const firstName = form.firstName.trim();
+    const lastName = form.lastName.trim();
+    submit({
+      firstName,
+      lastName,
+      name: `${firstName} ${lastName}`,
+      school: form.school.trim(),
+      phone: form.phone.trim(),
+      gradYear: form.gradYear.trim(),
+      email: form.email.trim().toLowerCase(),
+      date: SignInDataTransformService.formatSignInDate(),
+      event: event.name,
+    }, firstName);
+  };
+
+  const handleFormChange = (field: keyof RegistrationForm) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const renderStep = () => {
+    switch (step.name) {
+      case 'lookup':
+        return (
+          <Box component="form" onSubmit={e => { e.preventDefault(); handleLookup(); }}>
+            <Typography variant="h5" fontWeight={600} gutterBottom>
+              Welcome! Sign in below.
+            </Typography>
+            <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+              Enter your email address or phone number.
+            </Typography>
+            <TextField
+              fullWidth
+              autoFocus
+              label="Email or phone number"
+              value={lookup}
+              onChange={e => setLookup(e.target.value)}
+              slotProps={{ htmlInput: { autoComplete: 'off', style: { fontSize: 24 } } }}
+              sx={{ mb: 3 }}
+            />
+            <Button type="submit" variant="contained" size="large" fullWidth disabled={!lookup.trim()}>
+              Continue
+            </Button>
+          </Box>
+        );
+
+      case 'confirm':
+        return (
+          <Box>
+            <Typography variant="h5" fontWeight={600} gutterBottom>
+              {step.students.length === 1 ? 'Is this you?' : 'Which one is you?'}
+            </Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, my: 3 }}>
+              {step.students.map(student => (
+                <Button
+                  key={student.id}
+                  variant="contained"
+                  size="large"
+                  startIcon={submitting ? <CircularProgress size={20} /> : <HowToReg />}
+                  onClick={() => handleConfirm(student)}
+                  disabled={submitting}
+                  sx={{ py: 2, fontSize: 20 }}
+                >
+                  {getShortName(student)}
+                </Button>
+              ))}
+            </Box>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Button onClick={reset} disabled={submitting}>
+                Back
+              </Button>
+              <Button
+                onClick={() => {
+                  setForm({ ...emptyForm, email: lookup.includes('@') ? lookup.trim() : '' });
+                  setStep({ name: 'register' });
+                }}
+                disabled={submitting}
+              >
+                That's not me
+              </Button>
+            </Box>
+          </Box>
+        );
+
+      case 'register':
+        return (
+          <Box component="form" onSubmit={e => { e.preventDefault(); handleRegister(); }}>
+            <Typography variant="h5" fontWeight={600} gutterBottom>
+              Tell us about yourself
+            </Typography>
+            <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+              We couldn't find you yet, so a staff member will add you after the event.
+            </Typography>
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 3 }}>
+              <TextField label="First Name" value={form.firstName} onChange={handleFormChange('firstName')} required autoFocus />
+              <TextField label="Last Name" value={form.lastName} onChange={handleFormChange('lastName')} required />
+              <TextField label="Email" type="email" value={form.email} onChange={handleFormChange('email')} />
+              <TextField label="Phone" type="tel" value={form.phone} onChange={handleFormChange('phone')} />
+              <TextField label="School" value={form.school} onChange={handleFormChange('school')} />
+              <TextField
+                label="Graduation Year"
+                value={form.gradYear}
+                onChange={handleFormChange('gradYear')}
+                slotProps={{ htmlInput: { inputMode: 'numeric' } }}
+              />
+            </Box>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Button onClick={reset} disabled={submitting}>
+                Back
+              </Button>
+              <Button
+                type="submit"
+                variant="contained"
+                size="large"
+                disabled={submitting || !form.firstName.trim() || !form.lastName.trim()}
+                startIcon={submitting ? <CircularProgress size={20} /> : null}
+              >
+                Sign In
+              </Button>
+            </Box>
+          </Box>
+        );
+
+      case 'done':
+        return (
+          <Box sx={{ textAlign: 'center', py: 2 }}>
+            <CheckCircle color="success" sx={{ fontSize: 96, mb: 2 }} />
+            <Typography variant="h4" fontWeight={600} gutterBottom>
+              {step.alreadySignedIn ? `You're already signed in, ${step.firstName}!` : `Thanks, ${step.firstName}!`}
+            </Typography>
+            <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+              {step.alreadySignedIn ? 'No need to sign in again today.' : `You're signed in to ${event.name}.`}
+            </Typography>
+            <Button onClick={reset}>{autoReset ? 'Done' : 'Sign In Someone Else'}</Button>
+          </Box>
+        );
+    }
+  };
+
+  return (
+    <>
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+      {renderStep()}
+    </>
+  );
+};
@@ -0,0 +1,308 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  Alert,
+  Badge,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+} from '@mui/material';
+import { Add, Edit, Delete, Refresh, AutoFixHigh, TabletMac, QrCode, QrCodeScanner } from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import { useEvents } from '../hooks/useEvents';
+import { useSignInSheet } from '../contexts/SignInSheetContext';
+import { useDataSource } from '../hooks/useDataSource';
+import { useSettings } from '../contexts/SettingsContext';
+import type { ProgramEvent, ProgramEventInput } from '../types/event';
+import { findCanonicalEvent, getNonCanonicalEventNames } from '../utils/eventNormalization';
+import { getEventCheckInUrl } from '../utils/checkIn';
+import DashboardCard from './DashboardCard';
+import { EventFormDialog } from './EventFormDialog';
+import { EventNormalizationDialog } from './EventNormalizationDialog';
+import { EventScannerDialog } from './EventScannerDialog';
+import { QrCodeDialog } from './QrCodeDialog';
+
+interface EventsPageProps {
+  onStartKiosk: (event: ProgramEvent) => void;
+}
+
+const EventsPage: React.FC<EventsPageProps> = ({ onStartKiosk }) => {
+  const { state: authState } = useAuth();
+  const { state: settingsState } = useSettings();
+  const { config } = useDataSource();
+  const { events, loading, error, fetchEvents, addEvent, updateEvent, deleteEvent } = useEvents();
+  const { signIns, updateSignInEvents } = useSignInSheet();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<ProgramEvent | null>(null);
+  const [deletingEvent, setDeletingEvent] = useState<ProgramEvent | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [normalizeOpen, setNormalizeOpen] = useState(false);
+  const [kioskEvent, setKioskEvent] = useState<ProgramEvent | null>(null);
+  const [qrEvent, setQrEvent] = useState<ProgramEvent | null>(null);
+  const [scanEvent, setScanEvent] = useState<ProgramEvent | null>(null);
+  const hasKioskPin = !!settingsState.settings.kiosk.pinHash;
+
+  const signInCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    signIns.forEach(signIn => {
+      const event = findCanonicalEvent(signIn.event, events);
+      if (event) counts.set(event.id, (counts.get(event.id) ?? 0) + 1);
+    });
+    return counts;
+  }, [signIns, events]);
+
+  const nonCanonicalCount = useMemo(() => getNonCanonicalEventNames(signIns, events).length, [signIns, events]);
+
+  // Newest first, undated events last
+  const sortedEvents = useMemo(
+    () => [...events].sort((a, b) => (b.date || '').localeCompare(a.date || '') || a.name.localeCompare(b.name)),
+    [events]
+  );
+  const typeOptions = useMemo(() => [...new Set(events.map(event => event.type).filter(Boolean))].sort(), [events]);
+
+  const handleRefresh = () => {
+    if (authState.user?.accessToken) {
+      fetchEvents(authState.user.accessToken);
+    }
+  };
+
+  const handleOpenForm = (event: ProgramEvent | null) => {
+    setEditingEvent(event);
+    setFormOpen(true);
+  };
+
+  const handleSubmit = async (input: ProgramEventInput) => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) throw new Error('Sign in again to save events');
+
+    if (editingEvent) {
+      await updateEvent(accessToken, { ...editingEvent, ...input });
+
+      // Sign-ins refer to events by name, so carry a rename over to them
+      const name = input.name.trim();
+      const renamed = name !== editingEvent.name
+        ? signIns.filter(signIn => findCanonicalEvent(signIn.event, [editingEvent]))
+        : [];
+      if (renamed.length > 0) {
+        try {
+          await updateSignInEvents(accessToken, renamed.map(signIn => ({ signIn, event: name })));
+        } catch (err) {
+          console.error('❌ Failed to rename the event on its sign-ins:', err);
+          throw new Error(`The event was renamed, but its sign-ins still use the old name. Use Normalize Event Names to update them. (${err instanceof Error ? err.message : 'Unknown error'})`);
+        }
+      }
+    } else {
+      await addEvent(accessToken, input);
+    }
+  };
+
+  const handleDelete = async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken || !deletingEvent) return;
+
+    setDeleting(true);
+    setDeleteError(null);
+    try {
+      await deleteEvent(accessToken, deletingEvent.id);
+      setDeletingEvent(null);
+    } catch (err) {
+      setDeleteError(err instanceof Error ? err.message : 'Failed to delete the event');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 4 }}>
+      <DashboardCard
+        title="Events"
+        subtitle={`Canonical events from the "${config.eventsSheetName}" tab, which sign-ins refer to by name`}
+        hoverable={false}
+        headerAction={
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            <Button
+              startIcon={loading ? <CircularProgress size={16} /> : <Refresh />}
+              onClick={handleRefresh}
+              disabled={loading}
+            >
+              Refresh
+            </Button>
+            <Badge badgeContent={nonCanonicalCount} color="warning">
+              <Button variant="outlined" startIcon={<AutoFixHigh />} onClick={() => setNormalizeOpen(true)}>
+                Normalize Event Names
+              </Button>
+            </Badge>
+            <Button variant="contained" startIcon={<Add />} onClick={() => handleOpenForm(null)}>
+              Add Event
+            </Button>
+          </Box>
+        }
+      >
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading && events.length === 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : events.length === 0 ? (
+          <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            No events yet. Add one, or use Normalize Event Names to turn the names already in the sign-in sheet into events.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Location</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell align="right">Points</TableCell>
+                  <TableCell align="right">Sign-Ins</TableCell>
+                  <TableCell align="right" />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {sortedEvents.map(event => (
+                  <TableRow key={event.id} hover>
+                    <TableCell sx={{ fontWeight: 500 }}>{event.name}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{event.date || '-'}</TableCell>
+                    <TableCell>{event.location || '-'}</TableCell>
+                    <TableCell>{event.type || '-'}</TableCell>
+                    <TableCell align="right">{event.points}</TableCell>
+                    <TableCell align="right">{signInCounts.get(event.id) ?? 0}</TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <IconButton size="small" aria-label="Check-in QR code" title="Check-in QR code" onClick={() => setQrEvent(event)}>
+                        <QrCode fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" aria-label="Scan scholar codes" title="Scan scholar codes" onClick={() => setScanEvent(event)}>
+                        <QrCodeScanner fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" aria-label="Start kiosk" title="Start kiosk" onClick={() => setKioskEvent(event)}>
+                        <TabletMac fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" aria-label="Edit event" onClick={() => handleOpenForm(event)}>
+                        <Edit fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        aria-label="Delete event"
+                        onClick={() => {
+                          setDeleteError(null);
+                          setDeletingEvent(event);
+                        }}
+                      >
+                        <Delete fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DashboardCard>
+
+      <EventFormDialog
+        open={formOpen}
+        onClose={() => setFormOpen(false)}
+        onSubmit={handleSubmit}
+        initialData={editingEvent}
+        title={editingEvent ? 'Edit Event' : 'Add Event'}
+        typeOptions={typeOptions}
+        existingNames={events.filter(event => event.id !== editingEvent?.id).map(event => event.name)}
+      />
+
+      <EventNormalizationDialog open={normalizeOpen} onClose={() => setNormalizeOpen(false)} />
+
+      <QrCodeDialog
+        open={!!qrEvent}
+        onClose={() => setQrEvent(null)}
+        title={qrEvent?.name ?? ''}
+        value={qrEvent ? getEventCheckInUrl(qrEvent.id) : ''}
+        caption="Scan with a phone or tablet signed in to the app to open this event's mobile check-in page for scholars. The device stays on that page until the staff PIN is entered."
+      />
+
+      <EventScannerDialog open={!!scanEvent} onClose={() => setScanEvent(null)} event={scanEvent} />
+
+      <Dialog open={!!kioskEvent} onClose={() => setKioskEvent(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Start Kiosk</DialogTitle>
+        <DialogContent>
+          {hasKioskPin ? (
+            <Typography variant="body1">
+              Scholars will sign themselves in to "{kioskEvent?.name}" on this device. The app stays locked in
+              kiosk mode until the staff PIN is entered.
+            </Typography>
+          ) : (
+            <Alert severity="warning">
+              Set a staff PIN under Settings → Kiosk first, so the kiosk can't be left without it.
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setKioskEvent(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<TabletMac />}
+            disabled={!hasKioskPin}
+            onClick={() => {
+              if (kioskEvent) onStartKiosk(kioskEvent);
+              setKioskEvent(null);
+            }}
+          >
+            Start Kiosk
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!deletingEvent} onClose={deleting ? undefined : () => setDeletingEvent(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Delete Event</DialogTitle>
+        <DialogContent>
+          {deleteError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {deleteError}
+            </Alert>
+          )}
+          <Typography variant="body1">
+            Delete "{deletingEvent?.name}"? Its {signInCounts.get(deletingEvent?.id ?? '') ?? 0} sign-in(s) keep the
+            event name, but it will no longer be offered in the event picker.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeletingEvent(null)} disabled={deleting}>
+            Cancel
+          </Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={handleDelete}
+            disabled={deleting}
+            startIcon={deleting ? <CircularProgress size={20} /> : <Delete />}
+          >
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default EventsPage;
@@ -2,6 +2,7 @@ import React from 'react';
 import { Button, Box, Typography } from '@mui/material';
 import { Google as GoogleIcon } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
+import { tokenManagementService } from '../services/TokenManagementService';
 
 interface GoogleOAuthButtonProps {
   onLoginStart?: () => void;
@@ -19,89 +20,46 @@ const GoogleOAuthButton: React.FC<GoogleOAuthButtonProps> = ({
   const handleGoogleLogin = async () => {
     try {
       onLoginStart?.();
-      
-      // Check if Google APIs are loaded
-      if (!window.google?.accounts?.oauth2) {
-        throw new Error('Google OAuth library not loaded. Please check your internet connection and try again.');
-      }
 
       console.log('🚀 Initiating Google OAuth...');
       
-      const client = window.google.accounts.oauth2.initTokenClient({
-        client_id: import.meta.env.VITE_GOOGLE_CLIENT_ID,
-        scope: [
-          'https://www.googleapis.com/auth/spreadsheets',
-          'https://www.googleapis.com/auth/userinfo.profile',
-          'https://www.googleapis.com/auth/userinfo.email'
-        ].join(' '),
-        callback: async (response: any) => {
-          console.log('📋 OAuth Response:', {
-            access_token: response.access_token ? 'Present' : 'Missing',
-            token_type: response.token_type,
-            expires_in: response.expires_in,
-            scope: response.scope,
-            error: response.error
-          });
-
-          if (response.error) {
-            const errorMsg = `OAuth Error: ${response.error}`;
-            console.error('❌', errorMsg);
-            onLoginError?.(errorMsg);
-            return;
-          }
-
-          if (!response.access_token) {
-            const errorMsg = 'No access token received from Google';
-            console.error('❌', errorMsg);
-            onLoginError?.(errorMsg);
-            return;
-          }
-
-          try {
-            // Get user info using the access token
-            console.log('👤 Fetching user info...');
-            const userResponse = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
-              headers: {
-                'Authorization': `Bearer ${response.access_token}`
-              }
-            });
-
-            if (!userResponse.ok) {
-              throw new Error(`Failed to fetch user info: ${userResponse.status}`);
-            }
+      // Uses the same token client that silently refreshes the token later in the session
+      const response = await tokenManagementService.requestAccessToken();
+      console.log('📋 OAuth Response:', {
+        access_token: response.access_token ? 'Present' : 'Missing',
+        token_type: response.token_type,
+        expires_in: response.expires_in,
+        scope: response.scope
+      });
 
-            const userInfo = await userResponse.json();
-            console.log('✅ User info received:', {
-              name: userInfo.name,
-              email: userInfo.email,
-              picture: userInfo.picture
-            });
+      // Get user info using the access token
+      console.log('👤 Fetching user info...');
+      const userResponse = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
+        headers: {
+          'Authorization': `Bearer ${response.access_token}`
+        }
+      });
 
-            // Store the user info and token
-            login(response.access_token, {
-              id: userInfo.id,
-              email: userInfo.email,
-              name: userInfo.name,
-              picture: userInfo.picture
-            });
+      if (!userResponse.ok) {
+        throw new Error(`Failed to fetch user info: ${userResponse.status}`);
+      }
 
-            onLoginSuccess?.(response.access_token, userInfo);
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : 'Failed to fetch user information';
-            console.error('❌ Error getting user info:', error);
-            onLoginError?.(errorMsg);
-          }
-        },
-        error_callback: (error: any) => {
-          const errorMsg = `OAuth initialization error: ${error}`;
-          console.error('❌', errorMsg);
-          onLoginError?.(errorMsg);
-        }
+      const userInfo = await userResponse.json();
+      console.log('✅ User info received:', {
+        name: userInfo.name,
+        email: userInfo.email,
+        picture: userInfo.picture
       });
 
-      // Request access token
-      client.requestAccessToken();
-      
+      // Store the user info and token
+      login(response.access_token, {
+        id: userInfo.id,
+        email: userInfo.email,
+        name: userInfo.name,
+        picture: userInfo.picture
+      }, Number(response.expires_in));
+
+      onLoginSuccess?.(response.access_token, userInfo);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Failed to initialize Google OAuth';
       console.error('❌ Google login error:', error);
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  IconButton,
+  CircularProgress,
+} from '@mui/material';
+import { Lock } from '@mui/icons-material';
+import { useEvents } from '../hooks/useEvents';
+import { EventSignInForm } from './EventSignInForm';
+import { StaffPinDialog } from './StaffPinDialog';
+import { colorTokens } from '../theme';
+
+interface KioskModeProps {
+  eventId: string;
+  onExit: () => void;
+}
+
+/**
+ * Full-screen kiosk where scholars sign themselves in to one event by email or phone. Scholars not
+ * found are added as unlinked sign-ins for staff to match later. Leaving requires the staff PIN.
+ */
+const KioskMode: React.FC<KioskModeProps> = ({ eventId, onExit }) => {
+  const { events, loading: eventsLoading } = useEvents();
+  const [exitOpen, setExitOpen] = useState(false);
+
+  const event = events.find(candidate => candidate.id === eventId) ?? null;
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        p: 3,
+        position: 'relative',
+        background: `linear-gradient(135deg, ${colorTokens.primary[50]} 0%, ${colorTokens.secondary[50]} 100%)`,
+      }}
+    >
+      <IconButton
+        aria-label="Exit kiosk"
+        onClick={() => setExitOpen(true)}
+        sx={{ position: 'absolute', top: 16, right: 16, color: 'text.disabled' }}
+      >
+        <Lock />
+      </IconButton>
+
+      {event && (
+        <Box sx={{ textAlign: 'center', mb: 4 }}>
+          <Typography variant="h3" component="h1" fontWeight={700}>
+            {event.name}
+          </Typography>
+          {(event.date || event.location) && (
+            <Typography variant="h6" color="text.secondary">
+              {[event.date, event.location].filter(Boolean).join(' • ')}
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      <Card sx={{ width: '100%', maxWidth: 560, borderRadius: 3 }}>
+        <CardContent sx={{ p: 4 }}>
+          {event ? (
+            <EventSignInForm event={event} autoReset />
+          ) : eventsLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <Typography variant="h6" color="text.secondary">
+              This event is no longer available. Ask a staff member to restart the kiosk.
+            </Typography>
+          )}
+        </CardContent>
+      </Card>
+
+      <StaffPinDialog
+        open={exitOpen}
+        onClose={() => setExitOpen(false)}
+        onUnlock={() => {
+          setExitOpen(false);
+          onExit();
+        }}
+        actionLabel="Exit Kiosk"
+        helperText="Enter the staff PIN to leave kiosk mode"
+      />
+    </Box>
+  );
+};
+
+export default KioskMode;
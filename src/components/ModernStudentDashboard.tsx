@@ -1,4 +1,5 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Routes, Route, Navigate, useLocation, useMatch, useNavigate } from 'react-router-dom';
 import {
   Box,
   Container,
@@ -18,6 +19,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../contexts/AuthContext';
 import { useData } from '../contexts/DataContext';
 import { useSettings } from '../contexts/SettingsContext';
+import { useDataSource } from '../hooks/useDataSource';
+import { useSignInSheet } from '../contexts/SignInSheetContext';
+import { useEvents } from '../hooks/useEvents';
 import Navigation from './Navigation';
 import DashboardCard from './DashboardCard';
 import DashboardLayout, { DashboardGridItem } from './DashboardLayout';
@@ -28,22 +32,94 @@ import HighSchoolChart from './HighSchoolChart';
 import LoadingSpinner from './LoadingSpinner';
 import GoogleOAuthButton from './GoogleOAuthButton';
 import SignInSheetSection from './SignInSheetSection';
+import EventsPage from './EventsPage';
+import KioskMode from './KioskMode';
+import EventCheckInPage from './EventCheckInPage';
 import SettingsPage from './Settings/SettingsPage';
 import { colorTokens } from '../theme';
 import { columnSyncService } from '../services/ColumnSyncService';
+import { useBackgroundSync } from '../hooks/useBackgroundSync';
+import { useIdleTimeout } from '../hooks/useIdleTimeout';
+import { useTokenManagement } from '../hooks/useTokenManagement';
+import { IdleTimeoutTracker } from '../services/IdleTimeoutService';
+import { SessionTimeoutDialog } from './SessionTimeoutDialog';
+import { SessionRenewalPrompt } from './SessionRenewalPrompt';
+import { CachedDataIndicator } from './CachedDataIndicator';
+import { DataCacheService } from '../services/DataCacheService';
+import { KioskService } from '../services/KioskService';
+import type { ProgramEvent } from '../types/event';
+import { getCheckInPath, getPageFromPath, getPagePath, getStudentPath, isOpenedFromList } from '../utils/routes';
+import type { StudentDetailsState } from '../utils/routes';
 
 const ModernStudentDashboard: React.FC = () => {
   const theme = useTheme();
   const { state: authState, logout } = useAuth();
-  const { state: dataState, fetchStudents } = useData();
+  const { state: dataState, fetchStudents, syncStudents, loadCachedStudents, clearData, assignStudentIds } = useData();
+  const { config: dataSourceConfig, sourceKey, programs, activeProgram, switchProgram } = useDataSource();
   const { state: settingsState, syncDiscoveredCustomColumns, removeDeletedCustomColumns, cleanupDuplicateColumns } = useSettings();
-  const [currentPage, setCurrentPage] = useState('dashboard');
+  const { fetchSignIns, syncSignIns } = useSignInSheet();
+  const { fetchEvents } = useEvents();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const currentPage = getPageFromPath(location.pathname);
+  // The check-in page replaces the whole app layout, so it is matched here rather than in <Routes>
+  const checkInEventId = useMatch('/checkin/:eventId')?.params.eventId ?? null;
+  const detailsStudentId = useMatch('/students/:studentId')?.params.studentId ?? null;
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
   const [loginError, setLoginError] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [assigningIds, setAssigningIds] = useState(false);
+  const [assignIdsError, setAssignIdsError] = useState<string | null>(null);
+  const userEmail = authState.user?.email;
+  const [kioskEventId, setKioskEventId] = useState<string | null>(
+    () => (userEmail ? KioskService.loadLock(userEmail, activeProgram.id) : null)
+  );
+  const [checkInLockEventId, setCheckInLockEventId] = useState<string | null>(
+    () => (userEmail ? KioskService.loadLock(userEmail, activeProgram.id, 'checkIn') : null)
+  );
+  const hasKioskPin = !!settingsState.settings.kiosk.pinHash;
+
+  // The kiosk and check-in locks belong to a user's program, so follow them when either changes
+  const kioskScopeKey = `${userEmail ?? ''}|${activeProgram.id}`;
+  const [loadedKioskScopeKey, setLoadedKioskScopeKey] = useState(kioskScopeKey);
+  if (loadedKioskScopeKey !== kioskScopeKey) {
+    setLoadedKioskScopeKey(kioskScopeKey);
+    setKioskEventId(userEmail ? KioskService.loadLock(userEmail, activeProgram.id) : null);
+    setCheckInLockEventId(userEmail ? KioskService.loadLock(userEmail, activeProgram.id, 'checkIn') : null);
+  }
+
+  // Starting or exiting the kiosk or check-in in another tab applies here too
+  useEffect(() => {
+    if (!userEmail) return;
+    const kioskLockKey = KioskService.getLockKey(userEmail, activeProgram.id);
+    const checkInLockKey = KioskService.getLockKey(userEmail, activeProgram.id, 'checkIn');
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === kioskLockKey) setKioskEventId(event.newValue);
+      if (event.key === checkInLockKey) setCheckInLockEventId(event.newValue);
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [userEmail, activeProgram.id]);
+
+  // Opening a check-in link locks the device to that event until the staff PIN is entered. Without
+  // a PIN there is no way to lock it, so the check-in page asks for one to be set instead.
+  useEffect(() => {
+    if (!userEmail || !initialLoadComplete || !checkInEventId || !hasKioskPin || checkInLockEventId) return;
+    KioskService.saveLock(userEmail, activeProgram.id, checkInEventId, 'checkIn');
+    setCheckInLockEventId(checkInEventId);
+  }, [userEmail, activeProgram.id, initialLoadComplete, checkInEventId, hasKioskPin, checkInLockEventId]);
+
+  // While locked, Back, Forward and typed URLs all lead back to the check-in page
+  useEffect(() => {
+    if (checkInLockEventId && checkInEventId !== checkInLockEventId) {
+      navigate(getCheckInPath(checkInLockEventId), { replace: true });
+    }
+  }, [checkInLockEventId, checkInEventId, navigate]);
 
   // Handle login callbacks
   const handleLoginSuccess = (_accessToken: string) => {
     setLoginError(null);
+    setSessionExpired(false);
     console.log('✅ Login successful, will fetch data automatically');
   };
 
@@ -52,12 +128,117 @@ const ModernStudentDashboard: React.FC = () => {
     console.error('❌ Login failed:', error);
   };
 
+  // Sign out and drop student data so nothing is left on screen for the next person
+  const handleLogout = () => {
+    IdleTimeoutTracker.clearActivity();
+    if (authState.user?.email) DataCacheService.clearUserCache(authState.user.email);
+    clearData();
+    logout();
+  };
+
+  const handleSessionTimeout = () => {
+    console.log('⏰ Session timed out due to inactivity');
+    setSessionExpired(true);
+    if (authState.user?.email) DataCacheService.clearUserCache(authState.user.email);
+    clearData();
+    logout();
+  };
+
+  // The kiosk and check-in page are locked behind the staff PIN and sit idle between scholars, so they don't time out
+  const sessionTimeout = useIdleTimeout(
+    authState.isAuthenticated && !kioskEventId && !checkInLockEventId,
+    handleSessionTimeout
+  );
+
+  const handleStartKiosk = (event: ProgramEvent) => {
+    if (!userEmail) return;
+    KioskService.saveLock(userEmail, activeProgram.id, event.id);
+    setKioskEventId(event.id);
+    document.documentElement.requestFullscreen?.().catch(() => {
+      console.warn('⚠️ Full screen is not available; kiosk mode continues in the window');
+    });
+  };
+
+  const handleExitKiosk = () => {
+    if (userEmail) KioskService.clearLock(userEmail, activeProgram.id);
+    setKioskEventId(null);
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+  };
+
+  const handleExitCheckIn = () => {
+    if (userEmail) KioskService.clearLock(userEmail, activeProgram.id, 'checkIn');
+    setCheckInLockEventId(null);
+    navigate(getPagePath('events'));
+  };
+
+  const handleAssignIds = async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+    setAssigningIds(true);
+    setAssignIdsError(null);
+    try {
+      const assigned = await assignStudentIds(accessToken);
+      console.log(`✅ Assigned scholar IDs to ${assigned} rows`);
+    } catch (err) {
+      console.error('❌ Failed to assign scholar IDs:', err);
+      setAssignIdsError('Scholar IDs could not be assigned. Check your connection and try again.');
+    } finally {
+      setAssigningIds(false);
+    }
+  };
+
+  const handleNavigate = (page: string) => {
+    navigate(getPagePath(page));
+  };
+
+  // Opening a student adds a history entry, so Back closes the dialog; keep the list's search and filters.
+  // Closing pops that entry again, so Forward doesn't reopen it. A shared link has no entry to pop.
+  const handleStudentDetailsChange = (studentId: string | null) => {
+    if (studentId) {
+      const state: StudentDetailsState = { fromList: true };
+      navigate({ pathname: getStudentPath(studentId), search: location.search }, { state });
+    } else if (isOpenedFromList(location.state)) {
+      navigate(-1);
+    } else {
+      navigate({ pathname: getPagePath('students'), search: location.search }, { replace: true });
+    }
+  };
+
+  // Renew the Google access token before it expires so long sessions don't fail mid-edit
+  const tokenManagement = useTokenManagement();
+
+  // Reset when the user is logged out (including from another tab) so the next login reloads data
+  useEffect(() => {
+    if (!authState.isAuthenticated) {
+      clearData();
+      setInitialLoadComplete(false);
+    }
+  }, [authState.isAuthenticated, clearData]);
+
+  // Reload from the new workbook when the program or its data source changes. Declared before
+  // the load effect so the reset happens first when both run together
+  const loadedSourceKeyRef = useRef(sourceKey);
+  useEffect(() => {
+    if (loadedSourceKeyRef.current === sourceKey) return;
+    loadedSourceKeyRef.current = sourceKey;
+    clearData();
+    setInitialLoadComplete(false);
+  }, [sourceKey, clearData]);
+
   // Load data when user is authenticated
   useEffect(() => {
     if (authState.isAuthenticated && authState.user?.accessToken && !initialLoadComplete) {
       const accessToken = authState.user.accessToken;
+
+      // Render the cached snapshot straight away and revalidate it in the background
+      const showingCache = loadCachedStudents();
+      if (showingCache) {
+        setInitialLoadComplete(true);
+      }
       
-      fetchStudents(accessToken)
+      (showingCache ? syncStudents(accessToken) : fetchStudents(accessToken))
         .then(async () => {
           // First clean up any duplicate columns
           cleanupDuplicateColumns();
@@ -77,13 +258,39 @@ const ModernStudentDashboard: React.FC = () => {
             console.error('❌ Failed to sync custom columns:', error);
           }
           setInitialLoadComplete(true);
+
+          // Sign-ins feed the attendance columns, so load them without waiting for the sign-ins page
+          fetchSignIns(accessToken);
+          fetchEvents(accessToken);
         })
         .catch((error: Error) => {
           console.error('❌ Failed to fetch students:', error);
           setInitialLoadComplete(true);
         });
     }
-  }, [authState.isAuthenticated, authState.user?.accessToken, fetchStudents, initialLoadComplete]);
+  }, [authState.isAuthenticated, authState.user?.accessToken, fetchStudents, syncStudents, loadCachedStudents, initialLoadComplete]);
+
+  // Keep student data fresh in the background once the initial load has finished
+  useBackgroundSync(
+    async () => {
+      if (authState.user?.accessToken) {
+        await syncStudents(authState.user.accessToken);
+      }
+    },
+    authState.isAuthenticated && !!authState.user?.accessToken && initialLoadComplete
+  );
+
+  // Sign-ins get their own schedule so attendance, match review and the kiosk's duplicate check
+  // stay fresh on every page. SignInSheetSearchAndFilter re-applies the current search and
+  // filters to refreshed data, so they are preserved across syncs.
+  useBackgroundSync(
+    async () => {
+      if (authState.user?.accessToken) {
+        await syncSignIns(authState.user.accessToken);
+      }
+    },
+    authState.isAuthenticated && !!authState.user?.accessToken && initialLoadComplete
+  );
 
   // Authentication check
   if (!authState.isAuthenticated || !authState.user) {
@@ -142,6 +349,18 @@ const ModernStudentDashboard: React.FC = () => {
                 Sign in with Google to get started.
               </Typography>
               
+              {checkInEventId && !sessionExpired && !loginError && (
+                <Alert severity="info" sx={{ mb: 3, borderRadius: 2 }}>
+                  Sign in to open this event's check-in page on this device.
+                </Alert>
+              )}
+
+              {sessionExpired && !loginError && (
+                <Alert severity="info" sx={{ mb: 3, borderRadius: 2 }}>
+                  You were signed out after a period of inactivity.
+                </Alert>
+              )}
+              
               {loginError && (
                 <Alert 
                   severity="error" 
@@ -168,6 +387,40 @@ const ModernStudentDashboard: React.FC = () => {
     );
   }
 
+  // Kiosk mode replaces the whole app, navigation included, until the staff PIN is entered
+  if (kioskEventId) {
+    return initialLoadComplete ? (
+      <>
+        <KioskMode eventId={kioskEventId} onExit={handleExitKiosk} />
+        <SessionRenewalPrompt {...tokenManagement} />
+      </>
+    ) : (
+      <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <LoadingSpinner message="Starting the kiosk..." />
+      </Box>
+    );
+  }
+
+  // Like the kiosk, the locked check-in page replaces the whole app, whatever the URL says
+  const activeCheckInEventId = checkInLockEventId ?? checkInEventId;
+  if (activeCheckInEventId) {
+    return initialLoadComplete ? (
+      <>
+        <EventCheckInPage
+          eventId={activeCheckInEventId}
+          locked={!!checkInLockEventId}
+          onClose={handleExitCheckIn}
+          onOpenSettings={() => navigate(getPagePath('settings'))}
+        />
+        <SessionRenewalPrompt {...tokenManagement} />
+      </>
+    ) : (
+      <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <LoadingSpinner message="Loading check-in..." />
+      </Box>
+    );
+  }
+
   // Loading state
   if (!initialLoadComplete) {
     return (
@@ -179,8 +432,11 @@ const ModernStudentDashboard: React.FC = () => {
             email: authState.user.email || '',
             avatar: authState.user.picture,
           }}
-          onNavigate={setCurrentPage}
-          onLogout={logout}
+          onNavigate={handleNavigate}
+          onLogout={handleLogout}
+          programs={programs}
+          activeProgramId={activeProgram.id}
+          onProgramChange={switchProgram}
         />
         <Container 
           maxWidth="xl" 
@@ -239,7 +495,7 @@ const ModernStudentDashboard: React.FC = () => {
             <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
               <Button
                 variant="outlined"
-                onClick={logout}
+                onClick={handleLogout}
                 startIcon={<Logout />}
                 sx={{
                   borderRadius: 2,
@@ -344,7 +600,7 @@ const ModernStudentDashboard: React.FC = () => {
       {/* Student Management Interface */}
       <DashboardGridItem xs={12}>
         <DashboardCard title="Student Records" subtitle="Search, filter, and manage student information">
-          <StudentManagement />
+          <StudentManagement detailsStudentId={detailsStudentId} onDetailsChange={handleStudentDetailsChange} />
         </DashboardCard>
       </DashboardGridItem>
     </DashboardLayout>
@@ -359,30 +615,79 @@ const ModernStudentDashboard: React.FC = () => {
           email: authState.user.email || '',
           avatar: authState.user.picture,
         }}
-        onNavigate={setCurrentPage}
-        onLogout={logout}
+        onNavigate={handleNavigate}
+        onLogout={handleLogout}
+        programs={programs}
+        activeProgramId={activeProgram.id}
+        onProgramChange={switchProgram}
       />
 
       <Box component="main" sx={{ flex: 1 }}>
-        <AnimatePresence mode="wait">
-          {currentPage === 'dashboard' && <DashboardContent />}
-          {currentPage === 'students' && <StudentsContent />}
-          {currentPage === 'signins' && <SignInSheetSection />}
-          {currentPage === 'settings' && (
-            <Container maxWidth="xl" sx={{ py: 4 }}>
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.5 }}
+        {currentPage !== 'signins' && currentPage !== 'events' && (
+          <Container maxWidth="xl" sx={{ pt: dataState.cachedAt ? 2 : 0 }}>
+            <CachedDataIndicator cachedAt={dataState.cachedAt} />
+            {dataState.truncation && (
+              <Alert severity="warning" sx={{ mt: dataState.cachedAt ? 1 : 2 }}>
+                {dataSourceConfig.studentsSheetName} has {dataState.truncation.totalRows.toLocaleString()} rows, but only the
+                first {dataState.truncation.loadedRows.toLocaleString()} were loaded. Scholars below that
+                row are not shown or included in charts and exports.
+              </Alert>
+            )}
+            {dataState.missingIds > 0 && (
+              <Alert
+                severity={assignIdsError ? 'error' : 'info'}
+                sx={{ mt: dataState.cachedAt || dataState.truncation ? 1 : 2 }}
+                action={
+                  <Button color="inherit" size="small" onClick={handleAssignIds} disabled={assigningIds}>
+                    {assigningIds ? 'Assigning...' : 'Assign IDs'}
+                  </Button>
+                }
               >
-                <SettingsPage />
-              </motion.div>
-            </Container>
-          )}
+                {assignIdsError ?? `${dataState.missingIds.toLocaleString()} ${dataState.missingIds === 1 ? 'scholar was' : 'scholars were'} added
+                directly in ${dataSourceConfig.studentsSheetName} and ${dataState.missingIds === 1 ? 'has' : 'have'} no scholar ID yet. They can't be
+                edited or signed in until IDs are assigned.`}
+              </Alert>
+            )}
+          </Container>
+        )}
+        <AnimatePresence mode="wait">
+          {/* Rendered as plain calls (not <DashboardContent />) so data refreshes don't remount
+              the student table and reset its search, filters or open dialogs */}
+          <Routes>
+            <Route path="/" element={DashboardContent()} />
+            <Route path="/students/:studentId?" element={StudentsContent()} />
+            <Route path="/signins" element={<SignInSheetSection />} />
+            <Route path="/events" element={<EventsPage onStartKiosk={handleStartKiosk} />} />
+            <Route
+              path="/settings/:section?"
+              element={
+                <Container maxWidth="xl" sx={{ py: 4 }}>
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.5 }}
+                  >
+                    <SettingsPage />
+                  </motion.div>
+                </Container>
+              }
+            />
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
         </AnimatePresence>
       </Box>
 
       <Footer variant="minimal" />
+
+      <SessionTimeoutDialog
+        open={sessionTimeout.warningOpen}
+        secondsRemaining={sessionTimeout.secondsRemaining}
+        warningSeconds={sessionTimeout.warningSeconds}
+        onStaySignedIn={sessionTimeout.staySignedIn}
+        onLogout={handleLogout}
+      />
+
+      <SessionRenewalPrompt {...tokenManagement} />
     </Box>
   );
 };
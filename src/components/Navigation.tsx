@@ -19,6 +19,7 @@ import {
   MenuItem,
   Breadcrumbs,
   Link,
+  Divider,
 } from '@mui/material';
 import {
   Menu as MenuIcon,
@@ -29,6 +30,10 @@ import {
   Home,
   NavigateNext,
   Logout,
+  SwapHoriz,
+  Check,
+  ExpandMore,
+  Event,
 } from '@mui/icons-material';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -41,12 +46,16 @@ interface NavigationProps {
   };
   onNavigate?: (page: string) => void;
   onLogout?: () => void;
+  programs?: { id: string; name: string }[];
+  activeProgramId?: string;
+  onProgramChange?: (programId: string) => void;
 }
 
 const navigationItems = [
   { id: 'dashboard', label: 'Dashboard', icon: Dashboard },
   { id: 'students', label: 'Students', icon: People },
   { id: 'signins', label: 'Sign-Ins', icon: AccountCircle },
+  { id: 'events', label: 'Events', icon: Event },
   { id: 'settings', label: 'Settings', icon: Settings },
 ];
 
@@ -54,14 +63,25 @@ const breadcrumbMap: Record<string, string[]> = {
   dashboard: ['Home', 'Dashboard'],
   students: ['Home', 'Students'],
   signins: ['Home', 'Sign-Ins'],
+  events: ['Home', 'Events'],
   settings: ['Home', 'Settings'],
 };
 
-export default function Navigation({ currentPage = 'dashboard', user, onNavigate, onLogout }: NavigationProps) {
+export default function Navigation({
+  currentPage = 'dashboard',
+  user,
+  onNavigate,
+  onLogout,
+  programs,
+  activeProgramId,
+  onProgramChange,
+}: NavigationProps) {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const [mobileDrawerOpen, setMobileDrawerOpen] = useState(false);
   const [userMenuAnchor, setUserMenuAnchor] = useState<null | HTMLElement>(null);
+  const [programMenuAnchor, setProgramMenuAnchor] = useState<null | HTMLElement>(null);
+  const activeProgram = programs?.find(program => program.id === activeProgramId);
 
   const handleDrawerToggle = () => {
     setMobileDrawerOpen(!mobileDrawerOpen);
@@ -75,6 +95,13 @@ export default function Navigation({ currentPage = 'dashboard', user, onNavigate
     setUserMenuAnchor(null);
   };
 
+  const handleProgramSelect = (programId: string) => {
+    setProgramMenuAnchor(null);
+    if (programId !== activeProgramId) {
+      onProgramChange?.(programId);
+    }
+  };
+
   const handleNavigation = (page: string) => {
     onNavigate?.(page);
     if (isMobile) {
@@ -158,6 +185,49 @@ export default function Navigation({ currentPage = 'dashboard', user, onNavigate
     </Menu>
   );
 
+  const ProgramMenu = () => (
+    <Menu
+      anchorEl={programMenuAnchor}
+      open={Boolean(programMenuAnchor)}
+      onClose={() => setProgramMenuAnchor(null)}
+      transformOrigin={{ horizontal: 'right', vertical: 'top' }}
+      anchorOrigin={{ horizontal: 'right', vertical: 'bottom' }}
+      PaperProps={{
+        sx: {
+          mt: 1,
+          minWidth: 220,
+          borderRadius: 2,
+          boxShadow: theme.shadows[8],
+        },
+      }}
+    >
+      {programs?.map(program => (
+        <MenuItem
+          key={program.id}
+          selected={program.id === activeProgramId}
+          onClick={() => handleProgramSelect(program.id)}
+        >
+          <ListItemIcon>
+            {program.id === activeProgramId && <Check fontSize="small" />}
+          </ListItemIcon>
+          {program.name}
+        </MenuItem>
+      ))}
+      <Divider />
+      <MenuItem
+        onClick={() => {
+          setProgramMenuAnchor(null);
+          handleNavigation('settings');
+        }}
+      >
+        <ListItemIcon>
+          <Settings fontSize="small" />
+        </ListItemIcon>
+        Manage Programs
+      </MenuItem>
+    </Menu>
+  );
+
   return (
     <>
       {/* Main AppBar */}
@@ -241,6 +311,26 @@ export default function Navigation({ currentPage = 'dashboard', user, onNavigate
             </Box>
           )}
 
+          {/* Program Switcher */}
+          {activeProgram && (
+            <Button
+              onClick={(event) => setProgramMenuAnchor(event.currentTarget)}
+              startIcon={<SwapHoriz />}
+              endIcon={<ExpandMore />}
+              aria-label="switch program"
+              sx={{
+                color: 'text.primary',
+                borderRadius: 2,
+                maxWidth: isMobile ? 160 : 260,
+                '& .MuiButton-startIcon': { display: isMobile ? 'none' : 'inherit' },
+              }}
+            >
+              <Typography variant="body2" noWrap sx={{ fontWeight: 600 }}>
+                {activeProgram.name}
+              </Typography>
+            </Button>
+          )}
+
           {/* User Profile */}
           {user && (
             <motion.div
@@ -337,6 +427,9 @@ export default function Navigation({ currentPage = 'dashboard', user, onNavigate
 
       {/* User Menu */}
       <UserMenu />
+
+      {/* Program Menu */}
+      {programs && <ProgramMenu />}
     </>
   );
 }
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import {
+  CloudSync,
+  Replay,
+  DeleteOutline,
+} from '@mui/icons-material';
+import { useData } from '../contexts/DataContext';
+import { useAuth } from '../contexts/AuthContext';
+import type { OutboxEntry } from '../types';
+
+interface PendingSyncPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const mutationLabels: Record<OutboxEntry['mutation']['type'], string> = {
+  addStudent: 'Add',
+  updateStudent: 'Edit',
+  deleteStudent: 'Delete',
+  appendSignIn: 'Sign in',
+  updateSignIn: 'Edit sign-in for',
+  deleteSignIn: 'Delete sign-in for',
+};
+
+const describeEntry = (entry: OutboxEntry): string => {
+  const { mutation } = entry;
+  if ('student' in mutation) {
+    return `${mutationLabels[mutation.type]} ${mutation.student.firstName} ${mutation.student.lastName}`.trim();
+  }
+  const { signIn } = mutation;
+  return `${mutationLabels[mutation.type]} ${signIn.firstName} ${signIn.lastName}${signIn.event ? ` at ${signIn.event}` : ''}`.trim();
+};
+
+export const PendingSyncPanel: React.FC<PendingSyncPanelProps> = ({ open, onClose }) => {
+  const { state, replayOutbox, retryOutboxEntry, discardOutboxEntry } = useData();
+  const { state: authState } = useAuth();
+  const [busyEntryId, setBusyEntryId] = useState<number | 'all' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const accessToken = authState.user?.accessToken;
+  const failedCount = state.outbox.filter(entry => entry.status === 'failed').length;
+
+  const runAction = async (entryId: number | 'all', action: (token: string) => Promise<void>) => {
+    if (!accessToken) return;
+    setBusyEntryId(entryId);
+    setError(null);
+    try {
+      await action(accessToken);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyEntryId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <CloudSync color="primary" />
+          Pending Changes
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!navigator.onLine && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            You're offline. Changes will sync automatically when the connection returns.
+          </Alert>
+        )}
+
+        {failedCount > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {failedCount} change{failedCount === 1 ? '' : 's'} could not be saved to Google Sheets.
+            Retry to try again, or discard to drop the change.
+          </Alert>
+        )}
+
+        {state.outbox.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            All changes have been saved to Google Sheets.
+          </Typography>
+        ) : (
+          <List disablePadding>
+            {state.outbox.map(entry => (
+              <ListItem
+                key={entry.id}
+                divider
+                secondaryAction={
+                  <Box sx={{ display: 'flex', gap: 0.5 }}>
+                    {entry.status === 'failed' && (
+                      <Tooltip title={entry.conflict ? 'Keep my change and overwrite the sheet' : 'Retry'}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            disabled={busyEntryId !== null}
+                            onClick={() => runAction(entry.id, token => retryOutboxEntry(token, entry.id))}
+                          >
+                            {busyEntryId === entry.id ? <CircularProgress size={18} /> : <Replay fontSize="small" />}
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    )}
+                    <Tooltip title="Discard change">
+                      <span>
+                        <IconButton
+                          size="small"
+                          disabled={busyEntryId !== null}
+                          onClick={() => runAction(entry.id, token => discardOutboxEntry(token, entry.id))}
+                        >
+                          <DeleteOutline fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </Box>
+                }
+              >
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      {describeEntry(entry)}
+                      <Chip
+                        label={entry.status === 'failed' ? (entry.conflict ? 'Conflict' : 'Failed') : 'Pending'}
+                        color={entry.status === 'failed' ? 'error' : 'warning'}
+                        size="small"
+                        variant="outlined"
+                      />
+                    </Box>
+                  }
+                  secondary={
+                    <>
+                      {new Date(entry.createdAt).toLocaleString()}
+                      {entry.lastError && ` — ${entry.lastError}`}
+                    </>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>
+          Close
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => runAction('all', replayOutbox)}
+          disabled={busyEntryId !== null || state.outbox.length === 0 || !navigator.onLine}
+          startIcon={busyEntryId === 'all' ? <CircularProgress size={20} /> : <CloudSync />}
+        >
+          Sync Now
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { Print } from '@mui/icons-material';
+import QRCode from 'qrcode';
+
+interface QrCodeDialogProps {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  value: string;
+  caption?: string; // Shown under the code on screen and when printed
+}
+
+const QR_SIZE = 320;
+
+/**
+ * Show a QR code with a button to print it on its own page
+ */
+export const QrCodeDialog: React.FC<QrCodeDialogProps> = ({
+  open,
+  onClose,
+  title,
+  value,
+  caption,
+}) => {
+  const [image, setImage] = useState<{ value: string; dataUrl: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setError(null);
+    QRCode.toDataURL(value, { width: QR_SIZE, margin: 2 })
+      .then(dataUrl => {
+        if (!cancelled) setImage({ value, dataUrl });
+      })
+      .catch(err => {
+        console.error('Failed to create QR code:', err);
+        if (!cancelled) setError('Could not create the QR code');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, value]);
+
+  // Don't flash the previous code while the new one is drawn
+  const dataUrl = image?.value === value ? image.dataUrl : null;
+
+  const handlePrint = () => {
+    if (!dataUrl) return;
+    const printWindow = window.open('', '_blank', 'width=480,height=640');
+    if (!printWindow) {
+      setError('Allow pop-ups for this site to print the QR code');
+      return;
+    }
+
+    const { document: printDocument } = printWindow;
+    printDocument.title = title;
+    printDocument.body.style.cssText = 'font-family: sans-serif; text-align: center; padding: 24px;';
+    const heading = printDocument.createElement('h2');
+    heading.textContent = title;
+    const img = printDocument.createElement('img');
+    img.src = dataUrl;
+    img.width = QR_SIZE;
+    img.height = QR_SIZE;
+    printDocument.body.append(heading, img);
+    if (caption) {
+      const text = printDocument.createElement('p');
+      text.textContent = caption;
+      printDocument.body.append(text);
+    }
+    img.onload = () => {
+      printWindow.print();
+      printWindow.close();
+    };
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: QR_SIZE }}>
+          {dataUrl ? (
+            <Box component="img" src={dataUrl} alt={`QR code for ${title}`} sx={{ width: '100%', maxWidth: QR_SIZE }} />
+          ) : !error && (
+            <CircularProgress />
+          )}
+        </Box>
+        {caption && (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', mt: 1, wordBreak: 'break-all' }}>
+            {caption}
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>
+          Close
+        </Button>
+        <Button variant="contained" startIcon={<Print />} onClick={handlePrint} disabled={!dataUrl}>
+          Print
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -13,6 +13,7 @@
  *    - Uses local state for immediate UI feedback
  *    - 300ms debounce for optimal responsiveness
  *    - No context state changes during typing
+ *    - The debounced search and the filters are kept in the URL query string
  * 
  * 3. MEMOIZED FILTER OPTIONS & RESULTS:
  *    - Filter options computed only when raw students data changes
@@ -31,7 +32,7 @@
  * - Local state changes only, global state stable
  */
 
-import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import React, { useMemo, useCallback, useRef, useEffect } from 'react';
 import {
   Box,
   TextField,
@@ -56,10 +57,12 @@ import {
   FilterList
 } from '@mui/icons-material';
 import { useData } from '../contexts/DataContext';
-import { useDebounce } from '../hooks/useDebounce';
+import { useUrlFilters, useUrlSearch } from '../hooks/useUrlFilters';
 import ExportButton from './ExportButton';
 import type { Student } from '../types';
 
+const STUDENT_FILTER_KEYS = ['q', 'gradYear', 'school', 'parentForm', 'career', 'college'] as const;
+
 interface SearchAndFilterProps {
   onFilter: (filteredStudents: Student[]) => void;
 }
@@ -67,16 +70,16 @@ interface SearchAndFilterProps {
 const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ onFilter }) => {
   const { state } = useData(); // Only read students data, no setters
   
-  // Local filter state
-  const [localSearchQuery, setLocalSearchQuery] = useState('');
-  const [graduationYearFilter, setGraduationYearFilter] = useState<number | undefined>();
-  const [highSchoolFilter, setHighSchoolFilter] = useState<string | undefined>();
-  const [parentFormFilter, setParentFormFilter] = useState<boolean | undefined>();
-  const [careerExplorationFilter, setCareerExplorationFilter] = useState<boolean | undefined>();
-  const [collegeExplorationFilter, setCollegeExplorationFilter] = useState<boolean | undefined>();
+  // Filters live in the URL so a filtered list can be bookmarked or shared
+  const { getFilter, setFilter, clearFilters } = useUrlFilters(STUDENT_FILTER_KEYS);
+  const [localSearchQuery, setLocalSearchQuery, debouncedSearchQuery] = useUrlSearch('q');
+  const graduationYearFilter = getFilter('gradYear') ? Number(getFilter('gradYear')) : undefined;
+  const highSchoolFilter = getFilter('school') || undefined;
+  const parentFormFilter = getFilter('parentForm') ? true : undefined;
+  const careerExplorationFilter = getFilter('career') ? true : undefined;
+  const collegeExplorationFilter = getFilter('college') ? true : undefined;
   
   const searchInputRef = useRef<HTMLInputElement>(null);
-  const debouncedSearchQuery = useDebounce(localSearchQuery, 300);
 
   // Memoize filter options
   const filterOptions = useMemo(() => {
@@ -146,20 +149,16 @@ const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ onFilter }) => {
   // Event handlers
   const handleSearchChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     setLocalSearchQuery(event.target.value);
-  }, []);
+  }, [setLocalSearchQuery]);
 
   const clearAllFilters = useCallback(() => {
     setLocalSearchQuery('');
-    setGraduationYearFilter(undefined);
-    setHighSchoolFilter(undefined);
-    setParentFormFilter(undefined);
-    setCareerExplorationFilter(undefined);
-    setCollegeExplorationFilter(undefined);
-  }, []);
+    clearFilters();
+  }, [setLocalSearchQuery, clearFilters]);
 
   const clearSearch = useCallback(() => {
     setLocalSearchQuery('');
-  }, []);
+  }, [setLocalSearchQuery]);
 
   return (
     <Paper elevation={1} sx={{ p: 2 }}>
@@ -219,7 +218,7 @@ const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ onFilter }) => {
                 <Select
                   value={graduationYearFilter || ''}
                   label="Graduation Year"
-                  onChange={(e) => setGraduationYearFilter(e.target.value ? Number(e.target.value) : undefined)}
+                  onChange={(e) => setFilter('gradYear', e.target.value ? String(e.target.value) : '')}
                 >
                   <MenuItem value="">All Years</MenuItem>
                   {filterOptions.graduationYears.map((year: number) => (
@@ -237,7 +236,7 @@ const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ onFilter }) => {
                 <Select
                   value={highSchoolFilter || ''}
                   label="High School"
-                  onChange={(e) => setHighSchoolFilter(e.target.value || undefined)}
+                  onChange={(e) => setFilter('school', e.target.value)}
                 >
                   <MenuItem value="">All Schools</MenuItem>
                   {filterOptions.highSchools.map((school: string) => (
@@ -254,7 +253,7 @@ const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ onFilter }) => {
                 control={
                   <Checkbox
                     checked={parentFormFilter || false}
-                    onChange={(e) => setParentFormFilter(e.target.checked || undefined)}
+                    onChange={(e) => setFilter('parentForm', e.target.checked ? '1' : '')}
                   />
                 }
                 label="Parent Form Completed"
@@ -266,7 +265,7 @@ const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ onFilter }) => {
                 control={
                   <Checkbox
                     checked={careerExplorationFilter || false}
-                    onChange={(e) => setCareerExplorationFilter(e.target.checked || undefined)}
+                    onChange={(e) => setFilter('career', e.target.checked ? '1' : '')}
                   />
                 }
                 label="Career Exploration"
@@ -278,7 +277,7 @@ const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ onFilter }) => {
                 control={
                   <Checkbox
                     checked={collegeExplorationFilter || false}
-                    onChange={(e) => setCollegeExplorationFilter(e.target.checked || undefined)}
+                    onChange={(e) => setFilter('college', e.target.checked ? '1' : '')}
                   />
                 }
                 label="College Exploration"
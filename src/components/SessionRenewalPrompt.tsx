@@ -0,0 +1,39 @@
+import React from 'react';
+import { Alert, Button, Snackbar } from '@mui/material';
+import type { TokenManagement } from '../hooks/useTokenManagement';
+
+type SessionRenewalPromptProps = TokenManagement;
+
+/**
+ * Banner asking the user to renew their Google session before it expires, or after it has and
+ * changes are waiting on it. Renewing needs the click, since Google opens a popup for it.
+ */
+export const SessionRenewalPrompt: React.FC<SessionRenewalPromptProps> = ({
+  expiringSoon,
+  renewalRequired,
+  renewing,
+  renewError,
+  renewSession,
+}) => {
+  const message = renewError
+    ? `Couldn't renew your Google session: ${renewError}`
+    : renewalRequired
+      ? 'Your Google session has expired. Changes are waiting until you continue.'
+      : 'Your Google session is about to expire.';
+
+  return (
+    <Snackbar open={expiringSoon || renewalRequired} anchorOrigin={{ vertical: 'top', horizontal: 'center' }}>
+      <Alert
+        severity={renewError || renewalRequired ? 'error' : 'warning'}
+        variant="filled"
+        action={
+          <Button color="inherit" size="small" onClick={renewSession} disabled={renewing}>
+            {renewing ? 'Continuing…' : 'Continue'}
+          </Button>
+        }
+      >
+        {message}
+      </Alert>
+    </Snackbar>
+  );
+};
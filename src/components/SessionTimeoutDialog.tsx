@@ -0,0 +1,66 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  LinearProgress,
+  Box,
+} from '@mui/material';
+import { Timer } from '@mui/icons-material';
+
+interface SessionTimeoutDialogProps {
+  open: boolean;
+  secondsRemaining: number;
+  warningSeconds?: number;
+  onStaySignedIn: () => void;
+  onLogout: () => void;
+}
+
+const formatCountdown = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const SessionTimeoutDialog: React.FC<SessionTimeoutDialogProps> = ({
+  open,
+  secondsRemaining,
+  warningSeconds = 60,
+  onStaySignedIn,
+  onLogout,
+}) => {
+  return (
+    <Dialog open={open} onClose={onStaySignedIn} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Timer color="warning" />
+          Are you still there?
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body1" sx={{ mb: 2 }}>
+          You've been inactive for a while. To protect student information, you will be signed out in
+        </Typography>
+        <Typography variant="h3" align="center" sx={{ fontWeight: 700, mb: 2 }}>
+          {formatCountdown(secondsRemaining)}
+        </Typography>
+        <LinearProgress
+          variant="determinate"
+          color="warning"
+          value={Math.min(100, (secondsRemaining / warningSeconds) * 100)}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onLogout} color="inherit">
+          Sign Out Now
+        </Button>
+        <Button onClick={onStaySignedIn} variant="contained" autoFocus>
+          Stay Signed In
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
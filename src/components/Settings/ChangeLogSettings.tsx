@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  MenuItem,
+  Button,
+  Alert,
+  CircularProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TablePagination,
+} from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDataSource } from '../../hooks/useDataSource';
+import { auditLogService, CHANGE_LOG_SHEET_NAME } from '../../services/AuditLogService';
+import type { AuditLogEntry, AuditEntity, AuditAction } from '../../types';
+
+const entityLabels: Record<AuditEntity, string> = {
+  student: 'Student',
+  studentColumn: 'Student column',
+  signIn: 'Sign-in',
+  signInColumn: 'Sign-in column',
+  event: 'Event',
+  pointsRule: 'Points rule',
+};
+
+const actionLabels: Record<AuditAction, string> = {
+  add: 'Added',
+  update: 'Updated',
+  delete: 'Deleted',
+  archive: 'Archived',
+  restore: 'Restored',
+  rename: 'Renamed',
+  reorder: 'Reordered',
+};
+
+interface ChangeLogFilters {
+  entity: AuditEntity | '';
+  action: AuditAction | '';
+  userEmail: string;
+  search: string;
+  from: string; // yyyy-mm-dd
+  to: string;
+}
+
+const emptyFilters: ChangeLogFilters = { entity: '', action: '', userEmail: '', search: '', from: '', to: '' };
+
+const ChangeLogSettings: React.FC = () => {
+  const { state: authState } = useAuth();
+  const { sourceKey } = useDataSource();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<ChangeLogFilters>(emptyFilters);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const loadEntries = useCallback(async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await auditLogService.fetchEntries(accessToken));
+      setPage(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the change log');
+    } finally {
+      setLoading(false);
+    }
+  }, [authState.user?.accessToken]);
+
+  // Reload when switching to another program's spreadsheet
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries, sourceKey]);
+
+  const users = useMemo(
+    () => [...new Set(entries.map(entry => entry.userEmail).filter(Boolean))].sort(),
+    [entries]
+  );
+
+  const filtered = useMemo(() => {
+    const search = filters.search.trim().toLowerCase();
+    const from = filters.from ? new Date(`${filters.from}T00:00:00`) : null;
+    const to = filters.to ? new Date(`${filters.to}T23:59:59.999`) : null;
+    return entries.filter(entry =>
+      (!filters.entity || entry.entity === filters.entity) &&
+      (!filters.action || entry.action === filters.action) &&
+      (!filters.userEmail || entry.userEmail === filters.userEmail) &&
+      (!from || entry.timestamp >= from) &&
+      (!to || entry.timestamp <= to) &&
+      (!search || [entry.rowId, entry.field, entry.oldValue, entry.newValue]
+        .some(value => value.toLowerCase().includes(search)))
+    );
+  }, [entries, filters]);
+
+  const handleFilterChange = (field: keyof ChangeLogFilters) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFilters(prev => ({ ...prev, [field]: event.target.value }));
+    setPage(0);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, mb: 3 }}>
+        <Box>
+          <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+            Change Log
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Every change made through this app is recorded in the "{CHANGE_LOG_SHEET_NAME}" tab of the active spreadsheet.
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          startIcon={loading ? <CircularProgress size={16} /> : <Refresh />}
+          onClick={loadEntries}
+          disabled={loading}
+          sx={{ flexShrink: 0 }}
+        >
+          Refresh
+        </Button>
+      </Box>
+
+      <Card variant="outlined">
+        <CardContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+            <TextField select size="small" label="Entity" value={filters.entity} onChange={handleFilterChange('entity')} sx={{ minWidth: 160 }}>
+              <MenuItem value="">All</MenuItem>
+              {Object.entries(entityLabels).map(([value, label]) => (
+                <MenuItem key={value} value={value}>{label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField select size="small" label="Action" value={filters.action} onChange={handleFilterChange('action')} sx={{ minWidth: 140 }}>
+              <MenuItem value="">All</MenuItem>
+              {Object.entries(actionLabels).map(([value, label]) => (
+                <MenuItem key={value} value={value}>{label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField select size="small" label="User" value={filters.userEmail} onChange={handleFilterChange('userEmail')} sx={{ minWidth: 200 }}>
+              <MenuItem value="">All</MenuItem>
+              {users.map(user => (
+                <MenuItem key={user} value={user}>{user}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              type="date"
+              label="From"
+              value={filters.from}
+              onChange={handleFilterChange('from')}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              size="small"
+              type="date"
+              label="To"
+              value={filters.to}
+              onChange={handleFilterChange('to')}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              size="small"
+              label="Search row ID, field or value"
+              value={filters.search}
+              onChange={handleFilterChange('search')}
+              sx={{ flex: 1, minWidth: 220 }}
+            />
+          </Box>
+
+          {loading && entries.length === 0 ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : filtered.length === 0 ? (
+            <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+              {entries.length === 0 ? 'No changes have been logged yet' : 'No changes match these filters'}
+            </Typography>
+          ) : (
+            <>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>When</TableCell>
+                      <TableCell>User</TableCell>
+                      <TableCell>Change</TableCell>
+                      <TableCell>Row ID</TableCell>
+                      <TableCell>Field</TableCell>
+                      <TableCell>Old Value</TableCell>
+                      <TableCell>New Value</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {filtered.slice(page * rowsPerPage, (page + 1) * rowsPerPage).map((entry, index) => (
+                      <TableRow key={`${entry.timestamp.getTime()}-${index}`}>
+                        <TableCell sx={{ whiteSpace: 'nowrap' }}>{entry.timestamp.toLocaleString()}</TableCell>
+                        <TableCell>{entry.userEmail || '-'}</TableCell>
+                        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                          {entityLabels[entry.entity] ?? entry.entity} {(actionLabels[entry.action] ?? entry.action).toLowerCase()}
+                        </TableCell>
+                        <TableCell sx={{ maxWidth: 160, overflow: 'hidden', textOverflow: 'ellipsis' }}>{entry.rowId || '-'}</TableCell>
+                        <TableCell>{entry.field || '-'}</TableCell>
+                        <TableCell sx={{ maxWidth: 200, wordBreak: 'break-word' }}>{entry.oldValue || '-'}</TableCell>
+                        <TableCell sx={{ maxWidth: 200, wordBreak: 'break-word' }}>{entry.newValue || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={filtered.length}
+                page={page}
+                onPageChange={(_, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={e => {
+                  setRowsPerPage(parseInt(e.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={[25, 50, 100]}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default ChangeLogSettings;
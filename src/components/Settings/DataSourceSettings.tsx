@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+} from '@mui/material';
+import { Add as AddIcon, DeleteOutline, Restore } from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDataSource } from '../../hooks/useDataSource';
+import { googleSheetsService } from '../../services/GoogleSheetsService';
+import {
+  DEFAULT_STUDENTS_SHEET_NAME,
+  DEFAULT_SIGN_INS_SHEET_NAME,
+  DEFAULT_ARCHIVED_SHEET_NAME,
+  DEFAULT_EVENTS_SHEET_NAME,
+} from '../../services/DataSourceService';
+import type { DataSourceConfig } from '../../types';
+
+interface ProgramDraft extends DataSourceConfig {
+  name: string;
+}
+
+type ProgramDraftErrors = Partial<Record<keyof ProgramDraft, string>>;
+
+const emptyProgramDraft: ProgramDraft = {
+  name: '',
+  spreadsheetId: '',
+  studentsSheetName: DEFAULT_STUDENTS_SHEET_NAME,
+  signInsSheetName: DEFAULT_SIGN_INS_SHEET_NAME,
+  archivedSheetName: DEFAULT_ARCHIVED_SHEET_NAME,
+  eventsSheetName: DEFAULT_EVENTS_SHEET_NAME,
+};
+
+// Accept a pasted spreadsheet URL as well as a bare ID
+const extractSpreadsheetId = (value: string): string => {
+  const match = value.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+  return match ? match[1] : value.trim();
+};
+
+const DataSourceSettings: React.FC = () => {
+  const { state: authState } = useAuth();
+  const {
+    config,
+    programs,
+    activeProgram,
+    updateDataSource,
+    resetDataSource,
+    addProgram,
+    renameProgram,
+    removeProgram,
+  } = useDataSource();
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState<ProgramDraft>({ ...config, name: activeProgram.name });
+  const [errors, setErrors] = useState<ProgramDraftErrors>({});
+  const [validating, setValidating] = useState(false);
+
+  useEffect(() => {
+    setCreating(false);
+    setDraft({ ...config, name: activeProgram.name });
+    setErrors({});
+  }, [config, activeProgram.name]);
+
+  const isDirty = creating ||
+    draft.name.trim() !== activeProgram.name ||
+    draft.spreadsheetId.trim() !== config.spreadsheetId ||
+    draft.studentsSheetName.trim() !== config.studentsSheetName ||
+    draft.signInsSheetName.trim() !== config.signInsSheetName ||
+    draft.archivedSheetName.trim() !== config.archivedSheetName ||
+    draft.eventsSheetName.trim() !== config.eventsSheetName;
+
+  const handleChange = (field: keyof ProgramDraft) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = field === 'spreadsheetId' ? extractSpreadsheetId(event.target.value) : event.target.value;
+    setDraft(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleStartCreate = () => {
+    setCreating(true);
+    setDraft(emptyProgramDraft);
+    setErrors({});
+  };
+
+  const handleCancelCreate = () => {
+    setCreating(false);
+    setDraft({ ...config, name: activeProgram.name });
+    setErrors({});
+  };
+
+  const handleSave = async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+
+    const nextErrors: ProgramDraftErrors = {};
+    if (!draft.name.trim()) nextErrors.name = 'Program name is required';
+    if (!draft.spreadsheetId.trim()) nextErrors.spreadsheetId = 'Spreadsheet ID is required';
+    if (!draft.studentsSheetName.trim()) nextErrors.studentsSheetName = 'Scholars tab is required';
+    if (!draft.signInsSheetName.trim()) nextErrors.signInsSheetName = 'Sign-ins tab is required';
+    if (!draft.archivedSheetName.trim()) nextErrors.archivedSheetName = 'Archive tab is required';
+    if (!draft.eventsSheetName.trim()) nextErrors.eventsSheetName = 'Events tab is required';
+    if (Object.keys(nextErrors).length > 0) {
+      setErrors(nextErrors);
+      return;
+    }
+
+    const { name, ...dataSource } = draft;
+    const dataSourceChanged = creating ||
+      dataSource.spreadsheetId.trim() !== config.spreadsheetId ||
+      dataSource.studentsSheetName.trim() !== config.studentsSheetName ||
+      dataSource.signInsSheetName.trim() !== config.signInsSheetName ||
+      dataSource.archivedSheetName.trim() !== config.archivedSheetName ||
+      dataSource.eventsSheetName.trim() !== config.eventsSheetName;
+
+    // Check both tabs exist in the workbook before pointing every service at it
+    if (dataSourceChanged) {
+      setValidating(true);
+      const spreadsheetId = dataSource.spreadsheetId.trim();
+      const tabs: Array<'studentsSheetName' | 'signInsSheetName'> = ['studentsSheetName', 'signInsSheetName'];
+      for (const field of tabs) {
+        const sheetName = dataSource[field].trim();
+        try {
+          await googleSheetsService.getSheetMetadata(accessToken, sheetName, spreadsheetId);
+        } catch {
+          nextErrors[field] = `Couldn't find a tab named "${sheetName}" in this spreadsheet, or you don't have access to it`;
+        }
+      }
+      setValidating(false);
+
+      if (Object.keys(nextErrors).length > 0) {
+        setErrors(nextErrors);
+        return;
+      }
+    }
+
+    // The dashboard reloads students, sign-ins and column settings for the new data source
+    if (creating) {
+      addProgram(name, dataSource);
+      return;
+    }
+    if (name.trim() !== activeProgram.name) {
+      renameProgram(activeProgram.id, name);
+    }
+    if (dataSourceChanged) {
+      updateDataSource(dataSource);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!confirm(`Remove the program "${activeProgram.name}"? Its spreadsheet is not affected.`)) {
+      return;
+    }
+    removeProgram(activeProgram.id);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, mb: 3 }}>
+        <Box>
+          <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+            Programs & Data Source
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Each program works from its own Google Sheets workbook and keeps its own column settings.
+            Switch programs from the navigation bar.
+          </Typography>
+        </Box>
+        {!creating && (
+          <Button variant="outlined" startIcon={<AddIcon />} onClick={handleStartCreate} sx={{ flexShrink: 0 }}>
+            Add Program
+          </Button>
+        )}
+      </Box>
+
+      <Card variant="outlined">
+        <CardContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="subtitle2" color="text.secondary">
+            {creating ? 'New program' : `Editing the active program (${programs.length} total)`}
+          </Typography>
+
+          <TextField
+            label="Program Name"
+            value={draft.name}
+            onChange={handleChange('name')}
+            error={!!errors.name}
+            helperText={errors.name}
+            fullWidth
+          />
+
+          <TextField
+            label="Spreadsheet ID or URL"
+            value={draft.spreadsheetId}
+            onChange={handleChange('spreadsheetId')}
+            error={!!errors.spreadsheetId}
+            helperText={errors.spreadsheetId || 'Found in the sheet URL between /d/ and /edit'}
+            fullWidth
+          />
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+            <TextField
+              label="Scholars Tab"
+              value={draft.studentsSheetName}
+              onChange={handleChange('studentsSheetName')}
+              error={!!errors.studentsSheetName}
+              helperText={errors.studentsSheetName}
+              sx={{ flex: 1, minWidth: 220 }}
+            />
+            <TextField
+              label="Sign-Ins Tab"
+              value={draft.signInsSheetName}
+              onChange={handleChange('signInsSheetName')}
+              error={!!errors.signInsSheetName}
+              helperText={errors.signInsSheetName}
+              sx={{ flex: 1, minWidth: 220 }}
+            />
+            <TextField
+              label="Archive Tab"
+              value={draft.archivedSheetName}
+              onChange={handleChange('archivedSheetName')}
+              error={!!errors.archivedSheetName}
+              helperText={errors.archivedSheetName || 'Created on first archive if missing'}
+              sx={{ flex: 1, minWidth: 220 }}
+            />
+            <TextField
+              label="Events Tab"
+              value={draft.eventsSheetName}
+              onChange={handleChange('eventsSheetName')}
+              error={!!errors.eventsSheetName}
+              helperText={errors.eventsSheetName || 'Created when the first event is added'}
+              sx={{ flex: 1, minWidth: 220 }}
+            />
+          </Box>
+
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+            {creating ? (
+              <Button onClick={handleCancelCreate} disabled={validating}>
+                Cancel
+              </Button>
+            ) : (
+              <>
+                <Button
+                  color="error"
+                  onClick={handleRemove}
+                  startIcon={<DeleteOutline />}
+                  disabled={validating || programs.length <= 1}
+                >
+                  Remove Program
+                </Button>
+                <Button
+                  onClick={resetDataSource}
+                  startIcon={<Restore />}
+                  disabled={validating}
+                >
+                  Use Default
+                </Button>
+              </>
+            )}
+            <Button
+              variant="contained"
+              onClick={handleSave}
+              disabled={!isDirty || validating || !authState.user?.accessToken}
+              startIcon={validating ? <CircularProgress size={20} /> : undefined}
+            >
+              {validating ? 'Checking...' : creating ? 'Validate & Add' : 'Validate & Save'}
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default DataSourceSettings;
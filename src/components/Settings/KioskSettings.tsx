@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Alert,
+  Chip,
+} from '@mui/material';
+import { Lock, LockOpen } from '@mui/icons-material';
+import { useSettings } from '../../contexts/SettingsContext';
+import { KioskService } from '../../services/KioskService';
+
+const KioskSettings: React.FC = () => {
+  const { state, updateKioskSettings } = useSettings();
+  const { pinHash } = state.settings.kiosk;
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const pinError = pin ? KioskService.getPinError(pin) : null;
+  const confirmError = confirmPin && confirmPin !== pin ? 'PINs don\'t match' : null;
+  const canSave = !!pin && !pinError && confirmPin === pin;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      updateKioskSettings({ pinHash: await KioskService.hashPin(pin) });
+      setPin('');
+      setConfirmPin('');
+      setSuccess(pinHash ? 'Kiosk PIN changed.' : 'Kiosk PIN set. You can now start a kiosk from the Events page.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    updateKioskSettings({ pinHash: '' });
+    setSuccess('Kiosk PIN removed. Kiosk mode can\'t be started until a new PIN is set.');
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+        Kiosk
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Kiosk mode lets scholars sign themselves in to an event on a shared device. Staff need this PIN to leave it.
+      </Typography>
+
+      <Card variant="outlined">
+        <CardContent>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            <Chip
+              icon={pinHash ? <Lock /> : <LockOpen />}
+              label={pinHash ? 'PIN set' : 'No PIN set'}
+              color={pinHash ? 'success' : 'default'}
+              variant="outlined"
+              size="small"
+            />
+            {pinHash && (
+              <Button size="small" color="error" onClick={handleRemove}>
+                Remove PIN
+              </Button>
+            )}
+          </Box>
+
+          {success && (
+            <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+              {success}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-start', gap: 2 }}>
+            <TextField
+              size="small"
+              type="password"
+              label={pinHash ? 'New PIN' : 'PIN'}
+              value={pin}
+              onChange={e => {
+                setPin(e.target.value.trim());
+                setSuccess(null);
+              }}
+              error={!!pinError}
+              helperText={pinError ?? `At least ${KioskService.MIN_PIN_LENGTH} digits`}
+              slotProps={{ htmlInput: { inputMode: 'numeric', autoComplete: 'new-password' } }}
+            />
+            <TextField
+              size="small"
+              type="password"
+              label="Confirm PIN"
+              value={confirmPin}
+              onChange={e => setConfirmPin(e.target.value.trim())}
+              error={!!confirmError}
+              helperText={confirmError}
+              slotProps={{ htmlInput: { inputMode: 'numeric', autoComplete: 'new-password' } }}
+            />
+            <Button variant="contained" onClick={handleSave} disabled={!canSave || saving} sx={{ mt: 0.25 }}>
+              {pinHash ? 'Change PIN' : 'Set PIN'}
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default KioskSettings;
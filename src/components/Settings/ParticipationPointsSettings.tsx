@@ -0,0 +1,377 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  MenuItem,
+  Button,
+  IconButton,
+  Alert,
+  Chip,
+  Checkbox,
+  CircularProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TablePagination,
+} from '@mui/material';
+import { Add, Delete, Save, Sync } from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { useData } from '../../contexts/DataContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import type { PointsRule } from '../../contexts/SettingsContext';
+import { useEvents } from '../../hooks/useEvents';
+import { useDataSource } from '../../hooks/useDataSource';
+import { pointsRuleService, POINTS_RULES_SHEET_NAME } from '../../services/PointsRuleService';
+import { useAttendance } from '../../hooks/useAttendance';
+import { getEventRules, getPointsChanges, getRuleError, getUnmatchedEvents } from '../../utils/participationPoints';
+
+const matchTypeLabels: Record<PointsRule['matchType'], string> = {
+  exact: 'Is exactly',
+  contains: 'Contains',
+  regex: 'Matches pattern',
+};
+
+const PREVIEW_ROWS_PER_PAGE = 10;
+
+const createRule = (pattern = '', matchType: PointsRule['matchType'] = 'contains'): PointsRule => ({
+  id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+  pattern,
+  matchType,
+  points: 1,
+});
+
+const ParticipationPointsSettings: React.FC = () => {
+  const { state: authState } = useAuth();
+  const { state: dataState, bulkUpdateStudents } = useData();
+  const { state: settingsState, updatePointsSettings } = useSettings();
+  const { sourceKey } = useDataSource();
+  const attendance = useAttendance();
+  const { events } = useEvents();
+  const browserRules = settingsState.settings.participationPoints.rules;
+  const [savedRules, setSavedRules] = useState<PointsRule[] | null>(null); // As on the rules tab; null when there is no tab yet
+  const [rules, setRules] = useState<PointsRule[]>([]);
+  const [rulesLoading, setRulesLoading] = useState(false);
+  const [savingRules, setSavingRules] = useState(false);
+  const [rulesError, setRulesError] = useState<string | null>(null);
+  // Point values set on the Events page win over the rules below
+  const effectiveRules = useMemo(() => [...getEventRules(events), ...rules], [events, rules]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [page, setPage] = useState(0);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+
+    setRulesLoading(true);
+    setRulesError(null);
+    try {
+      const loaded = await pointsRuleService.fetchRules(accessToken);
+      setSavedRules(loaded);
+      setRules(loaded ?? []);
+    } catch (err) {
+      setRulesError(err instanceof Error ? err.message : 'Failed to load the points rules');
+    } finally {
+      setRulesLoading(false);
+    }
+  }, [authState.user?.accessToken]);
+
+  // Reload when switching to another program's spreadsheet
+  useEffect(() => {
+    loadRules();
+  }, [loadRules, sourceKey]);
+
+  const rulesChanged = JSON.stringify(rules) !== JSON.stringify(savedRules ?? []);
+
+  // Without rules every scholar would compute to zero, wiping out hand-entered points
+  const changes = useMemo(
+    () => (effectiveRules.length > 0 ? getPointsChanges(dataState.students, attendance, effectiveRules) : []),
+    [dataState.students, attendance, effectiveRules]
+  );
+  const approved = changes.filter(change => !excluded.has(change.student.id));
+  const unmatchedEvents = useMemo(() => getUnmatchedEvents(attendance, effectiveRules), [attendance, effectiveRules]);
+  const hasRuleErrors = rules.some(rule => getRuleError(rule));
+
+  const lastPage = Math.max(0, Math.ceil(changes.length / PREVIEW_ROWS_PER_PAGE) - 1);
+  const currentPage = Math.min(page, lastPage);
+
+  const updateRule = (id: string, update: Partial<PointsRule>) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, ...update } : rule)));
+    setSuccess(null);
+  };
+
+  const handleSaveRules = async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+
+    setSavingRules(true);
+    setRulesError(null);
+    try {
+      await pointsRuleService.saveRules(accessToken, rules, savedRules);
+      setSavedRules(rules);
+      // The workbook now holds these, so stop offering this browser's copy
+      if (browserRules.length > 0) updatePointsSettings({ rules: [] });
+    } catch (err) {
+      setRulesError(err instanceof Error ? err.message : 'Failed to save the points rules');
+    } finally {
+      setSavingRules(false);
+    }
+  };
+
+  const toggleExcluded = (studentId: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(studentId)) {
+        next.delete(studentId);
+      } else {
+        next.add(studentId);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken || approved.length === 0) return;
+
+    setApplying(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await bulkUpdateStudents(
+        accessToken,
+        approved.map(({ student, computed }) => ({ ...student, participationPoints: computed }))
+      );
+      setSuccess(`Updated points for ${approved.length} student${approved.length === 1 ? '' : 's'}.`);
+      setExcluded(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update participation points');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+        Participation Points
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Award points for each event a scholar signs in to. Events listed on the Events page earn their own
+        point value; other events are checked against the rules in order, and the first matching rule sets the points.
+        Rules are kept on the "{POINTS_RULES_SHEET_NAME}" tab, so every staff member uses the same ones.
+      </Typography>
+
+      <Card variant="outlined" sx={{ mb: 2 }}>
+        <CardContent>
+          {rulesError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {rulesError}
+            </Alert>
+          )}
+          {!rulesLoading && savedRules === null && browserRules.length > 0 && rules.length === 0 && (
+            <Alert
+              severity="info"
+              sx={{ mb: 2 }}
+              action={
+                <Button color="inherit" size="small" onClick={() => setRules(browserRules)}>
+                  Use Them
+                </Button>
+              }
+            >
+              {browserRules.length} rule{browserRules.length === 1 ? ' is' : 's are'} saved only in this browser.
+              Use them here, then save to share them with everyone using this workbook.
+            </Alert>
+          )}
+
+          {rulesLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : rules.length === 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              No rules yet. Add a rule, or pick one of the events below.
+            </Typography>
+          )}
+
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, mb: 2 }}>
+            {rules.map(rule => {
+              const ruleError = getRuleError(rule);
+              return (
+                <Box key={rule.id} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1.5, flexWrap: 'wrap' }}>
+                  <TextField
+                    select
+                    size="small"
+                    label="Match"
+                    value={rule.matchType}
+                    onChange={e => updateRule(rule.id, { matchType: e.target.value as PointsRule['matchType'] })}
+                    sx={{ width: 170 }}
+                  >
+                    {Object.entries(matchTypeLabels).map(([value, label]) => (
+                      <MenuItem key={value} value={value}>{label}</MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    size="small"
+                    label={rule.matchType === 'regex' ? 'Regular Expression' : 'Event Name'}
+                    value={rule.pattern}
+                    onChange={e => updateRule(rule.id, { pattern: e.target.value })}
+                    error={!!ruleError}
+                    helperText={ruleError}
+                    sx={{ flex: 1, minWidth: 200 }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Points"
+                    value={rule.points}
+                    onChange={e => updateRule(rule.id, { points: Number(e.target.value) || 0 })}
+                    sx={{ width: 100 }}
+                  />
+                  <IconButton
+                    aria-label="Remove rule"
+                    onClick={() => setRules(rules.filter(r => r.id !== rule.id))}
+                  >
+                    <Delete />
+                  </IconButton>
+                </Box>
+              );
+            })}
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button startIcon={<Add />} onClick={() => setRules([...rules, createRule()])} disabled={rulesLoading}>
+              Add Rule
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={savingRules ? <CircularProgress size={20} /> : <Save />}
+              onClick={handleSaveRules}
+              disabled={savingRules || rulesLoading || !rulesChanged || hasRuleErrors}
+            >
+              {savingRules ? 'Saving...' : 'Save Rules'}
+            </Button>
+          </Box>
+
+          {unmatchedEvents.length > 0 && (
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                Events without a rule
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                {unmatchedEvents.map(event => (
+                  <Chip
+                    key={event}
+                    label={event}
+                    size="small"
+                    variant="outlined"
+                    icon={<Add />}
+                    onClick={() => setRules([...rules, createRule(event, 'exact')])}
+                  />
+                ))}
+              </Box>
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card variant="outlined">
+        <CardContent>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, mb: 2 }}>
+            <Box>
+              <Typography variant="subtitle1" fontWeight={600}>
+                Preview
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {effectiveRules.length === 0
+                  ? 'Add a rule or an event to compute points from sign-ins.'
+                  : rulesChanged
+                    ? 'Save the rules before updating points.'
+                    : changes.length === 0
+                      ? 'Every scholar\'s points already match the rules.'
+                      : `Points differ from the sheet for ${changes.length} scholar${changes.length === 1 ? '' : 's'}.`}
+              </Typography>
+            </Box>
+            <Button
+              variant="contained"
+              startIcon={applying ? <CircularProgress size={20} /> : <Sync />}
+              onClick={handleApply}
+              disabled={applying || approved.length === 0 || hasRuleErrors || rulesChanged}
+              sx={{ flexShrink: 0 }}
+            >
+              {applying ? 'Updating...' : `Update ${approved.length} Student${approved.length === 1 ? '' : 's'}`}
+            </Button>
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          {success && (
+            <Alert severity="success" sx={{ mb: 2 }}>
+              {success}
+            </Alert>
+          )}
+
+          {changes.length > 0 && (
+            <>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Scholar</TableCell>
+                    <TableCell align="right">Events</TableCell>
+                    <TableCell align="right">In Sheet</TableCell>
+                    <TableCell align="right">Computed</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {changes
+                    .slice(currentPage * PREVIEW_ROWS_PER_PAGE, (currentPage + 1) * PREVIEW_ROWS_PER_PAGE)
+                    .map(({ student, current, computed }) => (
+                      <TableRow key={student.id} hover>
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            size="small"
+                            checked={!excluded.has(student.id)}
+                            onChange={() => toggleExcluded(student.id)}
+                            disabled={applying}
+                          />
+                        </TableCell>
+                        <TableCell>{student.firstName} {student.lastName}</TableCell>
+                        <TableCell align="right">{attendance.get(student.id)?.eventsAttended ?? 0}</TableCell>
+                        <TableCell align="right">{current}</TableCell>
+                        <TableCell align="right">
+                          <Typography variant="body2" fontWeight={600} color={computed > current ? 'success.main' : 'error.main'}>
+                            {computed}
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+              <TablePagination
+                component="div"
+                count={changes.length}
+                page={currentPage}
+                onPageChange={(_, newPage) => setPage(newPage)}
+                rowsPerPage={PREVIEW_ROWS_PER_PAGE}
+                rowsPerPageOptions={[PREVIEW_ROWS_PER_PAGE]}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default ParticipationPointsSettings;
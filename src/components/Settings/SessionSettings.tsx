@@ -0,0 +1,66 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Card,
+  CardContent,
+} from '@mui/material';
+import type { SelectChangeEvent } from '@mui/material';
+import { useSettings } from '../../contexts/SettingsContext';
+
+const timeoutOptions = [
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 120, label: '2 hours' },
+];
+
+const SessionSettings: React.FC = () => {
+  const { state, updateSessionSettings } = useSettings();
+  const { timeout } = state.settings.session;
+
+  const handleTimeoutChange = (event: SelectChangeEvent<number>) => {
+    updateSessionSettings({ timeout: event.target.value as number });
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+        Session
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Sign out automatically after a period of inactivity to protect student information on shared computers.
+      </Typography>
+
+      <Card variant="outlined">
+        <CardContent sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 3 }}>
+          <FormControl sx={{ minWidth: 220 }}>
+            <InputLabel>Sign Out After</InputLabel>
+            <Select
+              value={timeout}
+              label="Sign Out After"
+              onChange={handleTimeoutChange}
+            >
+              {timeoutOptions.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <Typography variant="caption" color="text.secondary">
+            A warning appears a minute before sign-out. Activity in any open tab keeps you signed in.
+          </Typography>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default SessionSettings;
@@ -15,19 +15,22 @@ import {
 } from '@mui/icons-material';
 import { useAuth } from '../../contexts/AuthContext';
 import { useSettings } from '../../contexts/SettingsContext';
+import { useDataSource } from '../../hooks/useDataSource';
 import { SettingsStorageService } from '../../services/SettingsStorageService';
 
 const SettingsDebugPanel: React.FC = () => {
   const { state: authState } = useAuth();
   const { state: settingsState, resetToDefaults } = useSettings();
 
+  const { activeProgram } = useDataSource();
+
   const userEmail = authState.user?.email;
-  const hasStoredSettings = userEmail ? SettingsStorageService.hasStoredSettings(userEmail) : false;
-  const storageSize = userEmail ? SettingsStorageService.getStorageSize(userEmail) : 0;
+  const hasStoredSettings = userEmail ? SettingsStorageService.hasStoredSettings(userEmail, activeProgram.id) : false;
+  const storageSize = userEmail ? SettingsStorageService.getStorageSize(userEmail, activeProgram.id) : 0;
 
   const handleClearUserSettings = () => {
     if (userEmail) {
-      SettingsStorageService.clearSettings(userEmail);
+      SettingsStorageService.clearSettings(userEmail, activeProgram.id);
       resetToDefaults();
       window.location.reload(); // Refresh to see changes
     }
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import {
   Container,
   Typography,
@@ -13,12 +14,24 @@ import {
 } from '@mui/icons-material';
 import { motion } from 'framer-motion';
 import DataDisplaySettings from './SimpleDataDisplaySettings';
+import SyncSettings from './SyncSettings';
+import DataSourceSettings from './DataSourceSettings';
+import SessionSettings from './SessionSettings';
+import KioskSettings from './KioskSettings';
+import ParticipationPointsSettings from './ParticipationPointsSettings';
+import ChangeLogSettings from './ChangeLogSettings';
 import { ColumnManagementDialog } from '../ColumnManagementDialog';
 import { SignInColumnManagementDialog } from '../SignInColumnManagementDialog';
 
+// Column managers open from their own paths, e.g. /settings/columns, so they can be linked to
+const COLUMNS_SECTION = 'columns';
+const SIGN_IN_COLUMNS_SECTION = 'signin-columns';
+
 const SettingsPage: React.FC = () => {
-  const [columnDialogOpen, setColumnDialogOpen] = useState(false);
-  const [signInColumnDialogOpen, setSignInColumnDialogOpen] = useState(false);
+  const { section } = useParams<{ section?: string }>();
+  const navigate = useNavigate();
+  const openSection = (name: string) => navigate(`/settings/${name}`);
+  const closeSection = () => navigate('/settings', { replace: true });
 
   return (
     <Container maxWidth="lg" sx={{ py: 2 }}>
@@ -80,7 +93,7 @@ const SettingsPage: React.FC = () => {
                 <Button
                   variant="contained"
                   startIcon={<AddIcon />}
-                  onClick={() => setColumnDialogOpen(true)}
+                  onClick={() => openSection(COLUMNS_SECTION)}
                   sx={{ minWidth: 140 }}
                 >
                   Manage Columns
@@ -110,7 +123,7 @@ const SettingsPage: React.FC = () => {
                 <Button
                   variant="contained"
                   startIcon={<AddIcon />}
-                  onClick={() => setSignInColumnDialogOpen(true)}
+                  onClick={() => openSection(SIGN_IN_COLUMNS_SECTION)}
                   sx={{ minWidth: 140 }}
                 >
                   Manage Sign-In Columns
@@ -120,19 +133,42 @@ const SettingsPage: React.FC = () => {
 
             <Divider sx={{ my: 3 }} />
 
+            <DataSourceSettings />
+
+            <Divider sx={{ my: 3 }} />
+
             <DataDisplaySettings />
+
+            <Divider sx={{ my: 3 }} />
+
+            <SyncSettings />
+
+            <Divider sx={{ my: 3 }} />
+
+            <SessionSettings />
+
+            <Divider sx={{ my: 3 }} />
+
+            <KioskSettings />
+
+            <Divider sx={{ my: 3 }} />
+
+            <ParticipationPointsSettings />
+            <Divider sx={{ my: 3 }} />
+
+            <ChangeLogSettings />
           </Box>
         </Paper>
       </motion.div>
 
       <ColumnManagementDialog
-        open={columnDialogOpen}
-        onClose={() => setColumnDialogOpen(false)}
+        open={section === COLUMNS_SECTION}
+        onClose={closeSection}
       />
 
       <SignInColumnManagementDialog
-        open={signInColumnDialogOpen}
-        onClose={() => setSignInColumnDialogOpen(false)}
+        open={section === SIGN_IN_COLUMNS_SECTION}
+        onClose={closeSection}
       />
     </Container>
   );
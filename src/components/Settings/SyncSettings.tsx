@@ -0,0 +1,77 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  Card,
+  CardContent,
+} from '@mui/material';
+import type { SelectChangeEvent } from '@mui/material';
+import { useSettings } from '../../contexts/SettingsContext';
+
+const refreshIntervalOptions = [
+  { value: 15000, label: 'Every 15 seconds' },
+  { value: 30000, label: 'Every 30 seconds' },
+  { value: 60000, label: 'Every minute' },
+  { value: 300000, label: 'Every 5 minutes' },
+];
+
+const SyncSettings: React.FC = () => {
+  const { state, updateSyncSettings } = useSettings();
+  const { autoRefreshInterval, backgroundSync } = state.settings.sync;
+
+  const handleIntervalChange = (event: SelectChangeEvent<number>) => {
+    updateSyncSettings({ autoRefreshInterval: event.target.value as number });
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+        Background Sync
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Automatically refresh students and sign-ins from Google Sheets while this tab is open.
+      </Typography>
+
+      <Card variant="outlined">
+        <CardContent sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 3 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={backgroundSync}
+                onChange={(e) => updateSyncSettings({ backgroundSync: e.target.checked })}
+              />
+            }
+            label="Refresh data in the background"
+          />
+
+          <FormControl sx={{ minWidth: 220 }} disabled={!backgroundSync}>
+            <InputLabel>Refresh Interval</InputLabel>
+            <Select
+              value={autoRefreshInterval}
+              label="Refresh Interval"
+              onChange={handleIntervalChange}
+            >
+              {refreshIntervalOptions.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <Typography variant="caption" color="text.secondary">
+            Sync pauses while the tab is hidden or offline, and slows down after errors.
+          </Typography>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default SyncSettings;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -9,6 +9,8 @@ import {
   Typography,
   Divider,
   IconButton,
+  Alert,
+  CircularProgress,
 } from '@mui/material';
 import {
   Close,
@@ -18,8 +20,15 @@ import {
   Email,
   CalendarToday,
   Event,
+  Edit,
+  Delete,
 } from '@mui/icons-material';
 import type { SignInRow } from '../types/signIn';
+import type { ProgramEvent } from '../types/event';
+import { useAuth } from '../contexts/AuthContext';
+import { useSignInSheet } from '../contexts/SignInSheetContext';
+import { EventPicker } from './EventPicker';
+import { SignInFormDialog } from './SignInFormDialog';
 
 interface SignInDetailsDialogProps {
   open: boolean;
@@ -32,8 +41,44 @@ const SignInDetailsDialog: React.FC<SignInDetailsDialogProps> = ({
   onClose,
   signIn,
 }) => {
+  const { state: authState } = useAuth();
+  const { updateSignInEvents, updateSignIn, deleteSignIn } = useSignInSheet();
+  const [editingEvent, setEditingEvent] = useState(false);
+  const [savingEvent, setSavingEvent] = useState(false);
+  const [eventError, setEventError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  // Leave event editing when another sign-in is opened
+  const [editedRow, setEditedRow] = useState(signIn?.rowIndex);
+  if (editedRow !== signIn?.rowIndex) {
+    setEditedRow(signIn?.rowIndex);
+    setEditingEvent(false);
+    setEventError(null);
+    setConfirmDelete(false);
+    setDeleteError(null);
+  }
+
   if (!signIn) return null;
 
+  const handleEventChange = async (event: ProgramEvent | null) => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken || !event) return;
+
+    setSavingEvent(true);
+    setEventError(null);
+    try {
+      await updateSignInEvents(accessToken, [{ signIn, event: event.name }]);
+      setEditingEvent(false);
+    } catch (err) {
+      setEventError(err instanceof Error ? err.message : 'Failed to update the event');
+    } finally {
+      setSavingEvent(false);
+    }
+  };
+
   const formatPhoneNumber = (phone: string | undefined) => {
     if (!phone) return 'Not provided';
     // Basic phone formatting
@@ -44,165 +89,269 @@ const SignInDetailsDialog: React.FC<SignInDetailsDialogProps> = ({
     return phone;
   };
 
+  const handleUpdate = async (updated: SignInRow) => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) throw new Error('Sign in again to save changes');
+    await updateSignIn(accessToken, signIn, updated);
+  };
+
+  const handleDelete = async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+
+    setDeleting(true);
+    setDeleteError(null);
+    try {
+      await deleteSignIn(accessToken, signIn);
+      setConfirmDelete(false);
+      onClose();
+    } catch (err) {
+      setDeleteError(err instanceof Error ? err.message : 'Failed to delete the sign-in');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
   return (
-    <Dialog
-      open={open}
-      onClose={onClose}
-      maxWidth="sm"
-      fullWidth
-      PaperProps={{
-        sx: {
-          borderRadius: 2,
-          maxHeight: '90vh',
-        }
-      }}
-    >
-      <DialogTitle
-        sx={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          pb: 1,
+    <>
+      <Dialog
+        open={open}
+        onClose={onClose}
+        maxWidth="sm"
+        fullWidth
+        PaperProps={{
+          sx: {
+            borderRadius: 2,
+            maxHeight: '90vh',
+          }
         }}
       >
-        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-          <Person color="primary" />
-          <Typography variant="h5" component="h2" fontWeight={600}>
-            {signIn.firstName} {signIn.lastName}
-          </Typography>
-        </Box>
-        <IconButton onClick={onClose} size="small">
-          <Close />
-        </IconButton>
-      </DialogTitle>
-
-      <DialogContent dividers>
-        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
-          {/* Personal Information */}
-          <Box>
-            <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
-              Personal Information
+        <DialogTitle
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            pb: 1,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Person color="primary" />
+            <Typography variant="h5" component="h2" fontWeight={600}>
+              {signIn.firstName} {signIn.lastName}
             </Typography>
-            <Divider sx={{ mb: 2 }} />
-            
-            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 2 }}>
-              <Box>
-                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                  First Name
-                </Typography>
-                <Typography variant="body1">
-                  {signIn.firstName || 'Not provided'}
-                </Typography>
-              </Box>
-
-              <Box>
-                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                  Last Name
-                </Typography>
-                <Typography variant="body1">
-                  {signIn.lastName || 'Not provided'}
-                </Typography>
-              </Box>
-
-              <Box>
-                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                  Graduation Year
-                </Typography>
-                <Typography variant="body1">
-                  {signIn.gradYear || 'Not provided'}
-                </Typography>
-              </Box>
+          </Box>
+          <IconButton onClick={onClose} size="small">
+            <Close />
+          </IconButton>
+        </DialogTitle>
 
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <School fontSize="small" color="action" />
+        <DialogContent dividers>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+            {/* Personal Information */}
+            <Box>
+              <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
+                Personal Information
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+            
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 2 }}>
                 <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    School
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    First Name
                   </Typography>
                   <Typography variant="body1">
-                    {signIn.school || 'Not provided'}
+                    {signIn.firstName || 'Not provided'}
                   </Typography>
                 </Box>
-              </Box>
-            </Box>
-          </Box>
 
-          {/* Contact Information */}
-          <Box>
-            <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
-              Contact Information
-            </Typography>
-            <Divider sx={{ mb: 2 }} />
-            
-            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <Email fontSize="small" color="action" />
                 <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    Email
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    Last Name
                   </Typography>
                   <Typography variant="body1">
-                    {signIn.email || 'Not provided'}
+                    {signIn.lastName || 'Not provided'}
                   </Typography>
                 </Box>
-              </Box>
 
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <Phone fontSize="small" color="action" />
                 <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    Phone
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    Graduation Year
                   </Typography>
                   <Typography variant="body1">
-                    {formatPhoneNumber(signIn.phone)}
+                    {signIn.gradYear || 'Not provided'}
                   </Typography>
                 </Box>
+
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <School fontSize="small" color="action" />
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      School
+                    </Typography>
+                    <Typography variant="body1">
+                      {signIn.school || 'Not provided'}
+                    </Typography>
+                  </Box>
+                </Box>
               </Box>
             </Box>
-          </Box>
 
-          {/* Sign-In Information */}
-          <Box>
-            <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
-              Sign-In Information
-            </Typography>
-            <Divider sx={{ mb: 2 }} />
+            {/* Contact Information */}
+            <Box>
+              <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
+                Contact Information
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
             
-            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <CalendarToday fontSize="small" color="action" />
-                <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    Sign-In Date
-                  </Typography>
-                  <Typography variant="body1">
-                    {signIn.date || 'Not provided'}
-                  </Typography>
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Email fontSize="small" color="action" />
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Email
+                    </Typography>
+                    <Typography variant="body1">
+                      {signIn.email || 'Not provided'}
+                    </Typography>
+                  </Box>
+                </Box>
+
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Phone fontSize="small" color="action" />
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Phone
+                    </Typography>
+                    <Typography variant="body1">
+                      {formatPhoneNumber(signIn.phone)}
+                    </Typography>
+                  </Box>
                 </Box>
               </Box>
+            </Box>
 
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <Event fontSize="small" color="action" />
-                <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    Event
-                  </Typography>
-                  <Typography variant="body1">
-                    {signIn.event || 'Not provided'}
-                  </Typography>
+            {/* Sign-In Information */}
+            <Box>
+              <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
+                Sign-In Information
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+            
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <CalendarToday fontSize="small" color="action" />
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Sign-In Date
+                    </Typography>
+                    <Typography variant="body1">
+                      {signIn.date || 'Not provided'}
+                    </Typography>
+                  </Box>
+                </Box>
+
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Event fontSize="small" color="action" />
+                  <Box sx={{ flex: 1 }}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Event
+                    </Typography>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                      <Typography variant="body1">
+                        {signIn.event || 'Not provided'}
+                      </Typography>
+                      {!editingEvent && signIn.rowIndex && (
+                        <IconButton size="small" aria-label="Change event" onClick={() => setEditingEvent(true)}>
+                          <Edit fontSize="small" />
+                        </IconButton>
+                      )}
+                    </Box>
+                  </Box>
                 </Box>
               </Box>
+
+              {editingEvent && (
+                <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mt: 2 }}>
+                  <Box sx={{ flex: 1 }}>
+                    <EventPicker
+                      size="small"
+                      value={signIn.event}
+                      onChange={handleEventChange}
+                      disabled={savingEvent}
+                    />
+                  </Box>
+                  {savingEvent ? (
+                    <CircularProgress size={24} sx={{ mt: 1 }} />
+                  ) : (
+                    <Button onClick={() => setEditingEvent(false)} sx={{ mt: 0.25 }}>
+                      Cancel
+                    </Button>
+                  )}
+                </Box>
+              )}
+              {eventError && (
+                <Alert severity="error" sx={{ mt: 2 }}>
+                  {eventError}
+                </Alert>
+              )}
             </Box>
           </Box>
-        </Box>
-      </DialogContent>
-
-      <DialogActions sx={{ px: 3, py: 2 }}>
-        <Button onClick={onClose} variant="contained" color="primary">
-          Close
-        </Button>
-      </DialogActions>
-    </Dialog>
+        </DialogContent>
+
+        <DialogActions sx={{ px: 3, py: 2 }}>
+          {signIn.rowIndex && (
+            <>
+              <Button color="error" startIcon={<Delete />} onClick={() => setConfirmDelete(true)} sx={{ mr: 'auto' }}>
+                Delete
+              </Button>
+              <Button startIcon={<Edit />} onClick={() => setFormOpen(true)}>
+                Edit
+              </Button>
+            </>
+          )}
+          <Button onClick={onClose} variant="contained" color="primary">
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <SignInFormDialog
+        open={formOpen}
+        onClose={() => setFormOpen(false)}
+        onSubmit={handleUpdate}
+        initialData={signIn}
+        title="Edit Sign-In"
+      />
+
+      <Dialog open={confirmDelete} onClose={deleting ? undefined : () => setConfirmDelete(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Delete Sign-In</DialogTitle>
+        <DialogContent>
+          {deleteError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {deleteError}
+            </Alert>
+          )}
+          <Typography variant="body1">
+            Delete {signIn.name || 'this sign-in'}'s sign-in to {signIn.event || 'this event'}
+            {signIn.date ? ` on ${signIn.date}` : ''}? Its row is removed from the sign-in sheet.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmDelete(false)} disabled={deleting}>
+            Cancel
+          </Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={handleDelete}
+            disabled={deleting}
+            startIcon={deleting ? <CircularProgress size={20} /> : <Delete />}
+          >
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
   );
 };
 
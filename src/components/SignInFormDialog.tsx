@@ -0,0 +1,331 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Alert,
+  Typography,
+  Divider,
+  CircularProgress
+} from '@mui/material';
+import type { SignInRow } from '../types/signIn';
+import { useSettings } from '../contexts/SettingsContext';
+import { AttendanceService } from '../services/AttendanceService';
+import { SignInDataTransformService } from '../services/SignInDataTransformService';
+import { EventPicker } from './EventPicker';
+
+interface SignInFormDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (signIn: SignInRow) => Promise<void>;
+  initialData?: SignInRow | null;
+  title: string;
+}
+
+interface SignInFormData {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  school: string;
+  gradYear: string;
+  date: string;
+  event: string;
+  customFields: Record<string, string>;
+}
+
+export const SignInFormDialog: React.FC<SignInFormDialogProps> = ({
+  open,
+  onClose,
+  onSubmit,
+  initialData,
+  title,
+}) => {
+  const { state: settingsState } = useSettings();
+  const customColumns = settingsState.settings.signInDisplay.columnSettings.filter(col => col.isCustom);
+
+  const [formData, setFormData] = useState<SignInFormData>({
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: '',
+    school: '',
+    gradYear: '',
+    date: '',
+    event: '',
+    customFields: {},
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData({
+        firstName: initialData.firstName || '',
+        lastName: initialData.lastName || '',
+        email: initialData.email || '',
+        phone: initialData.phone || '',
+        school: initialData.school || '',
+        gradYear: initialData.gradYear || '',
+        date: initialData.date || '',
+        event: initialData.event || '',
+        customFields: { ...initialData.customFields },
+      });
+    } else {
+      setFormData({
+        firstName: '',
+        lastName: '',
+        email: '',
+        phone: '',
+        school: '',
+        gradYear: '',
+        date: SignInDataTransformService.formatSignInDate(),
+        event: '',
+        customFields: {},
+      });
+    }
+    setError(null);
+    setFieldErrors({});
+  }, [initialData, open]);
+
+  const handleChange = (field: keyof Omit<SignInFormData, 'customFields'>, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setError(null);
+    // Clear field-specific error when user starts typing
+    if (fieldErrors[field]) {
+      setFieldErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleCustomFieldChange = (fieldName: string, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      customFields: {
+        ...prev.customFields,
+        [fieldName]: value
+      }
+    }));
+    setError(null);
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.firstName.trim()) {
+      errors.firstName = 'First name is required';
+    }
+    if (!formData.lastName.trim()) {
+      errors.lastName = 'Last name is required';
+    }
+    if (!formData.event.trim()) {
+      errors.event = 'Pick the event';
+    }
+    if (!formData.date.trim()) {
+      errors.date = 'Date is required';
+    } else if (!AttendanceService.parseSignInDate(formData.date)) {
+      errors.date = 'Enter a date like 9/14/2025 or 9/14/2025 10:30:00';
+    }
+
+    // Basic email validation
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (formData.email.trim() && !emailRegex.test(formData.email.trim())) {
+      errors.email = 'Please enter a valid email address';
+    }
+    if (formData.gradYear.trim() && !/^\d{4}$/.test(formData.gradYear.trim())) {
+      errors.gradYear = 'Please enter a four-digit year';
+    }
+
+    setFieldErrors(errors);
+
+    if (Object.keys(errors).length > 0) {
+      setError('Please fix the highlighted errors');
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    setLoading(true);
+    setError(null);
+
+    const firstName = formData.firstName.trim();
+    const lastName = formData.lastName.trim();
+    const signIn: SignInRow = {
+      ...initialData,
+      firstName,
+      lastName,
+      name: `${firstName} ${lastName}`,
+      email: formData.email.trim().toLowerCase(),
+      phone: formData.phone.trim(),
+      school: formData.school.trim(),
+      gradYear: formData.gradYear.trim(),
+      date: formData.date.trim(),
+      event: formData.event.trim(),
+      customFields: formData.customFields,
+    };
+
+    try {
+      await onSubmit(signIn);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!loading) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 2 }}>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
+            <TextField
+              label="First Name"
+              value={formData.firstName}
+              onChange={(e) => handleChange('firstName', e.target.value)}
+              required
+              disabled={loading}
+              fullWidth
+              error={!!fieldErrors.firstName}
+              helperText={fieldErrors.firstName}
+            />
+            <TextField
+              label="Last Name"
+              value={formData.lastName}
+              onChange={(e) => handleChange('lastName', e.target.value)}
+              required
+              disabled={loading}
+              fullWidth
+              error={!!fieldErrors.lastName}
+              helperText={fieldErrors.lastName}
+            />
+          </Box>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
+            <TextField
+              label="Email"
+              type="email"
+              value={formData.email}
+              onChange={(e) => handleChange('email', e.target.value)}
+              disabled={loading}
+              fullWidth
+              error={!!fieldErrors.email}
+              helperText={fieldErrors.email}
+            />
+            <TextField
+              label="Phone"
+              type="tel"
+              value={formData.phone}
+              onChange={(e) => handleChange('phone', e.target.value)}
+              disabled={loading}
+              fullWidth
+            />
+          </Box>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
+            <TextField
+              label="School"
+              value={formData.school}
+              onChange={(e) => handleChange('school', e.target.value)}
+              disabled={loading}
+              fullWidth
+            />
+            <TextField
+              label="Graduation Year"
+              value={formData.gradYear}
+              onChange={(e) => handleChange('gradYear', e.target.value)}
+              disabled={loading}
+              fullWidth
+              inputProps={{ inputMode: 'numeric' }}
+              error={!!fieldErrors.gradYear}
+              helperText={fieldErrors.gradYear}
+            />
+          </Box>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
+            <Box>
+              <EventPicker
+                value={formData.event}
+                onChange={(event) => handleChange('event', event?.name ?? '')}
+                disabled={loading}
+              />
+              {fieldErrors.event && (
+                <Typography variant="caption" color="error" sx={{ ml: 1.75 }}>
+                  {fieldErrors.event}
+                </Typography>
+              )}
+            </Box>
+            <TextField
+              label="Date"
+              value={formData.date}
+              onChange={(e) => handleChange('date', e.target.value)}
+              required
+              disabled={loading}
+              fullWidth
+              error={!!fieldErrors.date}
+              helperText={fieldErrors.date || 'When the scholar signed in'}
+            />
+          </Box>
+
+          {customColumns.length > 0 && (
+            <>
+              <Divider sx={{ my: 3 }}>
+                <Typography variant="body2" color="text.secondary">
+                  Custom Fields
+                </Typography>
+              </Divider>
+
+              <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+                {customColumns.map(column => (
+                  <TextField
+                    key={column.id}
+                    fullWidth
+                    label={column.headerName}
+                    value={formData.customFields[column.field] ?? ''}
+                    onChange={(e) => handleCustomFieldChange(column.field, e.target.value)}
+                    disabled={loading}
+                    helperText={column.description}
+                  />
+                ))}
+              </Box>
+            </>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={loading}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          disabled={loading}
+          startIcon={loading ? <CircularProgress size={20} /> : null}
+        >
+          {loading ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  Autocomplete,
+  TextField,
+  Paper,
+  CircularProgress,
+  TablePagination,
+} from '@mui/material';
+import { Link as LinkIcon, PersonAdd, Check } from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import { useSignInSheet } from '../contexts/SignInSheetContext';
+import { DataTransformService } from '../services/DataTransformService';
+import type { Student } from '../types';
+import type { SignInRow } from '../types/signIn';
+import { needsReview } from '../utils/signInMatching';
+import type { SignInMatch } from '../utils/signInMatching';
+
+interface SignInMatchReviewDialogProps {
+  open: boolean;
+  onClose: () => void;
+  matches: SignInMatch[];
+}
+
+const ROWS_PER_PAGE = 10;
+
+const getStudentLabel = (student: Student) =>
+  `${student.firstName} ${student.lastName}${student.highSchool ? ` (${student.highSchool})` : ''}`;
+
+/**
+ * Review queue for sign-ins that couldn't be matched to exactly one student: confirm a
+ * student for each, or create a new student from the sign-in
+ */
+export const SignInMatchReviewDialog: React.FC<SignInMatchReviewDialogProps> = ({ open, onClose, matches }) => {
+  const { state: authState } = useAuth();
+  const { state: dataState, addStudent } = useData();
+  const { linkSignIns } = useSignInSheet();
+  const [choices, setChoices] = useState<Record<number, Student | null>>({});
+  const [busyRow, setBusyRow] = useState<number | 'all' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+
+  const queue = useMemo(() => matches.filter(match => needsReview(match) && match.signIn.rowIndex), [matches]);
+  const automatic = useMemo(() => matches.filter(match => match.status === 'matched'), [matches]);
+
+  // Clamp the page when confirming the last item on it
+  const lastPage = Math.max(0, Math.ceil(queue.length / ROWS_PER_PAGE) - 1);
+  const currentPage = Math.min(page, lastPage);
+
+  const getOptions = (match: SignInMatch) => {
+    const candidateIds = new Set(match.candidates.map(student => student.id));
+    return [...match.candidates, ...dataState.students.filter(student => !candidateIds.has(student.id))];
+  };
+
+  const runLink = async (row: number | 'all', action: () => Promise<void>) => {
+    setBusyRow(row);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the link');
+    } finally {
+      setBusyRow(null);
+    }
+  };
+
+  const handleConfirm = (signIn: SignInRow, student: Student) => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+    runLink(signIn.rowIndex ?? 0, () => linkSignIns(accessToken, [{ signIn, studentId: student.id }]));
+  };
+
+  const handleCreateStudent = (signIn: SignInRow) => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+
+    runLink(signIn.rowIndex ?? 0, async () => {
+      const id = DataTransformService.generatePersistentStudentId();
+      const graduationYear = parseInt(signIn.gradYear, 10);
+      await addStudent(accessToken, {
+        id,
+        firstName: signIn.firstName,
+        lastName: signIn.lastName,
+        email: signIn.email,
+        cellNumber: signIn.phone,
+        highSchool: signIn.school,
+        graduationYear: isNaN(graduationYear) ? undefined : graduationYear,
+      });
+      await linkSignIns(accessToken, [{ signIn, studentId: id }]);
+    });
+  };
+
+  const handleSaveAutomatic = () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) return;
+    runLink('all', () => linkSignIns(
+      accessToken,
+      automatic.flatMap(match => (match.student ? [{ signIn: match.signIn, studentId: match.student.id }] : []))
+    ));
+  };
+
+  return (
+    <Dialog open={open} onClose={busyRow !== null ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <LinkIcon color="primary" />
+          Review Sign-In Matches
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {automatic.length > 0 && (
+          <Alert
+            severity="info"
+            sx={{ mb: 2 }}
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                onClick={handleSaveAutomatic}
+                disabled={busyRow !== null}
+                startIcon={busyRow === 'all' ? <CircularProgress size={16} /> : null}
+              >
+                Save Links
+              </Button>
+            }
+          >
+            {automatic.length} sign-in{automatic.length === 1 ? ' was' : 's were'} matched automatically by email, phone or name and school.
+            Save the links to keep them even if those details change.
+          </Alert>
+        )}
+
+        {queue.length === 0 ? (
+          <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            Every sign-in is matched to a student
+          </Typography>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {queue.length} sign-in{queue.length === 1 ? '' : 's'} need a decision. Pick the student each belongs to, or create a new student.
+            </Typography>
+
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+              {queue.slice(currentPage * ROWS_PER_PAGE, (currentPage + 1) * ROWS_PER_PAGE).map(match => {
+                const { signIn } = match;
+                const row = signIn.rowIndex ?? 0;
+                const chosen = choices[row] ?? match.candidates[0] ?? null;
+                return (
+                  <Paper key={row} variant="outlined" sx={{ p: 2 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5, flexWrap: 'wrap' }}>
+                      <Typography variant="subtitle2" fontWeight={600}>
+                        {signIn.name || 'No name'}
+                      </Typography>
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        color={match.status === 'ambiguous' ? 'warning' : 'default'}
+                        label={match.status === 'ambiguous' ? `${match.candidates.length} possible matches` : 'No match'}
+                      />
+                    </Box>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+                      {[signIn.email, signIn.phone, signIn.school, signIn.gradYear, signIn.event, signIn.date, `row ${row}`]
+                        .filter(Boolean)
+                        .join(' • ')}
+                    </Typography>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                      <Autocomplete
+                        size="small"
+                        options={getOptions(match)}
+                        value={chosen}
+                        onChange={(_, student) => setChoices(prev => ({ ...prev, [row]: student }))}
+                        getOptionLabel={getStudentLabel}
+                        getOptionKey={student => student.id}
+                        isOptionEqualToValue={(option, value) => option.id === value.id}
+                        renderInput={params => <TextField {...params} label="Student" />}
+                        sx={{ flex: 1, minWidth: 240 }}
+                        disabled={busyRow !== null}
+                      />
+                      <Button
+                        variant="contained"
+                        size="small"
+                        startIcon={busyRow === row ? <CircularProgress size={16} /> : <Check />}
+                        onClick={() => chosen && handleConfirm(signIn, chosen)}
+                        disabled={!chosen || busyRow !== null}
+                      >
+                        Confirm
+                      </Button>
+                      <Button
+                        size="small"
+                        startIcon={<PersonAdd />}
+                        onClick={() => handleCreateStudent(signIn)}
+                        disabled={!signIn.firstName || !signIn.lastName || busyRow !== null}
+                      >
+                        Create Student
+                      </Button>
+                    </Box>
+                  </Paper>
+                );
+              })}
+            </Box>
+
+            <TablePagination
+              component="div"
+              count={queue.length}
+              page={currentPage}
+              onPageChange={(_, newPage) => setPage(newPage)}
+              rowsPerPage={ROWS_PER_PAGE}
+              rowsPerPageOptions={[ROWS_PER_PAGE]}
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={busyRow !== null}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
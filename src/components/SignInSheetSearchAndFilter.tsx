@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import React, { useMemo, useCallback, useRef, useEffect } from 'react';
 import {
   Box,
   TextField,
@@ -19,7 +19,9 @@ import {
   Clear,
   FilterList
 } from '@mui/icons-material';
-import { useDebounce } from '../hooks/useDebounce';
+import { useUrlFilters, useUrlSearch } from '../hooks/useUrlFilters';
+
+const SIGN_IN_FILTER_KEYS = ['q', 'school', 'gradYear', 'event'] as const;
 
 interface SignInSheetSearchAndFilterProps {
   signIns: any[];
@@ -27,20 +29,21 @@ interface SignInSheetSearchAndFilterProps {
 }
 
 const SignInSheetSearchAndFilter: React.FC<SignInSheetSearchAndFilterProps> = ({ signIns, onFilter }) => {
-  const [localSearchQuery, setLocalSearchQuery] = useState('');
-  const [schoolFilter, setSchoolFilter] = useState('');
-  const [gradYearFilter, setGradYearFilter] = useState('');
-  const [eventFilter, setEventFilter] = useState('');
+  // Filters live in the URL, so e.g. /signins?event=... links straight to one event's sign-ins
+  const { getFilter, setFilter, clearFilters } = useUrlFilters(SIGN_IN_FILTER_KEYS);
+  const [localSearchQuery, setLocalSearchQuery, debouncedSearchQuery] = useUrlSearch('q');
+  const schoolFilter = getFilter('school');
+  const gradYearFilter = getFilter('gradYear');
+  const eventFilter = getFilter('event');
   const searchInputRef = useRef<HTMLInputElement>(null);
-  const debouncedSearchQuery = useDebounce(localSearchQuery, 300);
 
-  // Memoize filter options
+  // Memoize filter options, keeping a value from a link selectable before the sign-ins load
   const filterOptions = useMemo(() => {
-    const schools = Array.from(new Set(signIns.map(s => s.school).filter(Boolean))).sort();
-    const gradYears = Array.from(new Set(signIns.map(s => s.gradYear).filter(Boolean))).sort();
-    const events = Array.from(new Set(signIns.map(s => s.event).filter(Boolean))).sort();
+    const schools = Array.from(new Set([...signIns.map(s => s.school), schoolFilter].filter(Boolean))).sort();
+    const gradYears = Array.from(new Set([...signIns.map(s => s.gradYear), gradYearFilter].filter(Boolean))).sort();
+    const events = Array.from(new Set([...signIns.map(s => s.event), eventFilter].filter(Boolean))).sort();
     return { schools, gradYears, events };
-  }, [signIns]);
+  }, [signIns, schoolFilter, gradYearFilter, eventFilter]);
 
   // Filter and search logic
   const filteredRows = useMemo(() => {
@@ -76,12 +79,10 @@ const SignInSheetSearchAndFilter: React.FC<SignInSheetSearchAndFilterProps> = ({
   }, [filteredRows.length]);
 
   // Clear all filters
-  const clearFilters = useCallback(() => {
+  const clearAllFilters = useCallback(() => {
     setLocalSearchQuery('');
-    setSchoolFilter('');
-    setGradYearFilter('');
-    setEventFilter('');
-  }, []);
+    clearFilters();
+  }, [setLocalSearchQuery, clearFilters]);
 
   return (
     <Paper elevation={1} sx={{ p: 2, mb: 2 }}>
@@ -104,7 +105,7 @@ const SignInSheetSearchAndFilter: React.FC<SignInSheetSearchAndFilterProps> = ({
             }}
           />
         </Box>
-        <IconButton onClick={clearFilters} title="Clear Filters">
+        <IconButton onClick={clearAllFilters} title="Clear Filters">
           <FilterList />
         </IconButton>
       </Box>
@@ -119,7 +120,7 @@ const SignInSheetSearchAndFilter: React.FC<SignInSheetSearchAndFilterProps> = ({
               <Select
                 value={schoolFilter}
                 label="School"
-                onChange={e => setSchoolFilter(e.target.value)}
+                onChange={e => setFilter('school', e.target.value)}
               >
                 <MenuItem value="">All</MenuItem>
                 {filterOptions.schools.map(school => (
@@ -132,7 +133,7 @@ const SignInSheetSearchAndFilter: React.FC<SignInSheetSearchAndFilterProps> = ({
               <Select
                 value={gradYearFilter}
                 label="Grad Year"
-                onChange={e => setGradYearFilter(e.target.value)}
+                onChange={e => setFilter('gradYear', e.target.value)}
               >
                 <MenuItem value="">All</MenuItem>
                 {filterOptions.gradYears.map(year => (
@@ -145,7 +146,7 @@ const SignInSheetSearchAndFilter: React.FC<SignInSheetSearchAndFilterProps> = ({
               <Select
                 value={eventFilter}
                 label="Event"
-                onChange={e => setEventFilter(e.target.value)}
+                onChange={e => setFilter('event', e.target.value)}
               >
                 <MenuItem value="">All</MenuItem>
                 {filterOptions.events.map(event => (
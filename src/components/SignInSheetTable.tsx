@@ -1,24 +1,41 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { DataGrid } from '@mui/x-data-grid';
 import type { GridColDef } from '@mui/x-data-grid';
-import { Box, CircularProgress, Alert, Chip } from '@mui/material';
+import { Box, CircularProgress, Alert, Chip, Button, Badge } from '@mui/material';
+import { Link as LinkIcon, Add } from '@mui/icons-material';
 import { useSignInSheet } from '../contexts/SignInSheetContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useSettings } from '../contexts/SettingsContext';
+import { useData } from '../contexts/DataContext';
 import SignInSheetSearchAndFilter from './SignInSheetSearchAndFilter';
 import SignInDetailsDialog from './SignInDetailsDialog';
 import SignInExportButton from './SignInExportButton';
 import SignInColumnVisibilityButton from './SignInColumnVisibilityButton';
+import { CachedDataIndicator } from './CachedDataIndicator';
+import { SignInMatchReviewDialog } from './SignInMatchReviewDialog';
+import { SignInFormDialog } from './SignInFormDialog';
 import type { SignInRow } from '../types/signIn';
+import { matchSignIns, needsReview } from '../utils/signInMatching';
+import type { SignInMatch } from '../utils/signInMatching';
 
 
 const SignInSheetTable: React.FC = () => {
-  const { signIns, loading, error, fetchSignIns } = useSignInSheet();
+  const { signIns, loading, error, cachedAt, fetchSignIns, appendSignIn } = useSignInSheet();
   const { state: authState } = useAuth();
   const { state: settingsState } = useSettings();
+  const { state: dataState } = useData();
   const [filteredRows, setFilteredRows] = useState<any[]>(signIns);
   const [selectedSignIn, setSelectedSignIn] = useState<SignInRow | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [addOpen, setAddOpen] = useState(false);
+
+  const matches = useMemo(() => matchSignIns(signIns, dataState.students), [signIns, dataState.students]);
+  const matchesByRow = useMemo(
+    () => new Map<number | undefined, SignInMatch>(matches.map(match => [match.signIn.rowIndex, match])),
+    [matches]
+  );
+  const reviewCount = useMemo(() => matches.filter(needsReview).length, [matches]);
 
   // Function to create column definitions based on settings
   const createColumnFromSettings = (columnSetting: any): GridColDef => {
@@ -223,14 +240,43 @@ const SignInSheetTable: React.FC = () => {
       });
     });
     
+    // Which student each sign-in resolved to
+    validatedColumns.push({
+      field: '__student',
+      headerName: 'Scholar',
+      width: 200,
+      sortable: false,
+      renderCell: (params) => {
+        const match = matchesByRow.get(params.row.rowIndex);
+        if (!match || match.status === 'unmatched') return <span style={{ color: '#666' }}>-</span>;
+        if (match.status === 'ambiguous') {
+          return <Chip label="Needs review" color="warning" variant="outlined" size="small" />;
+        }
+        return (
+          <Chip
+            label={`${match.student?.firstName} ${match.student?.lastName}`}
+            color="primary"
+            variant={match.status === 'linked' ? 'filled' : 'outlined'}
+            size="small"
+          />
+        );
+      },
+    });
+
     return validatedColumns;
-  }, [settingsState.settings.signInDisplay.columnSettings]);
+  }, [settingsState.settings.signInDisplay.columnSettings, matchesByRow]);
 
   const handleRowClick = (params: any) => {
     setSelectedSignIn(params.row);
     setDialogOpen(true);
   };
 
+  const handleAddSignIn = async (signIn: SignInRow) => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken) throw new Error('Sign in again to add sign-ins');
+    await appendSignIn(accessToken, signIn);
+  };
+
   const handleCloseDialog = () => {
     setDialogOpen(false);
     setSelectedSignIn(null);
@@ -242,21 +288,39 @@ const SignInSheetTable: React.FC = () => {
     }
   }, [authState.isAuthenticated, authState.user?.accessToken, fetchSignIns]);
 
-  // Update filteredRows when signIns change (initial load)
-  useEffect(() => {
-    setFilteredRows(signIns);
-  }, [signIns]);
-
   return (
     <>
+      <CachedDataIndicator cachedAt={cachedAt} sx={{ mb: 2 }} />
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
           <SignInColumnVisibilityButton />
+          <Badge badgeContent={reviewCount} color="warning" max={999}>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<LinkIcon />}
+              onClick={() => setReviewOpen(true)}
+              disabled={loading}
+            >
+              Review Matches
+            </Button>
+          </Badge>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Button
+            variant="contained"
+            size="small"
+            startIcon={<Add />}
+            onClick={() => setAddOpen(true)}
+            disabled={loading}
+          >
+            Add Sign-In
+          </Button>
+          <SignInExportButton 
+            filteredSignIns={filteredRows}
+            disabled={loading}
+          />
         </Box>
-        <SignInExportButton 
-          filteredSignIns={filteredRows}
-          disabled={loading}
-        />
       </Box>
       <SignInSheetSearchAndFilter
         signIns={signIns}
@@ -289,7 +353,20 @@ const SignInSheetTable: React.FC = () => {
       <SignInDetailsDialog
         open={dialogOpen}
         onClose={handleCloseDialog}
-        signIn={selectedSignIn}
+        signIn={signIns.find(signIn => signIn.rowIndex === selectedSignIn?.rowIndex) ?? selectedSignIn}
+      />
+
+      <SignInFormDialog
+        open={addOpen}
+        onClose={() => setAddOpen(false)}
+        onSubmit={handleAddSignIn}
+        title="Add Sign-In"
+      />
+
+      <SignInMatchReviewDialog
+        open={reviewOpen}
+        onClose={() => setReviewOpen(false)}
+        matches={matches}
       />
     </>
   );
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  TextField,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { useSettings } from '../contexts/SettingsContext';
+import { KioskService } from '../services/KioskService';
+
+interface StaffPinDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onUnlock: () => void;
+  actionLabel: string;
+  helperText: string;
+}
+
+/**
+ * Asks for the staff PIN before leaving a scholar-facing sign-in screen
+ */
+export const StaffPinDialog: React.FC<StaffPinDialogProps> = ({
+  open,
+  onClose,
+  onUnlock,
+  actionLabel,
+  helperText,
+}) => {
+  const { state: settingsState } = useSettings();
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const { pinHash } = settingsState.settings.kiosk;
+
+  const handleUnlock = async () => {
+    // A missing PIN never unlocks; check-in and the kiosk can't be started without one
+    if (await KioskService.verifyPin(pin, pinHash)) {
+      onUnlock();
+    } else {
+      setPinError('Incorrect PIN');
+      setPin('');
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="xs"
+      fullWidth
+      slotProps={{
+        transition: {
+          onEnter: () => {
+            setPin('');
+            setPinError(null);
+          },
+        },
+      }}
+    >
+      <Box component="form" onSubmit={e => { e.preventDefault(); handleUnlock(); }}>
+        <DialogTitle>Staff PIN</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            autoFocus
+            type="password"
+            label="PIN"
+            value={pin}
+            onChange={e => {
+              setPin(e.target.value);
+              setPinError(null);
+            }}
+            error={!!pinError}
+            helperText={pinError ?? helperText}
+            slotProps={{ htmlInput: { inputMode: 'numeric', autoComplete: 'off' } }}
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={!pin}>
+            {actionLabel}
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Radio,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  CircularProgress,
+  alpha,
+} from '@mui/material';
+import { CallSplit } from '@mui/icons-material';
+import type { Student } from '../types';
+import {
+  getChangedFields,
+  getDefaultResolutions,
+  getStudentFieldValue,
+  normalizeFieldValue,
+  formatFieldValue,
+  mergeStudentVersions,
+} from '../utils/studentConflicts';
+import type { ConflictResolutionChoice } from '../utils/studentConflicts';
+
+interface StudentConflictDialogProps {
+  open: boolean;
+  base: Student; // The version the editor originally loaded
+  local: Student; // The user's edited version
+  remote: Student; // The version currently in Google Sheets
+  onResolve: (resolved: Student) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const StudentConflictDialog: React.FC<StudentConflictDialogProps> = ({
+  open,
+  base,
+  local,
+  remote,
+  onResolve,
+  onCancel,
+}) => {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolutionChoice>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const differingFields = useMemo(() => getChangedFields(local, remote), [local, remote]);
+
+  useEffect(() => {
+    if (open) {
+      setResolutions(getDefaultResolutions(base, local, remote));
+      setError(null);
+    }
+  }, [open, base, local, remote]);
+
+  const resolveWith = async (resolved: Student) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await onResolve(resolved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the resolved student');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChoice = (key: string, choice: ConflictResolutionChoice) => {
+    setResolutions(prev => ({ ...prev, [key]: choice }));
+  };
+
+  const isBothChanged = (key: string) => {
+    const baseValue = normalizeFieldValue(getStudentFieldValue(base, key));
+    return normalizeFieldValue(getStudentFieldValue(local, key)) !== baseValue &&
+           normalizeFieldValue(getStudentFieldValue(remote, key)) !== baseValue;
+  };
+
+  return (
+    <Dialog open={open} onClose={loading ? undefined : onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <CallSplit color="warning" />
+          Edit Conflict
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {remote.firstName} {remote.lastName} was changed in Google Sheets after you opened this form.
+          Choose which value to keep for each field, or keep one version entirely.
+        </Alert>
+
+        {differingFields.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Your changes match the current sheet values. Saving will not overwrite anything.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Field</TableCell>
+                <TableCell>Original</TableCell>
+                <TableCell>Yours</TableCell>
+                <TableCell>In Sheet</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {differingFields.map(field => (
+                <TableRow
+                  key={field.key}
+                  sx={isBothChanged(field.key) ? { bgcolor: (theme) => alpha(theme.palette.warning.main, 0.08) } : undefined}
+                >
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={600}>
+                      {field.label}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2" color="text.secondary">
+                      {formatFieldValue(getStudentFieldValue(base, field.key))}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                      <Radio
+                        size="small"
+                        checked={resolutions[field.key] === 'local'}
+                        onChange={() => handleChoice(field.key, 'local')}
+                        disabled={loading}
+                      />
+                      <Typography variant="body2">
+                        {formatFieldValue(getStudentFieldValue(local, field.key))}
+                      </Typography>
+                    </Box>
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                      <Radio
+                        size="small"
+                        checked={resolutions[field.key] === 'remote'}
+                        onChange={() => handleChoice(field.key, 'remote')}
+                        disabled={loading}
+                      />
+                      <Typography variant="body2">
+                        {formatFieldValue(getStudentFieldValue(remote, field.key))}
+                      </Typography>
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel} disabled={loading}>
+          Cancel
+        </Button>
+        <Button onClick={() => resolveWith(remote)} disabled={loading}>
+          Use Sheet Version
+        </Button>
+        <Button onClick={() => resolveWith(local)} disabled={loading}>
+          Keep Mine
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => resolveWith(mergeStudentVersions(local, remote, resolutions))}
+          disabled={loading}
+          startIcon={loading ? <CircularProgress size={20} /> : null}
+        >
+          {loading ? 'Saving...' : 'Save Merged'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
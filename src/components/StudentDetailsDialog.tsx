@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -10,6 +10,8 @@ import {
   Chip,
   Divider,
   IconButton,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import {
   Close,
@@ -19,22 +21,40 @@ import {
   Email,
   CalendarToday,
   TrendingUp,
+  EventAvailable,
+  QrCode,
 } from '@mui/icons-material';
 import type { Student } from '../types';
+import type { StudentAttendance } from '../types/signIn';
 import { useSettings } from '../contexts/SettingsContext';
+import { StudentHistoryTimeline } from './StudentHistoryTimeline';
+import { QrCodeDialog } from './QrCodeDialog';
+import { getStudentQrValue } from '../utils/checkIn';
+import { DataTransformService } from '../services/DataTransformService';
 
 interface StudentDetailsDialogProps {
   open: boolean;
   onClose: () => void;
   student: Student | null;
+  attendance?: StudentAttendance; // From sign-ins matched to this student
 }
 
 const StudentDetailsDialog: React.FC<StudentDetailsDialogProps> = ({
   open,
   onClose,
   student,
+  attendance,
 }) => {
   const { state: settingsState } = useSettings();
+  const [tab, setTab] = useState<'details' | 'history'>('details');
+  const [tabStudentId, setTabStudentId] = useState(student?.id);
+  const [qrOpen, setQrOpen] = useState(false);
+
+  // Open each student on the details tab
+  if (student?.id !== tabStudentId) {
+    setTabStudentId(student?.id);
+    setTab('details');
+  }
 
   if (!student) return null;
 
@@ -106,290 +126,361 @@ const StudentDetailsDialog: React.FC<StudentDetailsDialogProps> = ({
         </IconButton>
       </DialogTitle>
 
-      <DialogContent dividers>
-        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
-          {/* Personal Information */}
-          <Box>
-            <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
-              Personal Information
-            </Typography>
-            <Divider sx={{ mb: 2 }} />
-            
-            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 2 }}>
-              <Box>
-                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                  Full Name
-                </Typography>
-                <Typography variant="body1">
-                  {student.firstName} {student.lastName}
-                </Typography>
-              </Box>
-
-              <Box>
-                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                  Date of Birth
-                </Typography>
-                <Typography variant="body1">
-                  {formatDate(student.dob)}
-                </Typography>
-              </Box>
-
-              <Box>
-                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                  Graduation Year
-                </Typography>
-                <Typography variant="body1">
-                  {student.graduationYear}
-                </Typography>
-              </Box>
-            </Box>
-          </Box>
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ px: 3 }}>
+        <Tab label="Details" value="details" />
+        <Tab label="History" value="history" />
+      </Tabs>
 
-          {/* Contact Information */}
-          <Box>
-            <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
-              Contact Information
-            </Typography>
-            <Divider sx={{ mb: 2 }} />
-            
-            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <Email fontSize="small" color="action" />
+      <DialogContent dividers>
+        {tab === 'history' ? (
+          <StudentHistoryTimeline studentId={student.id} />
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+            {/* Personal Information */}
+            <Box>
+              <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
+                Personal Information
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 2 }}>
                 <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    Email
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    Full Name
                   </Typography>
                   <Typography variant="body1">
-                    {student.email || 'Not provided'}
+                    {student.firstName} {student.lastName}
                   </Typography>
                 </Box>
-              </Box>
 
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <Phone fontSize="small" color="action" />
                 <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    Cell Phone
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    Date of Birth
                   </Typography>
                   <Typography variant="body1">
-                    {formatPhoneNumber(student.cellNumber)}
+                    {formatDate(student.dob)}
                   </Typography>
                 </Box>
-              </Box>
-            </Box>
-          </Box>
 
-          {/* Parent Contact Information */}
-          <Box>
-            <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
-              Parent/Guardian Information
-            </Typography>
-            <Divider sx={{ mb: 2 }} />
-            
-            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr 1fr' }, gap: 2 }}>
-              <Box>
-                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                  Parent/Guardian Name
-                </Typography>
-                <Typography variant="body1">
-                  {student.parentName || 'Not provided'}
-                </Typography>
-              </Box>
-
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <Phone fontSize="small" color="action" />
                 <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    Parent Cell
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    Graduation Year
                   </Typography>
                   <Typography variant="body1">
-                    {formatPhoneNumber(student.parentCell)}
+                    {student.graduationYear}
                   </Typography>
                 </Box>
               </Box>
+            </Box>
 
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <Email fontSize="small" color="action" />
-                <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    Parent Email
-                  </Typography>
-                  <Typography variant="body1">
-                    {student.parentEmail || 'Not provided'}
-                  </Typography>
+            {/* Contact Information */}
+            <Box>
+              <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
+                Contact Information
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Email fontSize="small" color="action" />
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Email
+                    </Typography>
+                    <Typography variant="body1">
+                      {student.email || 'Not provided'}
+                    </Typography>
+                  </Box>
+                </Box>
+
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Phone fontSize="small" color="action" />
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Cell Phone
+                    </Typography>
+                    <Typography variant="body1">
+                      {formatPhoneNumber(student.cellNumber)}
+                    </Typography>
+                  </Box>
                 </Box>
               </Box>
             </Box>
-          </Box>
 
-          {/* Academic Information */}
-          <Box>
-            <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
-              Academic Information
-            </Typography>
-            <Divider sx={{ mb: 2 }} />
-            
-            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <School fontSize="small" color="action" />
+            {/* Parent Contact Information */}
+            <Box>
+              <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
+                Parent/Guardian Information
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr 1fr' }, gap: 2 }}>
                 <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    High School
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    Parent/Guardian Name
                   </Typography>
                   <Typography variant="body1">
-                    {student.highSchool || 'Not specified'}
+                    {student.parentName || 'Not provided'}
                   </Typography>
                 </Box>
-              </Box>
 
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <TrendingUp fontSize="small" color="action" />
-                <Box>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    Participation Points
-                  </Typography>
-                  <Typography variant="body1">
-                    {student.participationPoints || 0} points
-                  </Typography>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Phone fontSize="small" color="action" />
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Parent Cell
+                    </Typography>
+                    <Typography variant="body1">
+                      {formatPhoneNumber(student.parentCell)}
+                    </Typography>
+                  </Box>
+                </Box>
+
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Email fontSize="small" color="action" />
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Parent Email
+                    </Typography>
+                    <Typography variant="body1">
+                      {student.parentEmail || 'Not provided'}
+                    </Typography>
+                  </Box>
                 </Box>
               </Box>
             </Box>
-          </Box>
 
-          {/* Program Status */}
-          <Box>
-            <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
-              Program Status
-            </Typography>
-            <Divider sx={{ mb: 2 }} />
-            
-            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr 1fr' }, gap: 2 }}>
-              <Box>
-                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                  Parent Form
-                </Typography>
-                <Chip
-                  label={student.parentForm ? 'Complete' : 'Pending'}
-                  color={student.parentForm ? 'success' : 'default'}
-                  variant="outlined"
-                  size="small"
-                />
-              </Box>
+            {/* Academic Information */}
+            <Box>
+              <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
+                Academic Information
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <School fontSize="small" color="action" />
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      High School
+                    </Typography>
+                    <Typography variant="body1">
+                      {student.highSchool || 'Not specified'}
+                    </Typography>
+                  </Box>
+                </Box>
 
-              <Box>
-                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                  Career Exploration
-                </Typography>
-                <Chip
-                  label={student.careerExploration ? formatDate(student.careerExploration) : 'Not completed'}
-                  color={student.careerExploration ? 'info' : 'default'}
-                  variant="outlined"
-                  size="small"
-                />
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <TrendingUp fontSize="small" color="action" />
+                  <Box>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Participation Points
+                    </Typography>
+                    <Typography variant="body1">
+                      {student.participationPoints || 0} points
+                    </Typography>
+                  </Box>
+                </Box>
               </Box>
+            </Box>
 
-              <Box>
-                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                  College Exploration
-                </Typography>
-                <Chip
-                  label={student.collegeExploration ? formatDate(student.collegeExploration) : 'Not completed'}
-                  color={student.collegeExploration ? 'info' : 'default'}
-                  variant="outlined"
-                  size="small"
-                />
-              </Box>
+            {/* Program Status */}
+            <Box>
+              <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
+                Program Status
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr 1fr' }, gap: 2 }}>
+                <Box>
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    Parent Form
+                  </Typography>
+                  <Chip
+                    label={student.parentForm ? 'Complete' : 'Pending'}
+                    color={student.parentForm ? 'success' : 'default'}
+                    variant="outlined"
+                    size="small"
+                  />
+                </Box>
 
-              {student.collegeEnrolled !== undefined && (
                 <Box>
                   <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                    College Enrolled
+                    Career Exploration
                   </Typography>
                   <Chip
-                    label={student.collegeEnrolled ? 'Yes' : 'No'}
-                    color={student.collegeEnrolled ? 'success' : 'default'}
+                    label={student.careerExploration ? formatDate(student.careerExploration) : 'Not completed'}
+                    color={student.careerExploration ? 'info' : 'default'}
                     variant="outlined"
                     size="small"
                   />
                 </Box>
-              )}
-            </Box>
-          </Box>
 
-          {/* Additional Information */}
-          {(student.spreadsheetSubmitted || student.places !== undefined || student.lastModified || customColumns.length > 0) && (
-            <Box>
-              <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
-                Additional Information
-              </Typography>
-              <Divider sx={{ mb: 2 }} />
-              
-              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
-                {/* Custom Fields */}
-                {customColumns.map((column) => {
-                  const value = student.customFields?.[column.field];
-                  return (
-                    <Box key={column.id}>
-                      <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                        {column.headerName}
-                      </Typography>
-                      <Typography variant="body1">
-                        {formatCustomFieldValue(value, column.type)}
-                      </Typography>
-                      {column.description && (
-                        <Typography variant="caption" color="text.secondary">
-                          {column.description}
-                        </Typography>
-                      )}
-                    </Box>
-                  );
-                })}
+                <Box>
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    College Exploration
+                  </Typography>
+                  <Chip
+                    label={student.collegeExploration ? formatDate(student.collegeExploration) : 'Not completed'}
+                    color={student.collegeExploration ? 'info' : 'default'}
+                    variant="outlined"
+                    size="small"
+                  />
+                </Box>
 
-                {/* Existing fields */}
-                {student.spreadsheetSubmitted && (
+                {student.collegeEnrolled !== undefined && (
                   <Box>
                     <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                      Spreadsheet Submitted
-                    </Typography>
-                    <Typography variant="body1">
-                      {student.spreadsheetSubmitted}
+                      College Enrolled
                     </Typography>
+                    <Chip
+                      label={student.collegeEnrolled ? 'Yes' : 'No'}
+                      color={student.collegeEnrolled ? 'success' : 'default'}
+                      variant="outlined"
+                      size="small"
+                    />
                   </Box>
                 )}
+              </Box>
+            </Box>
 
-                {student.places !== undefined && (
+            {/* Attendance */}
+            <Box>
+              <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
+                Attendance
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 2 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <EventAvailable fontSize="small" color="action" />
                   <Box>
-                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                      Places
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Events Attended
                     </Typography>
-                    <Typography variant="body1">
-                      {student.places}
+                    <Typography variant="h6" fontWeight={600}>
+                      {attendance?.eventsAttended ?? 0}
                     </Typography>
                   </Box>
-                )}
+                </Box>
 
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                   <CalendarToday fontSize="small" color="action" />
                   <Box>
                     <Typography variant="subtitle2" color="text.secondary">
-                      Last Modified
+                      Last Seen
                     </Typography>
-                    <Typography variant="body2" color="text.secondary">
-                      {formatDate(student.lastModified)}
+                    <Typography variant="body1">
+                      {attendance?.lastSeen ? attendance.lastSeen.toLocaleDateString() : 'Never'}
                     </Typography>
                   </Box>
                 </Box>
               </Box>
+
+              {attendance && attendance.events.length > 0 ? (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {attendance.events.map(event => (
+                    <Chip
+                      key={`${event.event}-${event.rawDate}`}
+                      label={`${event.event}${event.date ? ` • ${event.date.toLocaleDateString()}` : event.rawDate ? ` • ${event.rawDate}` : ''}`}
+                      variant="outlined"
+                      size="small"
+                    />
+                  ))}
+                </Box>
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  No sign-ins matched to this student yet
+                </Typography>
+              )}
             </Box>
-          )}
-        </Box>
+
+            {/* Additional Information */}
+            {(student.spreadsheetSubmitted || student.places !== undefined || student.lastModified || customColumns.length > 0) && (
+              <Box>
+                <Typography variant="h6" gutterBottom color="primary" fontWeight={600}>
+                  Additional Information
+                </Typography>
+                <Divider sx={{ mb: 2 }} />
+                
+                <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+                  {/* Custom Fields */}
+                  {customColumns.map((column) => {
+                    const value = student.customFields?.[column.field];
+                    return (
+                      <Box key={column.id}>
+                        <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                          {column.headerName}
+                        </Typography>
+                        <Typography variant="body1">
+                          {formatCustomFieldValue(value, column.type)}
+                        </Typography>
+                        {column.description && (
+                          <Typography variant="caption" color="text.secondary">
+                            {column.description}
+                          </Typography>
+                        )}
+                      </Box>
+                    );
+                  })}
+
+                  {/* Existing fields */}
+                  {student.spreadsheetSubmitted && (
+                    <Box>
+                      <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                        Spreadsheet Submitted
+                      </Typography>
+                      <Typography variant="body1">
+                        {student.spreadsheetSubmitted}
+                      </Typography>
+                    </Box>
+                  )}
+
+                  {student.places !== undefined && (
+                    <Box>
+                      <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                        Places
+                      </Typography>
+                      <Typography variant="body1">
+                        {student.places}
+                      </Typography>
+                    </Box>
+                  )}
+
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <CalendarToday fontSize="small" color="action" />
+                    <Box>
+                      <Typography variant="subtitle2" color="text.secondary">
+                        Last Modified
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {formatDate(student.lastModified)}
+                      </Typography>
+                    </Box>
+                  </Box>
+                </Box>
+              </Box>
+            )}
+          </Box>
+        )}
       </DialogContent>
 
       <DialogActions sx={{ p: 2, gap: 1 }}>
+        <Button onClick={() => setQrOpen(true)} startIcon={<QrCode />} disabled={DataTransformService.isTemporaryStudentId(student.id)}>
+          QR Code
+        </Button>
         <Button onClick={onClose} variant="outlined">
           Close
         </Button>
       </DialogActions>
+
+      <QrCodeDialog
+        open={qrOpen}
+        onClose={() => setQrOpen(false)}
+        title={`${student.firstName} ${student.lastName}`}
+        value={getStudentQrValue(student.id)}
+        caption="Show this code to staff to sign in at events"
+      />
     </Dialog>
   );
 };
@@ -18,11 +18,17 @@ import {
 import type { Student } from '../types';
 import { useSettings } from '../contexts/SettingsContext';
 import { validateCustomFieldValue } from '../utils/customFieldValidation';
+import { StudentConflictError } from '../utils/studentConflicts';
+import { StudentConflictDialog } from './StudentConflictDialog';
+
+export interface StudentSubmitOptions {
+  baseVersion?: Student; // Sheet version the submitted values were based on, used to detect concurrent edits
+}
 
 interface StudentFormDialogProps {
   open: boolean;
   onClose: () => void;
-  onSubmit: (student: Omit<Student, 'id' | 'rowIndex' | 'lastModified'>) => Promise<void>;
+  onSubmit: (student: Omit<Student, 'id' | 'rowIndex' | 'lastModified'>, options?: StudentSubmitOptions) => Promise<void>;
   initialData?: Student | null;
   title: string;
 }
@@ -53,6 +59,7 @@ export const StudentFormDialog: React.FC<StudentFormDialogProps> = ({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [conflict, setConflict] = useState<{ local: Student; remote: Student } | null>(null);
 
   useEffect(() => {
     if (initialData) {
@@ -88,6 +95,7 @@ export const StudentFormDialog: React.FC<StudentFormDialogProps> = ({
     }
     setError(null);
     setFieldErrors({});
+    setConflict(null);
   }, [initialData, open]);
 
   const handleChange = (field: string, value: string | number | boolean) => {
@@ -173,20 +181,43 @@ export const StudentFormDialog: React.FC<StudentFormDialogProps> = ({
     setLoading(true);
     setError(null);
 
+    const studentData = {
+      ...formData,
+      dob: new Date(formData.dob),
+    };
+
     try {
-      const studentData = {
-        ...formData,
-        dob: new Date(formData.dob),
-      };
       await onSubmit(studentData);
       onClose();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      if (err instanceof StudentConflictError && initialData) {
+        setConflict({ local: { ...initialData, ...studentData }, remote: err.remote });
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  const handleConflictResolve = async (resolved: Student) => {
+    if (!conflict) return;
+
+    try {
+      // The sheet version we just compared against becomes the new base, so a further
+      // concurrent edit is still detected instead of silently overwritten
+      await onSubmit(resolved, { baseVersion: conflict.remote });
+      setConflict(null);
+      onClose();
+    } catch (err) {
+      if (err instanceof StudentConflictError) {
+        setConflict({ local: resolved, remote: err.remote });
+        return;
+      }
+      throw err;
+    }
+  };
+
   const handleClose = () => {
     if (!loading) {
       onClose();
@@ -301,186 +332,199 @@ export const StudentFormDialog: React.FC<StudentFormDialogProps> = ({
   };
 
   return (
-    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
-      <DialogTitle>{title}</DialogTitle>
-      <DialogContent>
-        <Box sx={{ pt: 2 }}>
-          {error && (
-            <Alert severity="error" sx={{ mb: 2 }}>
-              {error}
-            </Alert>
-          )}
-          
-          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
-            <TextField
-              label="First Name"
-              value={formData.firstName}
-              onChange={(e) => handleChange('firstName', e.target.value)}
-              required
-              disabled={loading}
-              fullWidth
-              error={!!fieldErrors.firstName}
-              helperText={fieldErrors.firstName}
-            />
-            <TextField
-              label="Last Name"
-              value={formData.lastName}
-              onChange={(e) => handleChange('lastName', e.target.value)}
-              required
-              disabled={loading}
-              fullWidth
-              error={!!fieldErrors.lastName}
-              helperText={fieldErrors.lastName}
-            />
-          </Box>
-
-          <TextField
-            label="Email"
-            type="email"
-            value={formData.email}
-            onChange={(e) => handleChange('email', e.target.value)}
-            required
-            disabled={loading}
-            fullWidth
-            sx={{ mb: 2 }}
-            error={!!fieldErrors.email}
-            helperText={fieldErrors.email}
-          />
+    <>
+      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ pt: 2 }}>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+            
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
+              <TextField
+                label="First Name"
+                value={formData.firstName}
+                onChange={(e) => handleChange('firstName', e.target.value)}
+                required
+                disabled={loading}
+                fullWidth
+                error={!!fieldErrors.firstName}
+                helperText={fieldErrors.firstName}
+              />
+              <TextField
+                label="Last Name"
+                value={formData.lastName}
+                onChange={(e) => handleChange('lastName', e.target.value)}
+                required
+                disabled={loading}
+                fullWidth
+                error={!!fieldErrors.lastName}
+                helperText={fieldErrors.lastName}
+              />
+            </Box>
 
-          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
-            <TextField
-              label="Cell Number"
-              value={formData.cellNumber}
-              onChange={(e) => handleChange('cellNumber', e.target.value)}
-              disabled={loading}
-              fullWidth
-              error={!!fieldErrors.cellNumber}
-              helperText={fieldErrors.cellNumber}
-            />
             <TextField
-              label="Date of Birth"
-              type="date"
-              value={formData.dob}
-              onChange={(e) => handleChange('dob', e.target.value)}
+              label="Email"
+              type="email"
+              value={formData.email}
+              onChange={(e) => handleChange('email', e.target.value)}
               required
               disabled={loading}
               fullWidth
-              InputLabelProps={{ shrink: true }}
-              error={!!fieldErrors.dob}
-              helperText={fieldErrors.dob}
+              sx={{ mb: 2 }}
+              error={!!fieldErrors.email}
+              helperText={fieldErrors.email}
             />
-          </Box>
 
-          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
-            <TextField
-              label="High School"
-              value={formData.highSchool}
-              onChange={(e) => handleChange('highSchool', e.target.value)}
-              required
-              disabled={loading}
-              fullWidth
-              error={!!fieldErrors.highSchool}
-              helperText={fieldErrors.highSchool}
-            />
-            <TextField
-              label="Graduation Year"
-              type="number"
-              value={formData.graduationYear}
-              onChange={(e) => handleChange('graduationYear', parseInt(e.target.value) || new Date().getFullYear())}
-              required
-              disabled={loading}
-              fullWidth
-              inputProps={{
-                min: new Date().getFullYear(),
-                max: new Date().getFullYear() + 10
-              }}
-              error={!!fieldErrors.graduationYear}
-              helperText={fieldErrors.graduationYear}
-            />
-          </Box>
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
+              <TextField
+                label="Cell Number"
+                value={formData.cellNumber}
+                onChange={(e) => handleChange('cellNumber', e.target.value)}
+                disabled={loading}
+                fullWidth
+                error={!!fieldErrors.cellNumber}
+                helperText={fieldErrors.cellNumber}
+              />
+              <TextField
+                label="Date of Birth"
+                type="date"
+                value={formData.dob}
+                onChange={(e) => handleChange('dob', e.target.value)}
+                required
+                disabled={loading}
+                fullWidth
+                InputLabelProps={{ shrink: true }}
+                error={!!fieldErrors.dob}
+                helperText={fieldErrors.dob}
+              />
+            </Box>
 
-          <Box sx={{ mb: 2 }}>
-            <TextField
-              label="Parent/Guardian Name"
-              value={formData.parentName}
-              onChange={(e) => handleChange('parentName', e.target.value)}
-              disabled={loading}
-              fullWidth
-              sx={{ mb: 2 }}
-              error={!!fieldErrors.parentName}
-              helperText={fieldErrors.parentName}
-            />
-            
-            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
               <TextField
-                label="Parent/Guardian Cell"
-                value={formData.parentCell}
-                onChange={(e) => handleChange('parentCell', e.target.value)}
+                label="High School"
+                value={formData.highSchool}
+                onChange={(e) => handleChange('highSchool', e.target.value)}
+                required
                 disabled={loading}
                 fullWidth
-                error={!!fieldErrors.parentCell}
-                helperText={fieldErrors.parentCell}
+                error={!!fieldErrors.highSchool}
+                helperText={fieldErrors.highSchool}
               />
               <TextField
-                label="Parent/Guardian Email"
-                type="email"
-                value={formData.parentEmail}
-                onChange={(e) => handleChange('parentEmail', e.target.value)}
+                label="Graduation Year"
+                type="number"
+                value={formData.graduationYear}
+                onChange={(e) => handleChange('graduationYear', parseInt(e.target.value) || new Date().getFullYear())}
+                required
                 disabled={loading}
                 fullWidth
-                error={!!fieldErrors.parentEmail}
-                helperText={fieldErrors.parentEmail}
+                inputProps={{
+                  min: new Date().getFullYear(),
+                  max: new Date().getFullYear() + 10
+                }}
+                error={!!fieldErrors.graduationYear}
+                helperText={fieldErrors.graduationYear}
               />
             </Box>
-          </Box>
 
-          <FormControl sx={{ mb: 2 }}>
-            <FormControlLabel
-              control={
-                <Checkbox
-                  checked={formData.parentForm}
-                  onChange={(e) => handleChange('parentForm', e.target.checked)}
+            <Box sx={{ mb: 2 }}>
+              <TextField
+                label="Parent/Guardian Name"
+                value={formData.parentName}
+                onChange={(e) => handleChange('parentName', e.target.value)}
+                disabled={loading}
+                fullWidth
+                sx={{ mb: 2 }}
+                error={!!fieldErrors.parentName}
+                helperText={fieldErrors.parentName}
+              />
+              
+              <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+                <TextField
+                  label="Parent/Guardian Cell"
+                  value={formData.parentCell}
+                  onChange={(e) => handleChange('parentCell', e.target.value)}
                   disabled={loading}
+                  fullWidth
+                  error={!!fieldErrors.parentCell}
+                  helperText={fieldErrors.parentCell}
                 />
-              }
-              label="Parent form submitted"
-            />
-          </FormControl>
+                <TextField
+                  label="Parent/Guardian Email"
+                  type="email"
+                  value={formData.parentEmail}
+                  onChange={(e) => handleChange('parentEmail', e.target.value)}
+                  disabled={loading}
+                  fullWidth
+                  error={!!fieldErrors.parentEmail}
+                  helperText={fieldErrors.parentEmail}
+                />
+              </Box>
+            </Box>
 
-          {/* Custom Fields Section */}
-          {settingsState.settings.dataDisplay.columnSettings.filter(col => col.isCustom && col.editable).length > 0 && (
-            <>
-              <Divider sx={{ my: 3 }} />
-              <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
-                Additional Information
-              </Typography>
-              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                Custom fields configured for your organization
-              </Typography>
-              
-              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
-                {settingsState.settings.dataDisplay.columnSettings
-                  .filter(col => col.isCustom && col.editable)
-                  .map(column => renderCustomField(column))
+            <FormControl sx={{ mb: 2 }}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={formData.parentForm}
+                    onChange={(e) => handleChange('parentForm', e.target.checked)}
+                    disabled={loading}
+                  />
                 }
-              </Box>
-            </>
-          )}
-        </Box>
-      </DialogContent>
-      <DialogActions>
-        <Button onClick={handleClose} disabled={loading}>
-          Cancel
-        </Button>
-        <Button
-          onClick={handleSubmit}
-          variant="contained"
-          disabled={loading}
-          startIcon={loading ? <CircularProgress size={20} /> : null}
-        >
-          {loading ? 'Saving...' : initialData ? 'Update' : 'Add'}
-        </Button>
-      </DialogActions>
-    </Dialog>
+                label="Parent form submitted"
+              />
+            </FormControl>
+
+            {/* Custom Fields Section */}
+            {settingsState.settings.dataDisplay.columnSettings.filter(col => col.isCustom && col.editable).length > 0 && (
+              <>
+                <Divider sx={{ my: 3 }} />
+                <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+                  Additional Information
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  Custom fields configured for your organization
+                </Typography>
+                
+                <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+                  {settingsState.settings.dataDisplay.columnSettings
+                    .filter(col => col.isCustom && col.editable)
+                    .map(column => renderCustomField(column))
+                  }
+                </Box>
+              </>
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            disabled={loading}
+            startIcon={loading ? <CircularProgress size={20} /> : null}
+          >
+            {loading ? 'Saving...' : initialData ? 'Update' : 'Add'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {conflict && initialData && (
+        <StudentConflictDialog
+          open={Boolean(conflict)}
+          base={initialData}
+          local={conflict.local}
+          remote={conflict.remote}
+          onResolve={handleConflictResolve}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+    </>
   );
 };
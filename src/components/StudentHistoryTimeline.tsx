@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Alert,
+  Button,
+  CircularProgress,
+  TextField,
+  MenuItem,
+  Paper,
+} from '@mui/material';
+import { ArrowForward, History, Refresh } from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import { auditLogService } from '../services/AuditLogService';
+import type { AuditAction, AuditLogEntry } from '../types';
+
+interface StudentHistoryTimelineProps {
+  studentId: string;
+}
+
+interface HistoryEvent {
+  timestamp: Date;
+  userEmail: string;
+  action: AuditAction;
+  changes: AuditLogEntry[];
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  add: 'Added',
+  update: 'Updated',
+  delete: 'Deleted',
+  archive: 'Archived',
+  restore: 'Restored',
+  rename: 'Renamed',
+  reorder: 'Reordered',
+};
+
+/**
+ * Group entries written by the same save into one event; entries arrive newest first
+ */
+const groupEntries = (entries: AuditLogEntry[]): HistoryEvent[] => {
+  const events: HistoryEvent[] = [];
+  entries.forEach(entry => {
+    const last = events[events.length - 1];
+    if (
+      last &&
+      last.timestamp.getTime() === entry.timestamp.getTime() &&
+      last.userEmail === entry.userEmail &&
+      last.action === entry.action
+    ) {
+      last.changes.push(entry);
+    } else {
+      events.push({ timestamp: entry.timestamp, userEmail: entry.userEmail, action: entry.action, changes: [entry] });
+    }
+  });
+  return events;
+};
+
+/**
+ * Timeline of a scholar's field-level changes, read from the change log
+ */
+export const StudentHistoryTimeline: React.FC<StudentHistoryTimelineProps> = ({ studentId }) => {
+  const { state: authState } = useAuth();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [field, setField] = useState('');
+
+  const loadHistory = useCallback(async () => {
+    const accessToken = authState.user?.accessToken;
+    if (!accessToken || !studentId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await auditLogService.fetchRowHistory(accessToken, 'student', studentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [authState.user?.accessToken, studentId]);
+
+  useEffect(() => {
+    setField('');
+    loadHistory();
+  }, [loadHistory]);
+
+  const fields = useMemo(
+    () => [...new Set(entries.map(entry => entry.field).filter(Boolean))].sort(),
+    [entries]
+  );
+
+  const events = useMemo(
+    () => groupEntries(field ? entries.filter(entry => entry.field === field) : entries),
+    [entries, field]
+  );
+
+  if (!studentId) {
+    return (
+      <Alert severity="info">
+        This student has no ID yet, so changes to it can't be tracked.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+        <TextField
+          select
+          size="small"
+          label="Field"
+          value={field}
+          onChange={e => setField(e.target.value)}
+          sx={{ minWidth: 220 }}
+        >
+          <MenuItem value="">All fields</MenuItem>
+          {fields.map(name => (
+            <MenuItem key={name} value={name}>{name}</MenuItem>
+          ))}
+        </TextField>
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={loadHistory} startIcon={<Refresh />} disabled={loading}>
+          Refresh
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : events.length === 0 ? (
+        <Box sx={{ textAlign: 'center', py: 4, color: 'text.secondary' }}>
+          <History sx={{ fontSize: 40, mb: 1 }} />
+          <Typography>
+            {entries.length === 0 ? 'No changes have been logged for this student yet' : 'No changes to this field'}
+          </Typography>
+        </Box>
+      ) : (
+        <Box sx={{ borderLeft: 2, borderColor: 'divider', ml: 1, pl: 3, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {events.map((event, index) => (
+            <Box key={`${event.timestamp.getTime()}-${index}`} sx={{ position: 'relative' }}>
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: -31,
+                  top: 4,
+                  width: 12,
+                  height: 12,
+                  borderRadius: '50%',
+                  bgcolor: event.action === 'update' ? 'primary.main' : 'secondary.main',
+                }}
+              />
+              <Typography variant="subtitle2" fontWeight={600}>
+                {actionLabels[event.action] ?? event.action}
+                <Typography component="span" variant="body2" color="text.secondary">
+                  {' '}• {event.timestamp.toLocaleString()}{event.userEmail && ` • ${event.userEmail}`}
+                </Typography>
+              </Typography>
+              {event.changes.some(change => change.field) && (
+                <Paper variant="outlined" sx={{ mt: 1, p: 1.5, display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                  {event.changes.filter(change => change.field).map(change => (
+                    <Box key={change.field} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                      <Typography variant="body2" fontWeight={500} sx={{ minWidth: 140 }}>
+                        {change.field}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary" sx={{ textDecoration: change.oldValue ? 'line-through' : 'none' }}>
+                        {change.oldValue || 'empty'}
+                      </Typography>
+                      <ArrowForward fontSize="inherit" color="action" />
+                      <Typography variant="body2">
+                        {change.newValue || 'empty'}
+                      </Typography>
+                    </Box>
+                  ))}
+                </Paper>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -17,7 +17,12 @@ import type { Student } from '../types';
  * - StudentTable receives the filtered students as props
  * - Eliminates context updates during search/filter operations
  */
-const StudentManagement: React.FC = () => {
+interface StudentManagementProps {
+  detailsStudentId?: string | null;
+  onDetailsChange?: (studentId: string | null) => void;
+}
+
+const StudentManagement: React.FC<StudentManagementProps> = ({ detailsStudentId, onDetailsChange }) => {
   const { state } = useData();
   const [filteredStudents, setFilteredStudents] = useState<Student[]>(state.students);
 
@@ -26,16 +31,19 @@ const StudentManagement: React.FC = () => {
     setFilteredStudents(filtered);
   }, []);
 
-  // Update filtered students when raw students data changes (e.g., after CRUD operations)
-  React.useEffect(() => {
-    setFilteredStudents(state.students);
-  }, [state.students]);
+  // No reset effect on state.students: SearchAndFilter re-filters whenever the raw data
+  // changes (CRUD or background sync) and reports back through handleFilter, so the
+  // user's current search and filters are preserved
 
   return (
     <Box>
       <SearchAndFilter onFilter={handleFilter} />
       <Box sx={{ mt: 2 }}>
-        <StudentTable filteredStudents={filteredStudents} />
+        <StudentTable
+          filteredStudents={filteredStudents}
+          detailsStudentId={detailsStudentId}
+          onDetailsChange={onDetailsChange}
+        />
       </Box>
     </Box>
   );
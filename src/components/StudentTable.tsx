@@ -1,37 +1,96 @@
-import React, { useMemo, useState, useCallback } from 'react';
+import React, { useMemo, useState, useCallback, useEffect, useRef } from 'react';
 import {
   DataGrid,
   GridActionsCellItem,
 } from '@mui/x-data-grid';
-import type { GridColDef, GridRowParams } from '@mui/x-data-grid';
+import type { GridCellParams, GridColDef, GridRowParams, GridRowSelectionModel } from '@mui/x-data-grid';
 import {
   Box,
   Button,
   Chip,
   Tooltip,
   Snackbar,
-  Alert
+  Alert,
+  Typography,
 } from '@mui/material';
 import {
   Add,
   Edit,
   Delete,
+  CloudSync,
+  EditNote,
+  EmojiEvents,
+  Clear,
+  Inventory2,
+  ContentCopy,
 } from '@mui/icons-material';
 import { useData } from '../contexts/DataContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useSettings } from '../contexts/SettingsContext';
+import { useAttendance } from '../hooks/useAttendance';
 import { StudentFormDialog } from './StudentFormDialog.tsx';
+import type { StudentSubmitOptions } from './StudentFormDialog.tsx';
+import { StudentConflictError } from '../utils/studentConflicts';
 import { DeleteConfirmationDialog } from './DeleteConfirmationDialog.tsx';
 import StudentDetailsDialog from './StudentDetailsDialog';
 import ColumnVisibilityButton from './ColumnVisibilityButton';
-import type { Student } from '../types';
+import { PendingSyncPanel } from './PendingSyncPanel';
+import { ArchivedStudentsDialog } from './ArchivedStudentsDialog';
+import { DuplicateStudentsDialog } from './DuplicateStudentsDialog';
+import { BulkActionDialog } from './BulkActionDialog';
+import type { BulkActionType } from './BulkActionDialog';
+import ExportButton from './ExportButton';
+import { getBulkFields, describeBulkAction } from '../utils/bulkActions';
+import type { BulkAction } from '../utils/bulkActions';
+import { describeHistoryEntry, isTextEditingTarget } from '../utils/studentHistory';
+import { DataTransformService } from '../services/DataTransformService';
+import { validateCustomFieldValue } from '../utils/customFieldValidation';
+import type { ColumnSettings } from '../contexts/SettingsContext';
+import type { Student, OutboxEntry } from '../types';
 
 interface StudentTableProps {
   filteredStudents?: Student[]; // Optional prop for local filtering mode
+  // Let the parent decide which student's details are open, e.g. from the URL
+  detailsStudentId?: string | null;
+  onDetailsChange?: (studentId: string | null) => void;
 }
 
-const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilteredStudents }) => {
-  const { state, addStudent, updateStudent, deleteStudent } = useData();
+// Editable columns use the DataGrid editor matching their type
+const getColumnType = (columnSetting: ColumnSettings): GridColDef['type'] => {
+  if (columnSetting.type === 'number') return 'number';
+  if (!columnSetting.editable) return undefined;
+  if (columnSetting.type === 'date') return 'date';
+  if (columnSetting.type === 'boolean') return 'boolean';
+  return undefined;
+};
+
+const toEditValue = (value: unknown, type: ColumnSettings['type']): unknown => {
+  if (value === undefined || value === null || value === '') {
+    return type === 'boolean' ? false : null;
+  }
+  switch (type) {
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(String(value));
+      return isNaN(date.getTime()) ? null : date;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : ['yes', 'true', 'x', '1'].includes(String(value).trim().toLowerCase());
+    case 'number':
+      return Number(value);
+    default:
+      return value;
+  }
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  return (a ?? '') === (b ?? '');
+};
+
+const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilteredStudents, detailsStudentId, onDetailsChange }) => {
+  const { state, addStudent, updateStudent, updateStudentCells, deleteStudent, archiveStudent, bulkUpdateStudents, bulkDeleteStudents, undo, redo } = useData();
   const { state: authState } = useAuth();
   const { state: settingsState } = useSettings();
   
@@ -44,13 +103,37 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
+  const [pendingPanelOpen, setPendingPanelOpen] = useState(false);
+  const [archiveDialogOpen, setArchiveDialogOpen] = useState(false);
+  const [duplicatesDialogOpen, setDuplicatesDialogOpen] = useState(false);
+  const [bulkActionType, setBulkActionType] = useState<BulkActionType | null>(null);
+  const [rowSelectionModel, setRowSelectionModel] = useState<GridRowSelectionModel>({ type: 'include', ids: new Set() });
   
   // Notification state
   const [notification, setNotification] = useState<{
     open: boolean;
     message: string;
-    severity: 'success' | 'error';
+    severity: 'success' | 'error' | 'info';
+    action?: 'undo' | 'redo'; // Offer to undo or redo the change just made
   }>({ open: false, message: '', severity: 'success' });
+  const historyBusyRef = useRef(false);
+
+  const attendance = useAttendance();
+
+  // Sync status of students with changes waiting in the offline outbox (latest entry wins)
+  const syncStatusById = useMemo(() => {
+    const statuses = new Map<string, OutboxEntry['status']>();
+    state.outbox.forEach(entry => {
+      if (!('student' in entry.mutation)) return;
+      const studentId = entry.mutation.student.id;
+      if (statuses.get(studentId) !== 'failed') {
+        statuses.set(studentId, entry.status);
+      }
+    });
+    return statuses;
+  }, [state.outbox]);
+
+  const queuedMessage = 'Saved offline. It will sync to Google Sheets when the connection returns.';
 
   // Function to create column definitions based on settings
   const createColumnFromSettings = (columnSetting: any): GridColDef => {
@@ -59,9 +142,20 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
       headerName: columnSetting.headerName,
       width: columnSetting.width,
       editable: columnSetting.editable,
-      type: columnSetting.type === 'number' ? 'number' : undefined,
+      type: getColumnType(columnSetting),
     };
 
+    // Date editors need Date values, and custom fields live under row.customFields
+    if (columnSetting.isCustom) {
+      baseColumn.valueGetter = (_value, row) => toEditValue(row.customFields?.[columnSetting.field], columnSetting.type);
+      baseColumn.valueSetter = (value, row) => ({
+        ...row,
+        customFields: { ...row.customFields, [columnSetting.field]: value === null || value === '' ? undefined : value }
+      });
+    } else if (columnSetting.type === 'date') {
+      baseColumn.valueGetter = (value) => toEditValue(value, 'date');
+    }
+
     // Add custom rendering based on field type
     switch (columnSetting.field) {
       case 'email':
@@ -303,6 +397,52 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
       });
     });
     
+    // Show which rows are still waiting to be written to Google Sheets
+    const syncStatusColumns: GridColDef[] = syncStatusById.size > 0 ? [{
+      field: '__syncStatus',
+      headerName: 'Sync',
+      width: 130,
+      sortable: false,
+      filterable: false,
+      renderCell: (params) => {
+        const status = syncStatusById.get(params.row.id);
+        if (!status) return null;
+        return (
+          <Box sx={{ display: 'flex', alignItems: 'center', minHeight: 36 }}>
+            <Chip
+              label={status === 'failed' ? 'Sync failed' : 'Pending sync'}
+              color={status === 'failed' ? 'error' : 'warning'}
+              variant="outlined"
+              size="small"
+            />
+          </Box>
+        );
+      },
+    }] : [];
+    
+    // Attendance from sign-ins; value getters make these sortable and filterable like sheet columns
+    const attendanceColumns: GridColDef[] = [
+      {
+        field: '__eventsAttended',
+        headerName: 'Events Attended',
+        type: 'number',
+        width: 140,
+        valueGetter: (_value, row: Student) => attendance.get(row.id)?.eventsAttended ?? 0,
+      },
+      {
+        field: '__lastSeen',
+        headerName: 'Last Seen',
+        type: 'date',
+        width: 130,
+        valueGetter: (_value, row: Student) => attendance.get(row.id)?.lastSeen ?? null,
+        renderCell: (params) => (
+          <Box sx={{ display: 'flex', alignItems: 'center', minHeight: 36 }}>
+            {params.value ? (params.value as Date).toLocaleDateString() : '-'}
+          </Box>
+        ),
+      },
+    ];
+
     // Always add actions column at the end
     const actionsColumn: GridColDef = {
       field: 'actions',
@@ -333,8 +473,8 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
       ],
     };
 
-    return [...validatedColumns, actionsColumn];
-  }, [settingsState.settings.dataDisplay.columnSettings]);
+    return [...syncStatusColumns, ...validatedColumns, ...attendanceColumns, actionsColumn];
+  }, [settingsState.settings.dataDisplay.columnSettings, syncStatusById, attendance]);
 
   // Memoize event handlers to prevent unnecessary re-renders
   const handleEdit = useCallback((student: Student) => {
@@ -355,12 +495,10 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
     if (!authState.user?.accessToken) return;
     
     try {
-      await addStudent(authState.user.accessToken, studentData);
-      setNotification({
-        open: true,
-        message: 'Student added successfully!',
-        severity: 'success'
-      });
+      const result = await addStudent(authState.user.accessToken, studentData);
+      setNotification(result === 'queued'
+        ? { open: true, message: queuedMessage, severity: 'info' }
+        : { open: true, message: 'Student added successfully!', severity: 'success', action: 'undo' });
     } catch (error) {
       setNotification({
         open: true,
@@ -371,7 +509,10 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
     }
   };
 
-  const handleEditSubmit = async (studentData: Omit<Student, 'id' | 'rowIndex' | 'lastModified'>) => {
+  const handleEditSubmit = async (
+    studentData: Omit<Student, 'id' | 'rowIndex' | 'lastModified'>,
+    options?: StudentSubmitOptions
+  ) => {
     if (!selectedStudent || !authState.user?.accessToken) return;
     
     try {
@@ -380,13 +521,13 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
         ...studentData,
         lastModified: new Date(),
       };
-      await updateStudent(authState.user.accessToken, updatedStudent);
-      setNotification({
-        open: true,
-        message: 'Student updated successfully!',
-        severity: 'success'
-      });
+      const result = await updateStudent(authState.user.accessToken, updatedStudent, options?.baseVersion ?? selectedStudent);
+      setNotification(result === 'queued'
+        ? { open: true, message: queuedMessage, severity: 'info' }
+        : { open: true, message: 'Student updated successfully!', severity: 'success', action: 'undo' });
     } catch (error) {
+      // Conflicts are resolved in the form dialog rather than reported as failures
+      if (error instanceof StudentConflictError) throw error;
       setNotification({
         open: true,
         message: 'Failed to update student. Please try again.',
@@ -400,12 +541,10 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
     if (!selectedStudent || !authState.user?.accessToken) return;
     
     try {
-      await deleteStudent(authState.user.accessToken, selectedStudent.id);
-      setNotification({
-        open: true,
-        message: 'Student deleted successfully!',
-        severity: 'success'
-      });
+      const result = await deleteStudent(authState.user.accessToken, selectedStudent.id);
+      setNotification(result === 'queued'
+        ? { open: true, message: queuedMessage, severity: 'info' }
+        : { open: true, message: 'Student deleted successfully!', severity: 'success', action: 'undo' });
     } catch (error) {
       setNotification({
         open: true,
@@ -416,16 +555,164 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
     }
   };
 
+  const handleArchiveConfirm = async () => {
+    if (!selectedStudent || !authState.user?.accessToken) return;
+    
+    await archiveStudent(authState.user.accessToken, selectedStudent.id);
+    setNotification({
+      open: true,
+      message: `${selectedStudent.firstName} ${selectedStudent.lastName} was archived. Restore them from Archived Students.`,
+      severity: 'success'
+    });
+  };
+
   const handleCloseNotification = () => {
     setNotification(prev => ({ ...prev, open: false }));
   };
 
-  // Handle row click to show student details
-  const handleRowClick = (params: GridRowParams) => {
-    setSelectedStudent(params.row as Student);
+  const handleHistory = useCallback(async (direction: 'undo' | 'redo') => {
+    if (!authState.user?.accessToken || historyBusyRef.current) return;
+    historyBusyRef.current = true;
+
+    try {
+      const entry = direction === 'undo'
+        ? await undo(authState.user.accessToken)
+        : await redo(authState.user.accessToken);
+      setNotification(entry
+        ? {
+            open: true,
+            message: `${direction === 'undo' ? 'Undid' : 'Redid'}: ${describeHistoryEntry(entry)}`,
+            severity: 'info',
+            action: direction === 'undo' ? 'redo' : 'undo'
+          }
+        : { open: true, message: `Nothing to ${direction}.`, severity: 'info' });
+    } catch (error) {
+      setNotification({
+        open: true,
+        message: error instanceof Error ? error.message : `Failed to ${direction}. Please try again.`,
+        severity: 'error'
+      });
+    } finally {
+      historyBusyRef.current = false;
+    }
+  }, [authState.user?.accessToken, undo, redo]);
+
+  // Ctrl+Z / Cmd+Z to undo; Ctrl+Shift+Z, Cmd+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextEditingTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        handleHistory(event.shiftKey ? 'redo' : 'undo');
+      } else if (key === 'y') {
+        event.preventDefault();
+        handleHistory('redo');
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleHistory]);
+
+  // Validate an inline edit and write the changed cell back to the sheet. Throwing
+  // makes the grid keep the previous value, and the error is shown as a toast.
+  const processRowUpdate = async (newRow: Student, oldRow: Student): Promise<Student> => {
+    const changedColumns = settingsState.settings.dataDisplay.columnSettings.filter(column => column.editable && (
+      column.isCustom
+        ? !isSameValue(newRow.customFields?.[column.field], oldRow.customFields?.[column.field])
+        : !isSameValue(newRow[column.field as keyof Student], oldRow[column.field as keyof Student])
+    ));
+    if (changedColumns.length === 0) return oldRow;
+
+    for (const column of changedColumns) {
+      if (column.isCustom) {
+        const result = validateCustomFieldValue(newRow.customFields?.[column.field], column);
+        if (!result.isValid) throw new Error(result.error);
+      } else {
+        const error = DataTransformService.validateStudent(newRow).errors[column.field];
+        if (error) throw new Error(error);
+      }
+    }
+
+    if (!authState.user?.accessToken) {
+      throw new Error('Sign in again to save changes.');
+    }
+    const original = filteredStudents.find(student => student.id === oldRow.id) ?? oldRow;
+    const updated: Student = { ...original, ...newRow, lastModified: new Date() };
+    const result = await updateStudentCells(authState.user.accessToken, original, updated);
+    setNotification(result === 'queued'
+      ? { open: true, message: queuedMessage, severity: 'info' }
+      : { open: true, message: 'Change saved.', severity: 'success', action: 'undo' });
+    return updated;
+  };
+
+  const handleProcessRowUpdateError = (error: unknown) => {
+    setNotification({
+      open: true,
+      message: error instanceof Error ? `Change not saved: ${error.message}` : 'Failed to save the change. Please try again.',
+      severity: 'error'
+    });
+  };
+
+  // Handle cell click to show student details; the checkbox, actions and editable cells keep their own behaviour
+  const handleCellClick = (params: GridCellParams) => {
+    if (params.field === '__check__' || params.field === 'actions' || params.isEditable) return;
+    const student = params.row as Student;
+    if (onDetailsChange) {
+      onDetailsChange(student.id);
+      return;
+    }
+    setSelectedStudent(student);
     setDetailsDialogOpen(true);
   };
 
+  const detailsStudent = onDetailsChange
+    ? state.students.find(student => student.id === detailsStudentId) ?? null
+    : selectedStudent;
+  const handleDetailsClose = () => {
+    if (onDetailsChange) {
+      onDetailsChange(null);
+    } else {
+      setDetailsDialogOpen(false);
+    }
+  };
+
+  // Selected students among the rows currently shown
+  const selectedStudents = useMemo(() => {
+    const { type, ids } = rowSelectionModel;
+    return filteredStudents.filter(student => type === 'include' ? ids.has(student.id) : !ids.has(student.id));
+  }, [filteredStudents, rowSelectionModel]);
+
+  const bulkFields = useMemo(
+    () => getBulkFields(settingsState.settings.dataDisplay.columnSettings),
+    [settingsState.settings.dataDisplay.columnSettings]
+  );
+
+  const clearSelection = () => {
+    setRowSelectionModel({ type: 'include', ids: new Set() });
+  };
+
+  const handleBulkConfirm = async (action: BulkAction, changedStudents: Student[]) => {
+    if (!authState.user?.accessToken) return;
+
+    if (action.type === 'delete') {
+      await bulkDeleteStudents(authState.user.accessToken, changedStudents.map(student => student.id));
+    } else {
+      await bulkUpdateStudents(authState.user.accessToken, changedStudents);
+    }
+
+    const count = `${changedStudents.length} student${changedStudents.length === 1 ? '' : 's'}`;
+    setNotification({
+      open: true,
+      message: action.type === 'delete'
+        ? `Deleted ${count} in one batch.`
+        : `${describeBulkAction(action)}: updated ${count} in one batch.`,
+      severity: 'success'
+    });
+    clearSelection();
+  };
+
   // Memoize the rows transformation to avoid recalculating on every render
   // Only recalculate when filteredStudents actually changes
   const rows = useMemo(() => {
@@ -438,10 +725,54 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
   return (
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
-        <Box>
-          {/* Table controls could go here if needed */}
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+          {selectedStudents.length > 0 && (
+            <>
+              <Typography variant="body2" sx={{ fontWeight: 600, mr: 1 }}>
+                {selectedStudents.length} selected
+              </Typography>
+              <Button size="small" startIcon={<EditNote />} onClick={() => setBulkActionType('setField')} disabled={!navigator.onLine}>
+                Set Field
+              </Button>
+              <Button size="small" startIcon={<EmojiEvents />} onClick={() => setBulkActionType('addPoints')} disabled={!navigator.onLine}>
+                Add Points
+              </Button>
+              <Button size="small" color="error" startIcon={<Delete />} onClick={() => setBulkActionType('delete')} disabled={!navigator.onLine}>
+                Delete
+              </Button>
+              <ExportButton filteredStudents={selectedStudents} />
+              <Tooltip title="Clear selection">
+                <Button size="small" startIcon={<Clear />} onClick={clearSelection}>
+                  Clear
+                </Button>
+              </Tooltip>
+            </>
+          )}
+          {state.outbox.length > 0 && (
+            <Chip
+              icon={<CloudSync />}
+              label={`${state.outbox.length} change${state.outbox.length === 1 ? '' : 's'} pending sync`}
+              color={state.outbox.some(entry => entry.status === 'failed') ? 'error' : 'warning'}
+              variant="outlined"
+              onClick={() => setPendingPanelOpen(true)}
+            />
+          )}
         </Box>
         <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <Button
+            variant="outlined"
+            startIcon={<ContentCopy />}
+            onClick={() => setDuplicatesDialogOpen(true)}
+          >
+            Duplicates
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Inventory2 />}
+            onClick={() => setArchiveDialogOpen(true)}
+          >
+            Archived
+          </Button>
           <ColumnVisibilityButton />
           <Button
             variant="contained"
@@ -466,9 +797,14 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
             },
           }}
           pageSizeOptions={[10, 25, 50, 100]}
-          checkboxSelection={false}
+          checkboxSelection
+          disableRowSelectionOnClick
+          rowSelectionModel={rowSelectionModel}
+          onRowSelectionModelChange={setRowSelectionModel}
           loading={state.loading}
-          onRowClick={handleRowClick}
+          onCellClick={handleCellClick}
+          processRowUpdate={processRowUpdate}
+          onProcessRowUpdateError={handleProcessRowUpdateError}
           sx={{
             '& .MuiDataGrid-cell:focus': {
               outline: 'none',
@@ -503,14 +839,54 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
         open={deleteDialogOpen}
         onClose={() => setDeleteDialogOpen(false)}
         onConfirm={handleDeleteConfirm}
+        onArchive={handleArchiveConfirm}
         student={selectedStudent}
       />
 
+      {/* Duplicate Students Dialog */}
+      <DuplicateStudentsDialog
+        open={duplicatesDialogOpen}
+        onClose={() => setDuplicatesDialogOpen(false)}
+        onMerged={(survivor, duplicate) => setNotification({
+          open: true,
+          message: `${duplicate.firstName} ${duplicate.lastName} was merged into ${survivor.firstName} ${survivor.lastName}.`,
+          severity: 'success'
+        })}
+      />
+
+      {/* Archived Students Dialog */}
+      <ArchivedStudentsDialog
+        open={archiveDialogOpen}
+        onClose={() => setArchiveDialogOpen(false)}
+        onRestored={student => setNotification({
+          open: true,
+          message: `${student.firstName} ${student.lastName} was restored.`,
+          severity: 'success'
+        })}
+      />
+
       {/* Student Details Dialog */}
       <StudentDetailsDialog
-        open={detailsDialogOpen}
-        onClose={() => setDetailsDialogOpen(false)}
-        student={selectedStudent}
+        open={onDetailsChange ? !!detailsStudent : detailsDialogOpen}
+        onClose={handleDetailsClose}
+        student={detailsStudent}
+        attendance={detailsStudent ? attendance.get(detailsStudent.id) : undefined}
+      />
+
+      {/* Bulk Action Dialog */}
+      <BulkActionDialog
+        open={bulkActionType !== null}
+        actionType={bulkActionType}
+        students={selectedStudents}
+        fields={bulkFields}
+        onClose={() => setBulkActionType(null)}
+        onConfirm={handleBulkConfirm}
+      />
+
+      {/* Offline Outbox Review Panel */}
+      <PendingSyncPanel
+        open={pendingPanelOpen}
+        onClose={() => setPendingPanelOpen(false)}
       />
 
       {/* Success/Error Notification */}
@@ -524,6 +900,19 @@ const StudentTable: React.FC<StudentTableProps> = ({ filteredStudents: propFilte
           onClose={handleCloseNotification} 
           severity={notification.severity}
           sx={{ width: '100%' }}
+          action={notification.action && (
+            <Button
+              color="inherit"
+              size="small"
+              onClick={() => {
+                const { action } = notification;
+                handleCloseNotification();
+                if (action) handleHistory(action);
+              }}
+            >
+              {notification.action === 'undo' ? 'Undo' : 'Redo'}
+            </Button>
+          )}
         >
           {notification.message}
         </Alert>
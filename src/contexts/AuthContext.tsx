@@ -1,12 +1,13 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react';
 import type { ReactNode } from 'react';
 import type { AuthState, User } from '../types';
+import { auditLogService } from '../services/AuditLogService';
 
 interface AuthContextType {
   state: AuthState;
-  login: (accessToken: string, user: Omit<User, 'accessToken' | 'tokenExpiry'>) => void;
+  login: (accessToken: string, user: Omit<User, 'accessToken' | 'tokenExpiry'>, expiresIn?: number) => void;
   logout: () => void;
-  refreshToken: (newAccessToken: string) => void;
+  refreshToken: (newAccessToken: string, expiresIn?: number) => void;
   isTokenExpired: () => boolean;
 }
 
@@ -17,7 +18,7 @@ type AuthAction =
   | { type: 'LOGIN_SUCCESS'; payload: User }
   | { type: 'LOGIN_ERROR'; payload: string }
   | { type: 'LOGOUT' }
-  | { type: 'REFRESH_TOKEN'; payload: string };
+  | { type: 'REFRESH_TOKEN'; payload: { accessToken: string; tokenExpiry: Date } };
 
 const authReducer = (state: AuthState, action: AuthAction): AuthState => {
   switch (action.type) {
@@ -57,8 +58,8 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         ...state,
         user: state.user ? {
           ...state.user,
-          accessToken: action.payload,
-          tokenExpiry: new Date(Date.now() + 3600000) // 1 hour from now
+          accessToken: action.payload.accessToken,
+          tokenExpiry: action.payload.tokenExpiry
         } : null
       };
     
@@ -74,6 +75,14 @@ const initialState: AuthState = {
   error: null
 };
 
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600; // Google access tokens last 1 hour
+
+// Helper function to compute when a token expires from Google's expires_in (seconds)
+const getTokenExpiry = (expiresIn?: number): Date => {
+  const lifetime = expiresIn && expiresIn > 0 ? expiresIn : DEFAULT_TOKEN_LIFETIME_SECONDS;
+  return new Date(Date.now() + lifetime * 1000);
+};
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -81,6 +90,12 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
+  // Changes written to Google Sheets are logged against the signed-in user
+  const userEmail = state.user?.email;
+  useEffect(() => {
+    auditLogService.setUserEmail(userEmail);
+  }, [userEmail]);
+
   // Load user from localStorage on mount
   useEffect(() => {
     console.log('🔍 AuthContext: Checking localStorage for stored user...');
@@ -131,14 +146,37 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, [state.user]);
 
-  const login = (accessToken: string, userInfo: Omit<User, 'accessToken' | 'tokenExpiry'>) => {
+  // Follow logins and logouts made in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== 'studentApp_user') return;
+
+      if (!event.newValue) {
+        console.log('🚪 Logged out in another tab');
+        dispatch({ type: 'LOGOUT' });
+        return;
+      }
+
+      try {
+        const user: User = JSON.parse(event.newValue);
+        dispatch({ type: 'LOGIN_SUCCESS', payload: user });
+      } catch (error) {
+        console.error('❌ Error parsing user from another tab:', error);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const login = (accessToken: string, userInfo: Omit<User, 'accessToken' | 'tokenExpiry'>, expiresIn?: number) => {
     dispatch({ type: 'LOGIN_START' });
     
     try {
       const user: User = {
         ...userInfo,
         accessToken,
-        tokenExpiry: new Date(Date.now() + 3600000) // 1 hour from now
+        tokenExpiry: getTokenExpiry(expiresIn)
       };
       
       dispatch({ type: 'LOGIN_SUCCESS', payload: user });
@@ -151,9 +189,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     dispatch({ type: 'LOGOUT' });
   };
 
-  const refreshToken = (newAccessToken: string) => {
-    dispatch({ type: 'REFRESH_TOKEN', payload: newAccessToken });
-  };
+  const refreshToken = useCallback((newAccessToken: string, expiresIn?: number) => {
+    dispatch({
+      type: 'REFRESH_TOKEN',
+      payload: { accessToken: newAccessToken, tokenExpiry: getTokenExpiry(expiresIn) }
+    });
+  }, []);
 
   const isTokenExpired = (): boolean => {
     if (!state.user?.tokenExpiry) return true;
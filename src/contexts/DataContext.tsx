@@ -1,18 +1,55 @@
-import React, { createContext, useContext, useReducer, useCallback, useMemo } from 'react';
+import React, { createContext, useContext, useReducer, useCallback, useMemo, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
-import type { DataState, Student, FilterOptions, SortOption } from '../types';
+import type { DataState, Student, FilterOptions, SortOption, OutboxEntry, PendingMutation, MutationResult, StudentFetchResult, StudentHistoryEntry } from '../types';
 import { googleSheetsService } from '../services/GoogleSheetsService';
+import { DataTransformService } from '../services/DataTransformService';
+import { offlineQueueService, isNetworkError, applyPendingMutations, getMutationTarget } from '../services/OfflineQueueService';
+import { signInSheetService } from '../services/SignInSheetService';
+import { AttendanceService } from '../services/AttendanceService';
+import { DataCacheService } from '../services/DataCacheService';
+import { studentArchiveService } from '../services/StudentArchiveService';
+import { useDataSource } from '../hooks/useDataSource';
+import { StudentConflictError } from '../utils/studentConflicts';
+import { useAuth } from './AuthContext';
 
 interface DataContextType {
   state: DataState;
   fetchStudents: (accessToken: string) => Promise<void>;
-  addStudent: (accessToken: string, student: Partial<Student>) => Promise<void>;
-  updateStudent: (accessToken: string, student: Student) => Promise<void>;
-  deleteStudent: (accessToken: string, studentId: string) => Promise<void>;
+  syncStudents: (accessToken: string) => Promise<void>;
+  addStudent: (accessToken: string, student: Partial<Student>) => Promise<MutationResult>;
+  updateStudent: (accessToken: string, student: Student, baseVersion?: Student) => Promise<MutationResult>;
+  updateStudentCells: (accessToken: string, original: Student, updated: Student) => Promise<MutationResult>;
+  deleteStudent: (accessToken: string, studentId: string) => Promise<MutationResult>;
+  // Archive methods: archived scholars move to the archive tab instead of being deleted
+  archiveStudent: (accessToken: string, studentId: string) => Promise<void>;
+  restoreStudent: (accessToken: string, studentId: string) => Promise<Student>;
+  // Save the merged survivor of two duplicates, then archive or delete the other record
+  mergeStudents: (
+    accessToken: string,
+    merged: Student,
+    original: Student,
+    duplicateId: string,
+    removal: 'archive' | 'delete'
+  ) => Promise<Student>;
+  // Bulk methods, each written to the sheet as a single batchUpdate
+  bulkUpdateStudents: (accessToken: string, students: Student[]) => Promise<void>;
+  bulkDeleteStudents: (accessToken: string, studentIds: string[]) => Promise<void>;
+  // Undo/redo of this session's changes; resolve to the entry applied, or null when there is none
+  undo: (accessToken: string) => Promise<StudentHistoryEntry | null>;
+  redo: (accessToken: string) => Promise<StudentHistoryEntry | null>;
+  // Offline outbox methods
+  queueMutation: (mutation: PendingMutation) => Promise<MutationResult>;
+  replayOutbox: (accessToken: string) => Promise<void>;
+  retryOutboxEntry: (accessToken: string, entryId: number) => Promise<void>;
+  discardOutboxEntry: (accessToken: string, entryId: number) => Promise<void>;
   setSearchQuery: (query: string) => void;
   setFilters: (filters: FilterOptions) => void;
   setSorting: (sort: SortOption) => void;
   refreshData: (accessToken: string) => Promise<void>;
+  // Give rows added directly in the sheet a persistent ID, then reload; resolves to the number assigned
+  assignStudentIds: (accessToken: string) => Promise<number>;
+  loadCachedStudents: () => boolean;
+  clearData: () => void;
   // Column management methods
   addSheetColumn: (accessToken: string, columnName: string, insertAfterColumn?: number) => Promise<void>;
   renameSheetColumn: (accessToken: string, oldColumnName: string, newColumnName: string) => Promise<void>;
@@ -25,16 +62,31 @@ const DataContext = createContext<DataContextType | undefined>(undefined);
 
 type DataAction = 
   | { type: 'FETCH_START' }
-  | { type: 'FETCH_SUCCESS'; payload: Student[] }
+  | { type: 'FETCH_SUCCESS'; payload: StudentFetchResult }
+  | { type: 'SYNC_SUCCESS'; payload: StudentFetchResult }
+  | { type: 'LOAD_CACHED'; payload: { students: Student[]; savedAt: Date } }
   | { type: 'FETCH_ERROR'; payload: string }
   | { type: 'ADD_STUDENT'; payload: Student }
   | { type: 'UPDATE_STUDENT'; payload: Student }
   | { type: 'DELETE_STUDENT'; payload: string } // student ID
+  | { type: 'BULK_UPDATE_STUDENTS'; payload: Student[] }
+  | { type: 'BULK_DELETE_STUDENTS'; payload: string[] } // student IDs
+  | { type: 'RESTORE_STUDENT'; payload: { student: Student; listIndex: number } }
+  | { type: 'RECORD_HISTORY'; payload: StudentHistoryEntry }
+  | { type: 'UNDO_COMPLETE'; payload: StudentHistoryEntry } // entry as it should be redone
+  | { type: 'REDO_COMPLETE'; payload: StudentHistoryEntry } // entry as it should be undone
   | { type: 'SET_SEARCH_QUERY'; payload: string }
   | { type: 'SET_FILTERS'; payload: FilterOptions }
   | { type: 'SET_SORTING'; payload: SortOption }
   | { type: 'APPLY_FILTERS_AND_SEARCH' }
-  | { type: 'CLEAR_ERROR' };
+  | { type: 'CLEAR_ERROR' }
+  | { type: 'CLEAR_DATA' }
+  | { type: 'SET_OUTBOX'; payload: OutboxEntry[] }
+  | { type: 'QUEUE_MUTATION'; payload: OutboxEntry }
+  | { type: 'UPDATE_OUTBOX_ENTRY'; payload: OutboxEntry }
+  | { type: 'REMOVE_OUTBOX_ENTRY'; payload: number }; // entry ID
+
+const MAX_HISTORY_ENTRIES = 50;
 
 const dataReducer = (state: DataState, action: DataAction): DataState => {
   switch (action.type) {
@@ -46,14 +98,53 @@ const dataReducer = (state: DataState, action: DataAction): DataState => {
       };
     
     case 'FETCH_SUCCESS': {
-      const filteredAndSorted = applyFiltersAndSearch(action.payload, state.filters, state.searchQuery);
+      // Queued offline edits stay visible on top of the sheet data until they are written
+      const fetchedStudents = applyPendingMutations(action.payload.students, state.outbox);
+      const filteredAndSorted = applyFiltersAndSearch(fetchedStudents, state.filters, state.searchQuery);
       return {
         ...state,
-        students: action.payload,
+        students: fetchedStudents,
         filteredStudents: state.sorting ? applySorting(filteredAndSorted, state.sorting) : filteredAndSorted,
         loading: false,
         error: null,
-        lastUpdated: new Date()
+        lastUpdated: new Date(),
+        cachedAt: null,
+        truncation: getTruncation(action.payload),
+        missingIds: action.payload.missingIds
+      };
+    }
+    
+    case 'LOAD_CACHED': {
+      const cachedStudents = applyPendingMutations(action.payload.students, state.outbox);
+      const cachedFiltered = applyFiltersAndSearch(cachedStudents, state.filters, state.searchQuery);
+      return {
+        ...state,
+        students: cachedStudents,
+        filteredStudents: state.sorting ? applySorting(cachedFiltered, state.sorting) : cachedFiltered,
+        lastUpdated: action.payload.savedAt,
+        cachedAt: action.payload.savedAt
+      };
+    }
+    
+    case 'SYNC_SUCCESS': {
+      // Background refresh: merge without touching loading, error, search, filters or sorting
+      const mergedStudents = mergeStudents(state.students, applyPendingMutations(action.payload.students, state.outbox));
+      const truncation = getTruncation(action.payload);
+      const { missingIds } = action.payload;
+      if (mergedStudents === state.students) {
+        return state.cachedAt || truncation?.totalRows !== state.truncation?.totalRows || missingIds !== state.missingIds
+          ? { ...state, cachedAt: null, truncation, missingIds, lastUpdated: new Date() }
+          : state;
+      }
+      const mergedFiltered = applyFiltersAndSearch(mergedStudents, state.filters, state.searchQuery);
+      return {
+        ...state,
+        students: mergedStudents,
+        filteredStudents: state.sorting ? applySorting(mergedFiltered, state.sorting) : mergedFiltered,
+        lastUpdated: new Date(),
+        cachedAt: null,
+        truncation,
+        missingIds
       };
     }
     
@@ -99,6 +190,63 @@ const dataReducer = (state: DataState, action: DataAction): DataState => {
       };
     }
     
+    case 'BULK_UPDATE_STUDENTS': {
+      const updatesById = new Map(action.payload.map(student => [student.id, student]));
+      const bulkUpdated = state.students.map(student => updatesById.get(student.id) ?? student);
+      const bulkUpdatedFiltered = applyFiltersAndSearch(bulkUpdated, state.filters, state.searchQuery);
+      return {
+        ...state,
+        students: bulkUpdated,
+        filteredStudents: state.sorting ? applySorting(bulkUpdatedFiltered, state.sorting) : bulkUpdatedFiltered,
+        lastUpdated: new Date()
+      };
+    }
+    
+    case 'BULK_DELETE_STUDENTS': {
+      const deletedIds = new Set(action.payload);
+      const bulkRemaining = state.students.filter(student => !deletedIds.has(student.id));
+      const bulkRemainingFiltered = applyFiltersAndSearch(bulkRemaining, state.filters, state.searchQuery);
+      return {
+        ...state,
+        students: bulkRemaining,
+        filteredStudents: state.sorting ? applySorting(bulkRemainingFiltered, state.sorting) : bulkRemainingFiltered,
+        lastUpdated: new Date()
+      };
+    }
+    
+    case 'RESTORE_STUDENT': {
+      const restoredStudents = [...state.students];
+      restoredStudents.splice(Math.min(action.payload.listIndex, restoredStudents.length), 0, action.payload.student);
+      const restoredFiltered = applyFiltersAndSearch(restoredStudents, state.filters, state.searchQuery);
+      return {
+        ...state,
+        students: restoredStudents,
+        filteredStudents: state.sorting ? applySorting(restoredFiltered, state.sorting) : restoredFiltered,
+        lastUpdated: new Date()
+      };
+    }
+    
+    case 'RECORD_HISTORY':
+      return {
+        ...state,
+        undoStack: [...state.undoStack, action.payload].slice(-MAX_HISTORY_ENTRIES),
+        redoStack: []
+      };
+    
+    case 'UNDO_COMPLETE':
+      return {
+        ...state,
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, action.payload]
+      };
+    
+    case 'REDO_COMPLETE':
+      return {
+        ...state,
+        undoStack: [...state.undoStack, action.payload],
+        redoStack: state.redoStack.slice(0, -1)
+      };
+    
     case 'SET_SEARCH_QUERY': {
       const searchFiltered = applyFiltersAndSearch(state.students, state.filters, action.payload);
       return {
@@ -138,11 +286,74 @@ const dataReducer = (state: DataState, action: DataAction): DataState => {
         error: null
       };
     
+    case 'SET_OUTBOX':
+    case 'QUEUE_MUTATION': {
+      const entries = action.type === 'SET_OUTBOX' ? action.payload : [action.payload];
+      const outbox = action.type === 'SET_OUTBOX' ? action.payload : [...state.outbox, action.payload];
+      const pendingStudents = applyPendingMutations(state.students, entries);
+      const pendingFiltered = applyFiltersAndSearch(pendingStudents, state.filters, state.searchQuery);
+      return {
+        ...state,
+        outbox,
+        students: pendingStudents,
+        filteredStudents: state.sorting ? applySorting(pendingFiltered, state.sorting) : pendingFiltered
+      };
+    }
+    
+    case 'UPDATE_OUTBOX_ENTRY':
+      return {
+        ...state,
+        outbox: state.outbox.map(entry => entry.id === action.payload.id ? action.payload : entry)
+      };
+    
+    case 'REMOVE_OUTBOX_ENTRY':
+      return {
+        ...state,
+        outbox: state.outbox.filter(entry => entry.id !== action.payload)
+      };
+    
+    case 'CLEAR_DATA':
+      // Drop all student data, e.g. when the session ends on a shared computer
+      return {
+        ...initialState,
+        lastUpdated: new Date()
+      };
+    
     default:
       return state;
   }
 };
 
+// Helper function to compare two students ignoring fields that change on every fetch
+const isSameStudentData = (a: Student, b: Student): boolean => {
+  return JSON.stringify({ ...a, lastModified: null }) ===
+         JSON.stringify({ ...b, lastModified: null });
+};
+
+// Helper function to merge freshly fetched students into the current list
+// Unchanged students keep their existing object so open dialogs and grid rows stay stable;
+// returns the original array when nothing changed to avoid re-rendering consumers
+const mergeStudents = (current: Student[], incoming: Student[]): Student[] => {
+  const currentById = new Map(current.map(student => [student.id, student]));
+  let changed = current.length !== incoming.length;
+
+  const merged = incoming.map((student, index) => {
+    const existing = currentById.get(student.id);
+    if (existing && isSameStudentData(existing, student)) {
+      if (current[index] !== existing) changed = true;
+      return existing;
+    }
+    changed = true;
+    return student;
+  });
+
+  return changed ? merged : current;
+};
+
+// Helper function to describe a partial load of the sheet, or null when everything was loaded
+const getTruncation = (result: StudentFetchResult): DataState['truncation'] =>
+  result.truncated ? { loadedRows: result.loadedRows, totalRows: result.totalRows } : null;
+
 // Helper function to filter students based on search query
 // Optimized to return early if no query and use efficient string operations
 const filterStudents = (students: Student[], searchQuery: string): Student[] => {
@@ -238,6 +449,47 @@ const applySorting = (students: Student[], sortOption: SortOption): Student[] =>
   });
 };
 
+// Helper function to write a queued mutation to Google Sheets
+const writeMutation = async (accessToken: string, mutation: PendingMutation): Promise<void> => {
+  switch (mutation.type) {
+    case 'addStudent':
+      // A previous replay may have reached the sheet even though its response was lost
+      if (!await googleSheetsService.studentExists(accessToken, mutation.student.id)) {
+        await googleSheetsService.addStudent(accessToken, mutation.student);
+      }
+      break;
+    case 'updateStudent':
+      await googleSheetsService.updateStudent(accessToken, mutation.student.id, mutation.student, mutation.baseVersion);
+      break;
+    case 'deleteStudent':
+      await googleSheetsService.deleteStudent(accessToken, mutation.student.id);
+      break;
+    case 'appendSignIn': {
+      // As with students, a previous replay may have reached the sheet
+      const { signIn } = mutation;
+      // Dates are compared as times, since the sheet may display them in its own format
+      const signedInAt = AttendanceService.parseSignInDate(signIn.date)?.getTime();
+      const signIns = await signInSheetService.fetchSignIns(accessToken);
+      if (!signIns.some(row =>
+        row.event === signIn.event.trim() &&
+        row.email === signIn.email.trim() &&
+        row.firstName === signIn.firstName.trim() &&
+        row.lastName === signIn.lastName.trim() &&
+        AttendanceService.parseSignInDate(row.date)?.getTime() === signedInAt
+      )) {
+        await signInSheetService.appendSignIn(accessToken, signIn);
+      }
+      break;
+    }
+    case 'updateSignIn':
+      await signInSheetService.updateSignIn(accessToken, mutation.original, mutation.signIn);
+      break;
+    case 'deleteSignIn':
+      await signInSheetService.deleteSignIn(accessToken, mutation.signIn);
+      break;
+  }
+};
+
 const initialState: DataState = {
   students: [],
   loading: false,
@@ -246,7 +498,13 @@ const initialState: DataState = {
   filteredStudents: [],
   searchQuery: '',
   filters: {},
-  sorting: undefined
+  sorting: undefined,
+  outbox: [],
+  cachedAt: null,
+  truncation: null,
+  missingIds: 0,
+  undoStack: [],
+  redoStack: []
 };
 
 interface DataProviderProps {
@@ -255,61 +513,430 @@ interface DataProviderProps {
 
 export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(dataReducer, initialState);
+  const { state: authState } = useAuth();
+  const userEmail = authState.user?.email;
+  const { sourceKey } = useDataSource();
+  const accessTokenRef = useRef(authState.user?.accessToken);
+  const replayingRef = useRef(false);
+
+  useEffect(() => {
+    accessTokenRef.current = authState.user?.accessToken;
+  }, [authState.user?.accessToken]);
 
   const fetchStudents = useCallback(async (accessToken: string) => {
     dispatch({ type: 'FETCH_START' });
     
     try {
-      const students = await googleSheetsService.fetchStudents(accessToken);
-      dispatch({ type: 'FETCH_SUCCESS', payload: students });
+      const result = await googleSheetsService.fetchStudents(accessToken);
+      dispatch({ type: 'FETCH_SUCCESS', payload: result });
+      if (userEmail) DataCacheService.saveStudents(userEmail, result.students);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch students';
       dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
     }
-  }, []);
+  }, [userEmail]);
+
+  const syncStudents = useCallback(async (accessToken: string) => {
+    // Errors are left to the caller (the background scheduler) so it can back off
+    const result = await googleSheetsService.fetchStudents(accessToken);
+    dispatch({ type: 'SYNC_SUCCESS', payload: result });
+    if (userEmail) DataCacheService.saveStudents(userEmail, result.students);
+  }, [userEmail]);
+
+  // Show the last snapshot cached for this user while fresh data loads
+  const loadCachedStudents = useCallback((): boolean => {
+    if (!userEmail) return false;
+    const cached = DataCacheService.loadStudents(userEmail);
+    if (!cached) return false;
+
+    dispatch({ type: 'LOAD_CACHED', payload: { students: cached.data, savedAt: cached.savedAt } });
+    return true;
+  }, [userEmail]);
+
+  // Save a mutation to the offline outbox and show it right away
+  const queueMutation = useCallback(async (mutation: PendingMutation): Promise<MutationResult> => {
+    if (!userEmail) {
+      throw new Error('Cannot save changes offline without a signed-in user');
+    }
+    const entry = await offlineQueueService.enqueue(userEmail, mutation);
+    dispatch({ type: 'QUEUE_MUTATION', payload: entry });
+    return 'queued';
+  }, [userEmail]);
+
+  const addStudent = useCallback(async (accessToken: string, studentData: Partial<Student>): Promise<MutationResult> => {
+    // Assign the persistent ID up front so a queued add can be followed by queued edits
+    const studentWithId = {
+      ...studentData,
+      id: studentData.id || DataTransformService.generatePersistentStudentId()
+    };
+    const pendingStudent = {
+      ...studentWithId,
+      rowIndex: -1, // Not in the sheet yet
+      lastModified: new Date(),
+      customFields: studentWithId.customFields || {}
+    } as Student;
 
-  const addStudent = useCallback(async (accessToken: string, studentData: Partial<Student>) => {
     try {
-      const newStudent = await googleSheetsService.addStudent(accessToken, studentData);
+      if (!navigator.onLine) {
+        return await queueMutation({ type: 'addStudent', student: pendingStudent });
+      }
+
+      const newStudent = await googleSheetsService.addStudent(accessToken, studentWithId);
       dispatch({ type: 'ADD_STUDENT', payload: newStudent });
+      dispatch({
+        type: 'RECORD_HISTORY',
+        payload: { type: 'add', student: newStudent, rowIndex: newStudent.rowIndex, listIndex: state.students.length }
+      });
+      return 'synced';
     } catch (error) {
+      if (isNetworkError(error) && userEmail) {
+        return queueMutation({ type: 'addStudent', student: pendingStudent });
+      }
       const errorMessage = error instanceof Error ? error.message : 'Failed to add student';
       dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
       throw error;
     }
-  }, []);
+  }, [state.students.length, queueMutation, userEmail]);
 
-  const updateStudent = useCallback(async (accessToken: string, student: Student) => {
+  const updateStudent = useCallback(async (accessToken: string, student: Student, baseVersion?: Student): Promise<MutationResult> => {
     try {
+      if (!navigator.onLine) {
+        return await queueMutation({ type: 'updateStudent', student, baseVersion });
+      }
+
       const updatedStudent = await googleSheetsService.updateStudent(
         accessToken, 
-        student.rowIndex, 
-        student
+        student.id, 
+        student,
+        baseVersion
       );
       dispatch({ type: 'UPDATE_STUDENT', payload: updatedStudent });
+      const before = baseVersion ?? state.students.find(s => s.id === student.id);
+      if (before) {
+        dispatch({ type: 'RECORD_HISTORY', payload: { type: 'update', before, after: updatedStudent } });
+      }
+      return 'synced';
     } catch (error) {
+      // Conflicts are resolved by the editor, so they are not a global data error
+      if (error instanceof StudentConflictError) {
+        throw error;
+      }
+      if (isNetworkError(error) && userEmail) {
+        return queueMutation({ type: 'updateStudent', student, baseVersion });
+      }
       const errorMessage = error instanceof Error ? error.message : 'Failed to update student';
       dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
       throw error;
     }
-  }, []);
+  }, [state.students, queueMutation, userEmail]);
+
+  const updateStudentCells = useCallback(async (accessToken: string, original: Student, updated: Student): Promise<MutationResult> => {
+    try {
+      if (!navigator.onLine) {
+        return await queueMutation({ type: 'updateStudent', student: updated, baseVersion: original });
+      }
+
+      const savedStudent = await googleSheetsService.updateStudentCells(accessToken, original, updated);
+      dispatch({ type: 'UPDATE_STUDENT', payload: savedStudent });
+      dispatch({ type: 'RECORD_HISTORY', payload: { type: 'update', before: original, after: savedStudent } });
+      return 'synced';
+    } catch (error) {
+      if (isNetworkError(error) && userEmail) {
+        return queueMutation({ type: 'updateStudent', student: updated, baseVersion: original });
+      }
+      // Inline edits revert in the grid and report there, so this is not a global data error
+      throw error;
+    }
+  }, [queueMutation, userEmail]);
+
+  const deleteStudent = useCallback(async (accessToken: string, studentId: string): Promise<MutationResult> => {
+    const student = state.students.find(s => s.id === studentId);
 
-  const deleteStudent = useCallback(async (accessToken: string, studentId: string) => {
     try {
-      const student = state.students.find(s => s.id === studentId);
-      if (!student) {
-        throw new Error('Student not found');
+      if (!navigator.onLine && student) {
+        return await queueMutation({ type: 'deleteStudent', student });
       }
-      
-      await googleSheetsService.deleteStudent(accessToken, student.rowIndex);
+
+      const rowIndex = await googleSheetsService.deleteStudent(accessToken, studentId);
       dispatch({ type: 'DELETE_STUDENT', payload: studentId });
+      if (student) {
+        dispatch({
+          type: 'RECORD_HISTORY',
+          payload: { type: 'delete', student, rowIndex, listIndex: state.students.indexOf(student) }
+        });
+      }
+      return 'synced';
     } catch (error) {
+      if (isNetworkError(error) && userEmail && student) {
+        return queueMutation({ type: 'deleteStudent', student });
+      }
       const errorMessage = error instanceof Error ? error.message : 'Failed to delete student';
       dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
       throw error;
     }
+  }, [state.students, queueMutation, userEmail]);
+
+  const archiveStudent = useCallback(async (accessToken: string, studentId: string) => {
+    try {
+      if (!navigator.onLine) {
+        throw new Error('Archiving needs a connection to Google Sheets.');
+      }
+      await studentArchiveService.archiveStudent(accessToken, studentId, userEmail ?? '');
+      dispatch({ type: 'DELETE_STUDENT', payload: studentId });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to archive student';
+      dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
+      throw error;
+    }
+  }, [userEmail]);
+
+  const restoreStudent = useCallback(async (accessToken: string, studentId: string): Promise<Student> => {
+    try {
+      const restored = await studentArchiveService.restoreStudent(accessToken, studentId);
+      dispatch({ type: 'ADD_STUDENT', payload: restored });
+      return restored;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to restore student';
+      dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
+      throw error;
+    }
+  }, []);
+
+  const mergeStudents = useCallback(async (
+    accessToken: string,
+    merged: Student,
+    original: Student,
+    duplicateId: string,
+    removal: 'archive' | 'delete'
+  ): Promise<Student> => {
+    try {
+      if (!navigator.onLine) {
+        throw new Error('Merging needs a connection to Google Sheets.');
+      }
+
+      // The survivor is saved first, so a failure part way leaves both records rather than neither
+      const saved = await googleSheetsService.updateStudent(accessToken, merged.id, merged, original);
+      dispatch({ type: 'UPDATE_STUDENT', payload: saved });
+
+      if (removal === 'archive') {
+        await studentArchiveService.archiveStudent(accessToken, duplicateId, userEmail ?? '');
+      } else {
+        await googleSheetsService.deleteStudent(accessToken, duplicateId);
+      }
+      dispatch({ type: 'DELETE_STUDENT', payload: duplicateId });
+      return saved;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to merge students';
+      dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
+      throw error;
+    }
+  }, [userEmail]);
+
+  // Apply a history entry to the sheet and local state, undoing or redoing it. Resolves to the
+  // entry with refreshed positions, ready to be moved onto the opposite stack.
+  const applyHistoryEntry = useCallback(async (
+    accessToken: string,
+    entry: StudentHistoryEntry,
+    direction: 'undo' | 'redo'
+  ): Promise<StudentHistoryEntry> => {
+    if (!navigator.onLine) {
+      throw new Error(`${direction === 'undo' ? 'Undo' : 'Redo'} needs a connection to Google Sheets.`);
+    }
+
+    if (entry.type === 'update') {
+      const target = direction === 'undo' ? entry.before : entry.after;
+      const current = direction === 'undo' ? entry.after : entry.before;
+      // The current version doubles as the base version, so edits made by others since are not overwritten
+      const saved = await googleSheetsService.updateStudent(accessToken, target.id, target, current);
+      dispatch({ type: 'UPDATE_STUDENT', payload: saved });
+      return direction === 'undo' ? { ...entry, before: saved } : { ...entry, after: saved };
+    }
+
+    const removing = (entry.type === 'add') === (direction === 'undo');
+    if (removing) {
+      const listIndex = state.students.findIndex(s => s.id === entry.student.id);
+      const rowIndex = await googleSheetsService.deleteStudent(accessToken, entry.student.id);
+      dispatch({ type: 'DELETE_STUDENT', payload: entry.student.id });
+      return { ...entry, rowIndex, listIndex: listIndex === -1 ? entry.listIndex : listIndex };
+    }
+
+    // Re-insert the row with all its columns and custom fields where it was
+    const restored = await googleSheetsService.insertStudentRow(accessToken, entry.student, entry.rowIndex);
+    dispatch({ type: 'RESTORE_STUDENT', payload: { student: restored, listIndex: entry.listIndex } });
+    return { ...entry, student: restored, rowIndex: restored.rowIndex };
+  }, [state.students]);
+
+  const undo = useCallback(async (accessToken: string): Promise<StudentHistoryEntry | null> => {
+    const entry = state.undoStack[state.undoStack.length - 1];
+    if (!entry) return null;
+    const applied = await applyHistoryEntry(accessToken, entry, 'undo');
+    dispatch({ type: 'UNDO_COMPLETE', payload: applied });
+    return applied;
+  }, [state.undoStack, applyHistoryEntry]);
+
+  const redo = useCallback(async (accessToken: string): Promise<StudentHistoryEntry | null> => {
+    const entry = state.redoStack[state.redoStack.length - 1];
+    if (!entry) return null;
+    const applied = await applyHistoryEntry(accessToken, entry, 'redo');
+    dispatch({ type: 'REDO_COMPLETE', payload: applied });
+    return applied;
+  }, [state.redoStack, applyHistoryEntry]);
+
+  // Bulk actions touch many rows at once, so they aren't queued offline: the whole
+  // batch is written in one request or fails as a unit
+  const bulkUpdateStudents = useCallback(async (accessToken: string, students: Student[]) => {
+    const originalsById = new Map(state.students.map(student => [student.id, student]));
+    const changes = students.flatMap(student => {
+      const original = originalsById.get(student.id);
+      return original ? [{ original, updated: student }] : [];
+    });
+
+    try {
+      await googleSheetsService.bulkUpdateStudents(accessToken, changes);
+      const lastModified = new Date();
+      dispatch({ type: 'BULK_UPDATE_STUDENTS', payload: changes.map(({ updated }) => ({ ...updated, lastModified })) });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update students';
+      dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
+      throw error;
+    }
+  }, [state.students]);
+
+  const bulkDeleteStudents = useCallback(async (accessToken: string, studentIds: string[]) => {
+    const ids = new Set(studentIds);
+    const students = state.students.filter(student => ids.has(student.id));
+
+    try {
+      await googleSheetsService.bulkDeleteStudents(accessToken, students);
+      dispatch({ type: 'BULK_DELETE_STUDENTS', payload: students.map(student => student.id) });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete students';
+      dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
+      throw error;
+    }
   }, [state.students]);
 
+  // Write queued mutations to the sheet in order. A failed entry is kept for review and
+  // holds back later entries for the same student or sign-in row; a network error stops the replay.
+  const replayOutbox = useCallback(async (accessToken: string) => {
+    if (!userEmail || replayingRef.current || !navigator.onLine) return;
+    replayingRef.current = true;
+
+    try {
+      const entries = await offlineQueueService.getEntries(userEmail);
+      const blockedTargets = new Set<string>();
+      let replayedCount = 0;
+      let replayedStudents = false;
+
+      for (const entry of entries) {
+        const target = getMutationTarget(entry.mutation);
+        if (entry.status === 'failed' || (target && blockedTargets.has(target))) {
+          if (target) blockedTargets.add(target);
+          continue;
+        }
+
+        try {
+          await writeMutation(accessToken, entry.mutation);
+          await offlineQueueService.removeEntry(entry.id);
+          dispatch({ type: 'REMOVE_OUTBOX_ENTRY', payload: entry.id });
+          replayedCount++;
+          if ('student' in entry.mutation) replayedStudents = true;
+        } catch (error) {
+          if (isNetworkError(error)) {
+            console.log('📴 Still offline, pausing outbox replay');
+            break;
+          }
+
+          const failedEntry: OutboxEntry = {
+            ...entry,
+            status: 'failed',
+            attempts: entry.attempts + 1,
+            lastError: error instanceof Error ? error.message : 'Failed to sync change',
+            conflict: error instanceof StudentConflictError
+          };
+          await offlineQueueService.updateEntry(failedEntry);
+          dispatch({ type: 'UPDATE_OUTBOX_ENTRY', payload: failedEntry });
+          if (target) blockedTargets.add(target);
+        }
+      }
+
+      if (replayedCount > 0) {
+        console.log(`✅ Synced ${replayedCount} offline change(s)`);
+      }
+      // Sign-ins reload themselves once their entries leave the outbox
+      if (replayedStudents) {
+        dispatch({ type: 'SYNC_SUCCESS', payload: await googleSheetsService.fetchStudents(accessToken) });
+      }
+    } catch (error) {
+      console.error('❌ Failed to replay offline outbox:', error);
+    } finally {
+      replayingRef.current = false;
+    }
+  }, [userEmail]);
+
+  const retryOutboxEntry = useCallback(async (accessToken: string, entryId: number) => {
+    const entry = state.outbox.find(e => e.id === entryId);
+    if (!entry) return;
+
+    // Retrying a conflicted edit means keeping it, so drop the stale base version
+    const mutation: PendingMutation = entry.conflict && entry.mutation.type === 'updateStudent'
+      ? { ...entry.mutation, baseVersion: undefined }
+      : entry.mutation;
+    const retriedEntry: OutboxEntry = { ...entry, mutation, status: 'pending', conflict: false };
+
+    await offlineQueueService.updateEntry(retriedEntry);
+    dispatch({ type: 'UPDATE_OUTBOX_ENTRY', payload: retriedEntry });
+    await replayOutbox(accessToken);
+  }, [state.outbox, replayOutbox]);
+
+  const discardOutboxEntry = useCallback(async (accessToken: string, entryId: number) => {
+    const entry = state.outbox.find(e => e.id === entryId);
+    await offlineQueueService.removeEntry(entryId);
+    dispatch({ type: 'REMOVE_OUTBOX_ENTRY', payload: entryId });
+
+    // Reload so the discarded change disappears from the table. Sign-ins are reloaded by
+    // SignInSheetContext once its pending count drops.
+    if (!entry || !('student' in entry.mutation) || !navigator.onLine) return;
+    try {
+      const result = await googleSheetsService.fetchStudents(accessToken);
+      dispatch({ type: 'SYNC_SUCCESS', payload: result });
+      if (userEmail) DataCacheService.saveStudents(userEmail, result.students);
+    } catch (error) {
+      // The entry is already gone; the next background sync picks up the sheet's rows
+      console.error('❌ Failed to reload students after discarding an offline change:', error);
+    }
+  }, [state.outbox, userEmail]);
+
+  // Load the signed-in user's outbox for the active data source, then try to send anything left from an earlier session
+  useEffect(() => {
+    if (!userEmail) return;
+    let cancelled = false;
+
+    offlineQueueService.getEntries(userEmail).then(entries => {
+      if (cancelled) return;
+      dispatch({ type: 'SET_OUTBOX', payload: entries });
+      if (entries.length > 0 && accessTokenRef.current) {
+        void replayOutbox(accessTokenRef.current);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userEmail, sourceKey, replayOutbox]);
+
+  // Replay queued changes as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      if (accessTokenRef.current) {
+        void replayOutbox(accessTokenRef.current);
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [replayOutbox]);
+
   const setSearchQuery = useCallback((query: string) => {
     dispatch({ type: 'SET_SEARCH_QUERY', payload: query });
   }, []);
@@ -326,6 +953,16 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
     await fetchStudents(accessToken);
   }, [fetchStudents]);
 
+  const assignStudentIds = useCallback(async (accessToken: string): Promise<number> => {
+    const assigned = await googleSheetsService.assignMissingStudentIds(accessToken);
+    await fetchStudents(accessToken);
+    return assigned;
+  }, [fetchStudents]);
+
+  const clearData = useCallback(() => {
+    dispatch({ type: 'CLEAR_DATA' });
+  }, []);
+
   // Column management methods
   const addSheetColumn = useCallback(async (
     accessToken: string, 
@@ -383,26 +1020,49 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
 
   const getSheetHeaders = useCallback(async (accessToken: string) => {
     try {
-      return await googleSheetsService.getSheetHeaders(accessToken);
+      const headers = await googleSheetsService.getSheetHeaders(accessToken);
+      if (userEmail) DataCacheService.saveHeaders('students', userEmail, headers);
+      return headers;
     } catch (error) {
+      // Fall back to the cached header row while offline
+      const cached = userEmail && isNetworkError(error) ? DataCacheService.loadHeaders('students', userEmail) : null;
+      if (cached) {
+        return cached.data;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Failed to get sheet headers';
       dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
       throw error;
     }
-  }, []);
+  }, [userEmail]);
 
   // Memoize the context value to prevent unnecessary re-renders of consumers
   // when the state or callbacks haven't actually changed
   const value: DataContextType = useMemo(() => ({
     state,
     fetchStudents,
+    syncStudents,
     addStudent,
     updateStudent,
+    updateStudentCells,
     deleteStudent,
+    archiveStudent,
+    restoreStudent,
+    mergeStudents,
+    bulkUpdateStudents,
+    bulkDeleteStudents,
+    undo,
+    redo,
     setSearchQuery,
     setFilters,
     setSorting,
     refreshData,
+    assignStudentIds,
+    loadCachedStudents,
+    clearData,
+    queueMutation,
+    replayOutbox,
+    retryOutboxEntry,
+    discardOutboxEntry,
     addSheetColumn,
     renameSheetColumn,
     removeSheetColumn,
@@ -411,13 +1071,29 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
   }), [
     state,
     fetchStudents,
+    syncStudents,
     addStudent,
     updateStudent,
+    updateStudentCells,
     deleteStudent,
+    archiveStudent,
+    restoreStudent,
+    mergeStudents,
+    bulkUpdateStudents,
+    bulkDeleteStudents,
+    undo,
+    redo,
     setSearchQuery,
     setFilters,
     setSorting,
     refreshData,
+    assignStudentIds,
+    loadCachedStudents,
+    clearData,
+    queueMutation,
+    replayOutbox,
+    retryOutboxEntry,
+    discardOutboxEntry,
     addSheetColumn,
     renameSheetColumn,
     removeSheetColumn,
@@ -0,0 +1,105 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import type { DataSourceConfig, Program, ProgramList } from '../types';
+import { useAuth } from './AuthContext';
+import { dataSourceService } from '../services/DataSourceService';
+import { DataSourceContext } from '../hooks/useDataSource';
+
+const loadProgramsFor = (userEmail?: string): ProgramList =>
+  userEmail ? dataSourceService.loadPrograms(userEmail) : dataSourceService.getDefaultPrograms();
+
+const trimConfig = (config: DataSourceConfig): DataSourceConfig => ({
+  spreadsheetId: config.spreadsheetId.trim(),
+  studentsSheetName: config.studentsSheetName.trim(),
+  signInsSheetName: config.signInsSheetName.trim(),
+  archivedSheetName: config.archivedSheetName.trim(),
+  eventsSheetName: config.eventsSheetName.trim(),
+});
+
+export const DataSourceProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { state: authState } = useAuth();
+  const userEmail = authState.user?.email;
+  const [loaded, setLoaded] = useState(() => ({ userEmail, programList: loadProgramsFor(userEmail) }));
+
+  // Reload when the user changes. This happens during render rather than in an effect:
+  // child effects run first and would otherwise fetch from the previous user's spreadsheet
+  let { programList } = loaded;
+  if (loaded.userEmail !== userEmail) {
+    programList = loadProgramsFor(userEmail);
+    setLoaded({ userEmail, programList });
+  }
+  const activeProgram = dataSourceService.getActiveProgram(programList);
+  const config = activeProgram.dataSource;
+  dataSourceService.setActiveConfig(config);
+
+  const saveProgramList = useCallback((update: (current: ProgramList) => ProgramList) => {
+    if (!userEmail) return;
+    setLoaded(prev => {
+      const next = update(prev.programList);
+      dataSourceService.savePrograms(userEmail, next);
+      return { userEmail, programList: next };
+    });
+  }, [userEmail]);
+
+  const updateDataSource = useCallback((newConfig: DataSourceConfig) => {
+    saveProgramList(current => ({
+      ...current,
+      programs: current.programs.map(program =>
+        program.id === current.activeProgramId ? { ...program, dataSource: trimConfig(newConfig) } : program
+      ),
+    }));
+  }, [saveProgramList]);
+
+  const resetDataSource = useCallback(() => {
+    updateDataSource(dataSourceService.getDefaultConfig());
+  }, [updateDataSource]);
+
+  const switchProgram = useCallback((programId: string) => {
+    saveProgramList(current => ({ ...current, activeProgramId: programId }));
+  }, [saveProgramList]);
+
+  const addProgram = useCallback((name: string, newConfig: DataSourceConfig) => {
+    const program: Program = {
+      id: dataSourceService.generateProgramId(),
+      name: name.trim(),
+      dataSource: trimConfig(newConfig),
+    };
+    saveProgramList(current => ({ programs: [...current.programs, program], activeProgramId: program.id }));
+  }, [saveProgramList]);
+
+  const renameProgram = useCallback((programId: string, name: string) => {
+    saveProgramList(current => ({
+      ...current,
+      programs: current.programs.map(program => program.id === programId ? { ...program, name: name.trim() } : program),
+    }));
+  }, [saveProgramList]);
+
+  const removeProgram = useCallback((programId: string) => {
+    saveProgramList(current => {
+      // Always keep at least one program to work from
+      if (current.programs.length <= 1) return current;
+      const programs = current.programs.filter(program => program.id !== programId);
+      const activeProgramId = current.activeProgramId === programId ? programs[0].id : current.activeProgramId;
+      return { programs, activeProgramId };
+    });
+  }, [saveProgramList]);
+
+  const value = useMemo(() => ({
+    config,
+    sourceKey: `${activeProgram.id}|${dataSourceService.getSourceKey(config)}`,
+    programs: programList.programs,
+    activeProgram,
+    updateDataSource,
+    resetDataSource,
+    switchProgram,
+    addProgram,
+    renameProgram,
+    removeProgram,
+  }), [config, programList.programs, activeProgram, updateDataSource, resetDataSource, switchProgram, addProgram, renameProgram, removeProgram]);
+
+  return (
+    <DataSourceContext.Provider value={value}>
+      {children}
+    </DataSourceContext.Provider>
+  );
+};
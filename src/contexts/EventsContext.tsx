@@ -0,0 +1,75 @@
+import React, { useState, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import type { ProgramEvent, ProgramEventInput } from '../types/event';
+import { eventService } from '../services/EventService';
+import { dataSourceService } from '../services/DataSourceService';
+import { useAuth } from './AuthContext';
+import { useDataSource } from '../hooks/useDataSource';
+import { EventsContext } from '../hooks/useEvents';
+
+export const EventsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [events, setEvents] = useState<ProgramEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { state: authState } = useAuth();
+  const { sourceKey, config } = useDataSource();
+
+  // Drop events from another workbook, events tab or a signed-out user
+  const scopeKey = `${sourceKey}|${config.eventsSheetName}|${authState.user?.email ?? ''}`;
+  const [loadedScopeKey, setLoadedScopeKey] = useState(scopeKey);
+  if (loadedScopeKey !== scopeKey) {
+    setLoadedScopeKey(scopeKey);
+    setEvents([]);
+    setError(null);
+  }
+
+  const fetchEvents = useCallback(async (accessToken: string) => {
+    // A response for a workbook or events tab that was switched away from mid-request is dropped,
+    // so it can't replace the new source's events
+    const getRequestSourceKey = () => `${dataSourceService.getSourceKey()}|${dataSourceService.eventsSheetName}`;
+    const requestSourceKey = getRequestSourceKey();
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await eventService.fetchEvents(accessToken);
+      if (getRequestSourceKey() !== requestSourceKey) return;
+      setEvents(data);
+    } catch (err) {
+      if (getRequestSourceKey() !== requestSourceKey) return;
+      setError(err instanceof Error ? err.message : 'Failed to fetch events');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Mutations leave errors to the caller, so a failed save keeps the events list on screen
+  const addEvent = useCallback(async (accessToken: string, input: ProgramEventInput) => {
+    const event = await eventService.addEvent(accessToken, input);
+    setEvents(prev => [...prev, event]);
+    return event;
+  }, []);
+
+  const updateEvent = useCallback(async (accessToken: string, event: ProgramEvent) => {
+    const updated = await eventService.updateEvent(accessToken, event);
+    setEvents(prev => prev.map(existing => (existing.id === updated.id ? updated : existing)));
+  }, []);
+
+  const deleteEvent = useCallback(async (accessToken: string, eventId: string) => {
+    await eventService.deleteEvent(accessToken, eventId);
+    setEvents(prev => prev.filter(event => event.id !== eventId));
+  }, []);
+
+  return (
+    <EventsContext.Provider value={{
+      events,
+      loading,
+      error,
+      fetchEvents,
+      addEvent,
+      updateEvent,
+      deleteEvent
+    }}>
+      {children}
+    </EventsContext.Provider>
+  );
+};
@@ -1,6 +1,8 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useState } from 'react';
 import type { ReactNode } from 'react';
 import { useAuth } from './AuthContext';
+import { useDataSource } from '../hooks/useDataSource';
+import { SettingsStorageService } from '../services/SettingsStorageService';
 import { GoogleSheetsColumnService } from '../services/GoogleSheetsColumnService';
 import { SignInSheetColumnService } from '../services/SignInSheetColumnService';
 
@@ -36,6 +38,14 @@ export interface SignInDisplaySettings {
   sortDirection: 'asc' | 'desc';
 }
 
+// Points awarded for attending an event whose name matches the pattern
+export interface PointsRule {
+  id: string;
+  pattern: string;
+  matchType: 'exact' | 'contains' | 'regex';
+  points: number;
+}
+
 export interface AppSettings {
   dataDisplay: DataDisplaySettings;
   signInDisplay: SignInDisplaySettings;
@@ -50,6 +60,12 @@ export interface AppSettings {
   session: {
     timeout: number; // in minutes
   };
+  participationPoints: {
+    rules: PointsRule[]; // Saved in this browser before rules moved to the workbook; offered for saving there
+  };
+  kiosk: {
+    pinHash: string; // SHA-256 of the staff PIN that exits kiosk mode; empty until one is set
+  };
 }
 
 interface SettingsState {
@@ -68,6 +84,10 @@ type SettingsAction =
   | { type: 'RENAME_COLUMN'; payload: { id: string; newName: string; newField?: string } }
   | { type: 'REORDER_COLUMNS'; payload: ColumnSettings[] }
   | { type: 'SET_SETTINGS'; payload: AppSettings }
+  | { type: 'UPDATE_SYNC_SETTINGS'; payload: Partial<AppSettings['sync']> }
+  | { type: 'UPDATE_SESSION_SETTINGS'; payload: Partial<AppSettings['session']> }
+  | { type: 'UPDATE_POINTS_SETTINGS'; payload: Partial<AppSettings['participationPoints']> }
+  | { type: 'UPDATE_KIOSK_SETTINGS'; payload: Partial<AppSettings['kiosk']> }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'SET_SIGNIN_RECORDS_PER_PAGE'; payload: number }
@@ -133,6 +153,12 @@ const defaultSettings: AppSettings = {
   session: {
     timeout: 30, // 30 minutes
   },
+  participationPoints: {
+    rules: [],
+  },
+  kiosk: {
+    pinHash: '',
+  },
 };
 
 const settingsReducer = (state: SettingsState, action: SettingsAction): SettingsState => {
@@ -307,6 +333,54 @@ const settingsReducer = (state: SettingsState, action: SettingsAction): Settings
         settings: action.payload,
       };
 
+    case 'UPDATE_SYNC_SETTINGS':
+      return {
+        ...state,
+        settings: {
+          ...state.settings,
+          sync: {
+            ...state.settings.sync,
+            ...action.payload,
+          },
+        },
+      };
+
+    case 'UPDATE_SESSION_SETTINGS':
+      return {
+        ...state,
+        settings: {
+          ...state.settings,
+          session: {
+            ...state.settings.session,
+            ...action.payload,
+          },
+        },
+      };
+
+    case 'UPDATE_POINTS_SETTINGS':
+      return {
+        ...state,
+        settings: {
+          ...state.settings,
+          participationPoints: {
+            ...state.settings.participationPoints,
+            ...action.payload,
+          },
+        },
+      };
+
+    case 'UPDATE_KIOSK_SETTINGS':
+      return {
+        ...state,
+        settings: {
+          ...state.settings,
+          kiosk: {
+            ...state.settings.kiosk,
+            ...action.payload,
+          },
+        },
+      };
+
     case 'SET_LOADING':
       return {
         ...state,
@@ -479,6 +553,10 @@ interface SettingsContextType {
   renameColumn: (id: string, newName: string, newField?: string) => void;
   reorderColumns: (columns: ColumnSettings[]) => void;
   resetToDefaults: () => void;
+  updateSyncSettings: (sync: Partial<AppSettings['sync']>) => void;
+  updateSessionSettings: (session: Partial<AppSettings['session']>) => void;
+  updatePointsSettings: (points: Partial<AppSettings['participationPoints']>) => void;
+  updateKioskSettings: (kiosk: Partial<AppSettings['kiosk']>) => void;
   syncWithGoogleSheets: () => Promise<void>;
   syncDiscoveredCustomColumns: (discoveredColumns: Array<{id: string, headerName: string, field: string}>) => void;
   syncDiscoveredSignInCustomColumns: (discoveredColumns: Array<{id: string, headerName: string, field: string}>) => void;
@@ -499,15 +577,17 @@ const SettingsContext = createContext<SettingsContextType | undefined>(undefined
 
 export { SettingsContext, type SettingsContextType };
 
-const SETTINGS_STORAGE_KEY_PREFIX = 'studentApp_settings';
-
 export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { state: authState } = useAuth();
+  const { activeProgram } = useDataSource();
+  const programId = activeProgram.id;
+  // Storage key the current settings were loaded from, so they're never saved over another profile
+  const [loadedStorageKey, setLoadedStorageKey] = useState<string | null>(null);
   
-  // Helper function to get user-specific storage key
+  // Helper function to get user- and program-specific storage key
   const getStorageKey = () => {
     const userEmail = authState.user?.email || 'anonymous';
-    return `${SETTINGS_STORAGE_KEY_PREFIX}_${userEmail}`;
+    return SettingsStorageService.getStorageKey(userEmail, programId);
   };
 
   // Helper function to migrate old global settings to user-specific settings
@@ -536,7 +616,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     error: null,
   });
 
-  // Load settings from localStorage on mount and when user changes
+  // Load settings from localStorage on mount and when the user or program changes
   useEffect(() => {
     // Only load settings if user is authenticated
     if (!authState.user?.email) return;
@@ -614,13 +694,15 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
         
         dispatch({ type: 'SET_SETTINGS', payload: mergedSettings });
       } else {
-        // No stored settings found, using defaults
+        // No stored settings found (e.g. a new program), using defaults
+        dispatch({ type: 'SET_SETTINGS', payload: defaultSettings });
       }
+      setLoadedStorageKey(storageKey);
     } catch (error) {
       console.error('Failed to load settings from localStorage:', error);
       dispatch({ type: 'SET_ERROR', payload: 'Failed to load user settings' });
     }
-  }, [authState.user?.email]); // Re-run when user changes
+  }, [authState.user?.email, programId]); // Re-run when user or program changes
 
   // Save settings to localStorage whenever they change
   useEffect(() => {
@@ -629,11 +711,13 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     
     try {
       const storageKey = getStorageKey();
+      // Right after a switch state.settings still holds the previous profile's settings
+      if (loadedStorageKey !== storageKey) return;
       localStorage.setItem(storageKey, JSON.stringify(state.settings));
     } catch (error) {
       console.error('Failed to save settings to localStorage:', error);
     }
-  }, [state.settings, authState.user?.email]); // Re-run when settings or user changes
+  }, [state.settings, authState.user?.email, programId, loadedStorageKey]); // Re-run when settings, user or program changes
 
   // Sync with Google Sheets when user is authenticated and settings are loaded
   useEffect(() => {
@@ -736,6 +820,22 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     dispatch({ type: 'SET_SETTINGS', payload: defaultSettings });
   };
 
+  const updateSyncSettings = (sync: Partial<AppSettings['sync']>) => {
+    dispatch({ type: 'UPDATE_SYNC_SETTINGS', payload: sync });
+  };
+
+  const updateSessionSettings = (session: Partial<AppSettings['session']>) => {
+    dispatch({ type: 'UPDATE_SESSION_SETTINGS', payload: session });
+  };
+
+  const updatePointsSettings = (points: Partial<AppSettings['participationPoints']>) => {
+    dispatch({ type: 'UPDATE_POINTS_SETTINGS', payload: points });
+  };
+
+  const updateKioskSettings = (kiosk: Partial<AppSettings['kiosk']>) => {
+    dispatch({ type: 'UPDATE_KIOSK_SETTINGS', payload: kiosk });
+  };
+
   const syncWithGoogleSheets = async () => {
     if (!authState.user?.accessToken) {
       console.warn('Cannot sync: User not authenticated');
@@ -1079,6 +1179,10 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     renameColumn,
     reorderColumns,
     resetToDefaults,
+    updateSyncSettings,
+    updateSessionSettings,
+    updatePointsSettings,
+    updateKioskSettings,
     syncWithGoogleSheets,
     syncDiscoveredCustomColumns,
     syncDiscoveredSignInCustomColumns,
@@ -1,15 +1,31 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import type { ReactNode } from 'react';
 import type { SignInRow } from '../types/signIn';
 import { signInSheetService } from '../services/SignInSheetService';
 import { signInColumnSyncService } from '../services/SignInColumnSyncService';
+import { DataCacheService } from '../services/DataCacheService';
+import { isNetworkError, applyPendingSignIns } from '../services/OfflineQueueService';
 import { useSettings } from './SettingsContext';
+import { useAuth } from './AuthContext';
+import { useData } from './DataContext';
+import { useDataSource } from '../hooks/useDataSource';
 
 interface SignInSheetContextType {
   signIns: SignInRow[];
   loading: boolean;
   error: string | null;
+  cachedAt: Date | null; // Set while showing cached sign-ins that haven't been revalidated yet
   fetchSignIns: (accessToken: string) => Promise<void>;
+  syncSignIns: (accessToken: string) => Promise<void>;
+  // Append a new sign-in row, e.g. from the kiosk, returning it with its row number. Adds, edits and
+  // deletions made offline are queued in the outbox and shown until they are written
+  appendSignIn: (accessToken: string, signIn: SignInRow) => Promise<SignInRow>;
+  updateSignIn: (accessToken: string, original: SignInRow, updated: SignInRow) => Promise<SignInRow>;
+  deleteSignIn: (accessToken: string, signIn: SignInRow) => Promise<void>;
+  // Save confirmed sign-in to student links; an empty student ID clears a link
+  linkSignIns: (accessToken: string, links: { signIn: SignInRow; studentId: string }[]) => Promise<void>;
+  // Rewrite the event name on sign-in rows
+  updateSignInEvents: (accessToken: string, updates: { signIn: SignInRow; event: string }[]) => Promise<void>;
   // Column management methods
   addSheetColumn: (accessToken: string, columnName: string, insertAfterColumn?: number) => Promise<void>;
   renameSheetColumn: (accessToken: string, oldColumnName: string, newColumnName: string) => Promise<void>;
@@ -24,14 +40,42 @@ export const SignInSheetProvider: React.FC<{ children: ReactNode }> = ({ childre
   const [signIns, setSignIns] = useState<SignInRow[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const { state: authState } = useAuth();
+  const userEmail = authState.user?.email;
   const { syncDiscoveredSignInCustomColumns, removeDeletedSignInCustomColumns, state: settingsState } = useSettings();
+  const { sourceKey } = useDataSource();
+  const { state: dataState, queueMutation } = useData();
+  const { outbox } = dataState;
+
+  // Queued sign-in changes stay visible, and count for attendance, until they are written
+  const visibleSignIns = useMemo(() => applyPendingSignIns(signIns, outbox), [signIns, outbox]);
+
+  // Drop sign-ins from another workbook or a signed-out user, so nothing stale is shown or counted
+  const scopeKey = `${sourceKey}|${userEmail ?? ''}`;
+  const [loadedScopeKey, setLoadedScopeKey] = useState(scopeKey);
+  if (loadedScopeKey !== scopeKey) {
+    setLoadedScopeKey(scopeKey);
+    setSignIns([]);
+    setCachedAt(null);
+    setError(null);
+  }
 
   const fetchSignIns = useCallback(async (accessToken: string) => {
-    setLoading(true);
+    // Show cached sign-ins straight away instead of a spinner, then revalidate
+    const cached = userEmail ? DataCacheService.loadSignIns(userEmail) : null;
+    if (cached) {
+      setSignIns(cached.data);
+      setCachedAt(cached.savedAt);
+    } else {
+      setLoading(true);
+    }
     setError(null);
     try {
       const data = await signInSheetService.fetchSignIns(accessToken);
       setSignIns(data);
+      setCachedAt(null);
+      if (userEmail) DataCacheService.saveSignIns(userEmail, data);
 
       // Sync custom columns with settings
       const currentColumnSettings = settingsState.settings.signInDisplay.columnSettings;
@@ -42,11 +86,135 @@ export const SignInSheetProvider: React.FC<{ children: ReactNode }> = ({ childre
         removeDeletedSignInCustomColumns
       );
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch sign-in sheet');
+      // Keep the cached sign-ins on screen if the refresh failed
+      if (!cached) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch sign-in sheet');
+      }
     } finally {
       setLoading(false);
     }
-  }, [syncDiscoveredSignInCustomColumns, removeDeletedSignInCustomColumns, settingsState.settings.signInDisplay.columnSettings]);
+  }, [userEmail, syncDiscoveredSignInCustomColumns, removeDeletedSignInCustomColumns, settingsState.settings.signInDisplay.columnSettings]);
+
+  const syncSignIns = useCallback(async (accessToken: string) => {
+    // Background refresh: no loading spinner, and errors are left to the scheduler so it can back off
+    const data = await signInSheetService.fetchSignIns(accessToken);
+    setSignIns(prev => JSON.stringify(prev) === JSON.stringify(data) ? prev : data);
+    setCachedAt(null);
+    if (userEmail) DataCacheService.saveSignIns(userEmail, data);
+  }, [userEmail]);
+
+  // Reload once queued sign-in changes have been written (or discarded), so the sheet's rows replace them
+  const pendingSignInCount = outbox.filter(entry => !('student' in entry.mutation)).length;
+  const pendingSignInCountRef = useRef(pendingSignInCount);
+  const sessionAccessToken = authState.user?.accessToken;
+  useEffect(() => {
+    const previousCount = pendingSignInCountRef.current;
+    pendingSignInCountRef.current = pendingSignInCount;
+    if (pendingSignInCount < previousCount && sessionAccessToken && navigator.onLine) {
+      syncSignIns(sessionAccessToken).catch(err => console.error('❌ Failed to reload sign-ins after syncing offline changes:', err));
+    }
+  }, [pendingSignInCount, sessionAccessToken, syncSignIns]);
+
+  // Errors from adding, editing or deleting a row are left to the caller, which shows them in its own dialog or screen.
+  // Without a connection the change is queued instead, like student edits
+  const appendSignIn = useCallback(async (accessToken: string, signIn: SignInRow) => {
+    try {
+      if (!navigator.onLine) {
+        await queueMutation({ type: 'appendSignIn', signIn });
+        return signIn;
+      }
+
+      const added = await signInSheetService.appendSignIn(accessToken, signIn);
+      setSignIns(prev => {
+        const next = [...prev, added];
+        if (userEmail) DataCacheService.saveSignIns(userEmail, next);
+        return next;
+      });
+      return added;
+    } catch (error) {
+      if (isNetworkError(error) && userEmail) {
+        await queueMutation({ type: 'appendSignIn', signIn });
+        return signIn;
+      }
+      throw error;
+    }
+  }, [userEmail, queueMutation]);
+
+  const updateSignIn = useCallback(async (accessToken: string, original: SignInRow, updated: SignInRow) => {
+    try {
+      if (!navigator.onLine) {
+        await queueMutation({ type: 'updateSignIn', original, signIn: updated });
+        return updated;
+      }
+
+      const saved = await signInSheetService.updateSignIn(accessToken, original, updated);
+      setSignIns(prev => {
+        const next = prev.map(signIn => (signIn.rowIndex === saved.rowIndex ? saved : signIn));
+        if (userEmail) DataCacheService.saveSignIns(userEmail, next);
+        return next;
+      });
+      return saved;
+    } catch (error) {
+      if (isNetworkError(error) && userEmail) {
+        await queueMutation({ type: 'updateSignIn', original, signIn: updated });
+        return updated;
+      }
+      throw error;
+    }
+  }, [userEmail, queueMutation]);
+
+  const deleteSignIn = useCallback(async (accessToken: string, deleted: SignInRow) => {
+    try {
+      if (!navigator.onLine) {
+        await queueMutation({ type: 'deleteSignIn', signIn: deleted });
+        return;
+      }
+      await signInSheetService.deleteSignIn(accessToken, deleted);
+    } catch (error) {
+      if (isNetworkError(error) && userEmail) {
+        await queueMutation({ type: 'deleteSignIn', signIn: deleted });
+        return;
+      }
+      throw error;
+    }
+    const deletedRow = deleted.rowIndex ?? 0;
+    // Rows below the deleted one move up in the sheet
+    setSignIns(prev => {
+      const next = prev
+        .filter(signIn => signIn.rowIndex !== deletedRow)
+        .map(signIn => (signIn.rowIndex && signIn.rowIndex > deletedRow ? { ...signIn, rowIndex: signIn.rowIndex - 1 } : signIn));
+      if (userEmail) DataCacheService.saveSignIns(userEmail, next);
+      return next;
+    });
+  }, [userEmail, queueMutation]);
+
+  // Errors are left to the caller, so a failed link doesn't replace the whole table with an error
+  const linkSignIns = useCallback(async (accessToken: string, links: { signIn: SignInRow; studentId: string }[]) => {
+    await signInSheetService.linkSignIns(accessToken, links);
+    const linkedIds = new Map(links.map(link => [link.signIn.rowIndex, link.studentId]));
+    setSignIns(prev => {
+      const next = prev.map(signIn => linkedIds.has(signIn.rowIndex)
+        ? { ...signIn, studentId: linkedIds.get(signIn.rowIndex) || undefined }
+        : signIn
+      );
+      if (userEmail) DataCacheService.saveSignIns(userEmail, next);
+      return next;
+    });
+  }, [userEmail]);
+
+  // Errors are left to the caller, like linkSignIns
+  const updateSignInEvents = useCallback(async (accessToken: string, updates: { signIn: SignInRow; event: string }[]) => {
+    await signInSheetService.updateSignInEvents(accessToken, updates);
+    const events = new Map(updates.map(update => [update.signIn.rowIndex, update.event]));
+    setSignIns(prev => {
+      const next = prev.map(signIn => events.has(signIn.rowIndex)
+        ? { ...signIn, event: events.get(signIn.rowIndex) ?? signIn.event }
+        : signIn
+      );
+      if (userEmail) DataCacheService.saveSignIns(userEmail, next);
+      return next;
+    });
+  }, [userEmail]);
 
   // Column management methods
   const addSheetColumn = useCallback(async (
@@ -105,20 +273,34 @@ export const SignInSheetProvider: React.FC<{ children: ReactNode }> = ({ childre
 
   const getSheetHeaders = useCallback(async (accessToken: string) => {
     try {
-      return await signInSheetService.getSheetHeaders(accessToken);
+      const headers = await signInSheetService.getSheetHeaders(accessToken);
+      if (userEmail) DataCacheService.saveHeaders('signIns', userEmail, headers);
+      return headers;
     } catch (error) {
+      // Fall back to the cached header row while offline
+      const cached = userEmail && isNetworkError(error) ? DataCacheService.loadHeaders('signIns', userEmail) : null;
+      if (cached) {
+        return cached.data;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Failed to get sign-in sheet headers';
       setError(errorMessage);
       throw error;
     }
-  }, []);
+  }, [userEmail]);
 
   return (
     <SignInSheetContext.Provider value={{ 
-      signIns, 
+      signIns: visibleSignIns, 
       loading, 
       error, 
+      cachedAt,
       fetchSignIns,
+      syncSignIns,
+      appendSignIn,
+      updateSignIn,
+      deleteSignIn,
+      linkSignIns,
+      updateSignInEvents,
       addSheetColumn,
       renameSheetColumn,
       removeSheetColumn,
@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { useData } from '../contexts/DataContext';
+import { useSignInSheet } from '../contexts/SignInSheetContext';
+import { AttendanceService } from '../services/AttendanceService';
+
+/**
+ * Attendance for every student, keyed by student ID, recomputed when students or sign-ins change
+ */
+export const useAttendance = () => {
+  const { state } = useData();
+  const { signIns } = useSignInSheet();
+
+  return useMemo(() => AttendanceService.summarize(signIns, state.students), [signIns, state.students]);
+};
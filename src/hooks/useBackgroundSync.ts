@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { BackgroundSyncScheduler } from '../services/BackgroundSyncService';
+
+/**
+ * Custom hook that runs a sync task in the background using the user's sync settings
+ * @param task - The sync task to run; the latest version is always used
+ * @param enabled - Whether the caller is ready to sync (e.g. authenticated and initially loaded)
+ */
+export function useBackgroundSync(task: () => Promise<void>, enabled: boolean): void {
+  const { state: settingsState } = useSettings();
+  const { autoRefreshInterval, backgroundSync } = settingsState.settings.sync;
+  const taskRef = useRef(task);
+
+  // Keep the latest task without restarting the scheduler on every render
+  useEffect(() => {
+    taskRef.current = task;
+  }, [task]);
+
+  useEffect(() => {
+    if (!enabled || !backgroundSync || autoRefreshInterval <= 0) return;
+
+    const scheduler = new BackgroundSyncScheduler(
+      () => taskRef.current(),
+      { intervalMs: autoRefreshInterval }
+    );
+    scheduler.start();
+
+    return () => scheduler.stop();
+  }, [enabled, backgroundSync, autoRefreshInterval]);
+}
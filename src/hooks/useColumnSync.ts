@@ -3,6 +3,7 @@ import { useData } from '../contexts/DataContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useSettings } from '../contexts/SettingsContext';
 import type { ColumnSettings } from '../contexts/SettingsContext';
+import { DataTransformService } from '../services/DataTransformService';
 
 /**
  * Custom hook for managing column synchronization between app settings and Google Sheets
@@ -173,6 +174,9 @@ export const useColumnSync = () => {
         .map(col => col.headerName.toLowerCase());
       
       for (const header of sheetHeaders) {
+        // The hidden scholar ID column is managed by the app, not by the user
+        if (DataTransformService.isStudentIdHeader(header)) continue;
+
         const isSystemColumn = systemColumnNames.some(name => 
           header.toLowerCase().includes(name.toLowerCase().replace(/\s+/g, ''))
         );
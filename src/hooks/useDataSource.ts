@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { DataSourceConfig, Program } from '../types';
+
+export interface DataSourceContextType {
+  config: DataSourceConfig; // Data source of the active program
+  sourceKey: string; // Changes whenever the program, spreadsheet or a tab changes
+  programs: Program[];
+  activeProgram: Program;
+  updateDataSource: (config: DataSourceConfig) => void;
+  resetDataSource: () => void;
+  switchProgram: (programId: string) => void;
+  addProgram: (name: string, config: DataSourceConfig) => void;
+  renameProgram: (programId: string, name: string) => void;
+  removeProgram: (programId: string) => void;
+}
+
+// Lives here rather than in DataSourceContext.tsx so that file only exports the provider component
+export const DataSourceContext = createContext<DataSourceContextType | undefined>(undefined);
+
+export const useDataSource = () => {
+  const ctx = useContext(DataSourceContext);
+  if (!ctx) throw new Error('useDataSource must be used within a DataSourceProvider');
+  return ctx;
+};
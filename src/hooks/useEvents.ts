@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { ProgramEvent, ProgramEventInput } from '../types/event';
+
+export interface EventsContextType {
+  events: ProgramEvent[];
+  loading: boolean;
+  error: string | null;
+  fetchEvents: (accessToken: string) => Promise<void>;
+  addEvent: (accessToken: string, input: ProgramEventInput) => Promise<ProgramEvent>;
+  updateEvent: (accessToken: string, event: ProgramEvent) => Promise<void>;
+  deleteEvent: (accessToken: string, eventId: string) => Promise<void>;
+}
+
+// Lives here rather than in EventsContext.tsx so that file only exports the provider component
+export const EventsContext = createContext<EventsContextType | undefined>(undefined);
+
+export const useEvents = () => {
+  const ctx = useContext(EventsContext);
+  if (!ctx) throw new Error('useEvents must be used within an EventsProvider');
+  return ctx;
+};
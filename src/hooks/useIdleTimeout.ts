@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { IdleTimeoutTracker } from '../services/IdleTimeoutService';
+
+const MAX_WARNING_MS = 60 * 1000; // Warn during the last minute of the session
+
+/**
+ * Custom hook that enforces the idle session timeout from the user's session settings
+ * @param enabled - Whether a session is active (e.g. the user is authenticated)
+ * @param onTimeout - Called once when the session expires; the latest version is always used
+ */
+export function useIdleTimeout(enabled: boolean, onTimeout: () => void) {
+  const { state: settingsState } = useSettings();
+  const timeoutMinutes = settingsState.settings.session.timeout;
+  const timeoutMs = timeoutMinutes * 60 * 1000;
+  const warningMs = Math.min(MAX_WARNING_MS, timeoutMs / 2);
+  const [secondsRemaining, setSecondsRemaining] = useState<number | null>(null);
+  const onTimeoutRef = useRef(onTimeout);
+  const trackerRef = useRef<IdleTimeoutTracker | null>(null);
+
+  // Keep the latest callback without restarting the tracker on every render
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  useEffect(() => {
+    if (!enabled || !timeoutMs || timeoutMs <= 0) return;
+
+    const tracker = new IdleTimeoutTracker({
+      timeoutMs,
+      warningMs,
+      onWarning: (remainingMs) => setSecondsRemaining(Math.ceil(remainingMs / 1000)),
+      onActive: () => setSecondsRemaining(null),
+      onTimeout: () => {
+        setSecondsRemaining(null);
+        onTimeoutRef.current();
+      },
+    });
+    trackerRef.current = tracker;
+    tracker.start();
+
+    return () => {
+      tracker.stop();
+      trackerRef.current = null;
+      setSecondsRemaining(null);
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  const staySignedIn = useCallback(() => {
+    trackerRef.current?.recordActivity();
+  }, []);
+
+  return {
+    warningOpen: secondsRemaining !== null,
+    secondsRemaining: secondsRemaining ?? 0,
+    warningSeconds: Math.ceil(warningMs / 1000),
+    staySignedIn,
+  };
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { tokenManagementService } from '../services/TokenManagementService';
+
+const RENEWAL_LEAD_MS = 5 * 60 * 1000; // Ask to renew 5 minutes before the token expires
+
+/**
+ * What the session renewal prompt shows and does
+ */
+export interface TokenManagement {
+  expiringSoon: boolean;
+  renewalRequired: boolean; // Sheets calls are waiting on a renewal after a 401
+  renewing: boolean;
+  renewError: string | null;
+  renewSession: () => void;
+}
+
+/**
+ * Custom hook that keeps the signed-in user's Google access token fresh.
+ * Google opens a popup to issue a new token, which browsers block without a click, so this asks
+ * the user to continue shortly before `tokenExpiry` or once a Sheets call gets a 401. Only the
+ * tab where they click renews; other tabs pick up the new token from the stored login.
+ */
+export function useTokenManagement(): TokenManagement {
+  const { state: authState, refreshToken } = useAuth();
+  const accessToken = authState.user?.accessToken ?? null;
+  const email = authState.user?.email;
+  // tokenExpiry is a string when the user was restored from localStorage
+  const tokenExpiry = authState.user?.tokenExpiry ? new Date(authState.user.tokenExpiry).getTime() : null;
+  const [expiringTokenExpiry, setExpiringTokenExpiry] = useState<number | null>(null);
+  const [renewalRequired, setRenewalRequired] = useState(false);
+  const [renewing, setRenewing] = useState(false);
+  const [renewError, setRenewError] = useState<string | null>(null);
+
+  // Queued and retried requests always use the latest token
+  useEffect(() => {
+    tokenManagementService.setAccessToken(accessToken);
+  }, [accessToken]);
+
+  useEffect(() => {
+    if (!email) return;
+
+    tokenManagementService.setRefreshHandler(async () => {
+      // An empty prompt skips the consent screen since the user already granted access
+      const response = await tokenManagementService.requestAccessToken({ prompt: '', hint: email });
+      refreshToken(response.access_token, Number(response.expires_in));
+      return response.access_token;
+    });
+
+    return () => tokenManagementService.setRefreshHandler(null);
+  }, [email, refreshToken]);
+
+  useEffect(() => {
+    tokenManagementService.setRenewalRequiredHandler(setRenewalRequired);
+    return () => tokenManagementService.setRenewalRequiredHandler(null);
+  }, []);
+
+  useEffect(() => {
+    if (!tokenExpiry) return;
+
+    const timerId = setTimeout(() => {
+      setExpiringTokenExpiry(tokenExpiry);
+    }, Math.max(0, tokenExpiry - Date.now() - RENEWAL_LEAD_MS));
+
+    return () => clearTimeout(timerId);
+  }, [tokenExpiry]);
+
+  // Called from a click, so Google's popup isn't blocked
+  const renewSession = useCallback(() => {
+    setRenewing(true);
+    setRenewError(null);
+    tokenManagementService.refreshAccessToken()
+      .catch(error => {
+        setRenewError(error instanceof Error ? error.message : 'Failed to renew the session');
+      })
+      .finally(() => setRenewing(false));
+  }, []);
+
+  return {
+    // A renewed token has a new expiry, which clears this
+    expiringSoon: !!tokenExpiry && expiringTokenExpiry === tokenExpiry,
+    renewalRequired: !!email && renewalRequired,
+    renewing,
+    renewError,
+    renewSession,
+  };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useDebounce } from './useDebounce';
+
+/**
+ * Keep filter values in the URL's query string, so a filtered view can be bookmarked or shared.
+ * Changes replace the current history entry, so Back leaves the page rather than undoing each filter.
+ * @param keys - The query parameters this page's filters own; clearing removes only these
+ */
+export function useUrlFilters<K extends string>(keys: readonly K[]) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const getFilter = useCallback((key: K): string => searchParams.get(key) ?? '', [searchParams]);
+
+  const setFilter = useCallback((key: K, value: string) => {
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+      return params;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const clearFilters = useCallback(() => {
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      keys.forEach(key => params.delete(key));
+      return params;
+    }, { replace: true });
+  }, [keys, setSearchParams]);
+
+  return { getFilter, setFilter, clearFilters };
+}
+
+/**
+ * A search box whose text is kept in the URL once the user pauses typing
+ * @returns The text to show in the box, its setter, and the debounced text to filter by
+ */
+export function useUrlSearch(key: string, delay = 300): [string, (text: string) => void, string] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlText = searchParams.get(key) ?? '';
+  const [text, setText] = useState(urlText);
+  const [syncedUrlText, setSyncedUrlText] = useState(urlText);
+  const debouncedText = useDebounce(text, delay);
+  const lastWrittenRef = useRef(urlText);
+
+  // Follow the URL when it changes from outside, e.g. Back, Forward or Clear All, but not
+  // when it has just caught up with what the user typed
+  if (urlText !== syncedUrlText) {
+    setSyncedUrlText(urlText);
+    if (urlText !== debouncedText) setText(urlText);
+  }
+
+  useEffect(() => {
+    if (debouncedText === lastWrittenRef.current) return;
+    lastWrittenRef.current = debouncedText;
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      if (debouncedText.trim()) {
+        params.set(key, debouncedText);
+      } else {
+        params.delete(key);
+      }
+      return params;
+    }, { replace: true });
+  }, [debouncedText, key, setSearchParams]);
+
+  return [text, setText, debouncedText];
+}
@@ -0,0 +1,55 @@
+import type { Student } from '../types';
+import type { AttendedEvent, SignInRow, StudentAttendance } from '../types/signIn';
+import { matchSignIns } from '../utils/signInMatching';
+
+/**
+ * Service for aggregating sign-ins into per-student attendance
+ */
+export class AttendanceService {
+  /**
+   * Summarize attendance for every student with at least one sign-in, keyed by student ID.
+   * Sign-ins are joined to students by saved link, email, phone, or name plus school;
+   * sign-ins still waiting for review are not counted.
+   */
+  static summarize(signIns: SignInRow[], students: Student[]): Map<string, StudentAttendance> {
+    const eventsByStudent = new Map<string, Map<string, AttendedEvent>>();
+
+    matchSignIns(signIns, students).forEach(({ signIn, student, status }) => {
+      if (!student || (status !== 'linked' && status !== 'matched')) return;
+
+      const date = this.parseSignInDate(signIn.date);
+      const event = signIn.event || 'Unnamed event';
+      // Signing in twice to the same event on the same day counts once
+      const key = `${event.toLowerCase()}|${date ? date.toDateString() : signIn.date}`;
+
+      let events = eventsByStudent.get(student.id);
+      if (!events) {
+        events = new Map();
+        eventsByStudent.set(student.id, events);
+      }
+      if (!events.has(key)) {
+        events.set(key, { event, date, rawDate: signIn.date });
+      }
+    });
+
+    const attendance = new Map<string, StudentAttendance>();
+    eventsByStudent.forEach((events, studentId) => {
+      const list = [...events.values()].sort((a, b) => (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0));
+      attendance.set(studentId, {
+        eventsAttended: list.length,
+        lastSeen: list.find(event => event.date)?.date ?? null,
+        events: list
+      });
+    });
+    return attendance;
+  }
+
+  /**
+   * Parse a sign-in date as entered in the sheet, such as 3/14/2025 or 2025-03-14
+   */
+  static parseSignInDate(value: string): Date | null {
+    if (!value?.trim()) return null;
+    const date = new Date(value.trim());
+    return isNaN(date.getTime()) ? null : date;
+  }
+}
@@ -0,0 +1,180 @@
+import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import type { AuditLogEntry, AuditEntity, AuditAction, GoogleSheetsResponse } from '../types';
+import { dataSourceService } from './DataSourceService';
+
+export const CHANGE_LOG_SHEET_NAME = 'ChangeLog';
+const CHANGE_LOG_HEADERS = ['Timestamp', 'User', 'Entity', 'Action', 'Row ID', 'Field', 'Old Value', 'New Value'];
+
+export type AuditLogInput = Omit<AuditLogEntry, 'timestamp' | 'userEmail'>;
+
+/**
+ * Service appending a record of every change to the 'ChangeLog' tab of the active spreadsheet.
+ * Logging never fails the change it describes: errors are reported to the console only.
+ */
+class AuditLogService {
+  private readonly baseUrl = 'https://sheets.googleapis.com/v4';
+  private get spreadsheetId(): string {
+    return dataSourceService.spreadsheetId;
+  }
+  private userEmail = '';
+  private readonly readySpreadsheets = new Set<string>(); // Spreadsheets known to have the tab
+
+  private getAuthHeaders(accessToken: string) {
+    return {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  /**
+   * Set the signed-in user recorded against new entries
+   */
+  setUserEmail(email?: string | null): void {
+    this.userEmail = email ?? '';
+  }
+
+  /**
+   * Append entries to the change log
+   */
+  async log(accessToken: string, entries: AuditLogInput[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    try {
+      await this.ensureChangeLogSheet(accessToken);
+      const timestamp = new Date().toISOString();
+      const rows = entries.map(entry => [
+        timestamp,
+        this.userEmail,
+        entry.entity,
+        entry.action,
+        entry.rowId,
+        entry.field,
+        entry.oldValue,
+        entry.newValue,
+      ]);
+
+      // RAW so logged values are never evaluated as formulas
+      await axios.post(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${CHANGE_LOG_SHEET_NAME}':append`,
+        { values: rows, majorDimension: 'ROWS' },
+        {
+          headers: this.getAuthHeaders(accessToken),
+          params: {
+            valueInputOption: 'RAW',
+            insertDataOption: 'INSERT_ROWS',
+          }
+        }
+      );
+    } catch (error) {
+      console.error('❌ Failed to write to the change log:', error);
+    }
+  }
+
+  /**
+   * Entries for every cell that differs between two versions of a row. Pass an empty
+   * row as `before` for an added row, or as `after` for a removed one.
+   */
+  rowChanges(
+    entity: AuditEntity,
+    rowId: string,
+    headers: string[],
+    before: string[],
+    after: string[],
+    action: AuditAction = 'update'
+  ): AuditLogInput[] {
+    return headers.flatMap((header, index) => {
+      const oldValue = before[index] ?? '';
+      const newValue = after[index] ?? '';
+      return oldValue === newValue ? [] : [{ entity, action, rowId, field: header, oldValue, newValue }];
+    });
+  }
+
+  /**
+   * Read the whole change log, newest entries first
+   */
+  async fetchEntries(accessToken: string): Promise<AuditLogEntry[]> {
+    try {
+      if (!await this.hasChangeLogSheet(accessToken)) {
+        return [];
+      }
+
+      const response: AxiosResponse<GoogleSheetsResponse> = await axios.get(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${CHANGE_LOG_SHEET_NAME}'`,
+        { headers: this.getAuthHeaders(accessToken) }
+      );
+      const [, ...rows] = response.data.values ?? [];
+
+      return rows
+        .filter(row => row.some(cell => cell?.trim()))
+        .map(row => ({
+          timestamp: new Date(row[0]),
+          userEmail: row[1] ?? '',
+          entity: row[2] as AuditEntity,
+          action: row[3] as AuditAction,
+          rowId: row[4] ?? '',
+          field: row[5] ?? '',
+          oldValue: row[6] ?? '',
+          newValue: row[7] ?? '',
+        }))
+        .reverse();
+    } catch (error) {
+      console.error('Error fetching change log:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every change logged against one row, newest first
+   */
+  async fetchRowHistory(accessToken: string, entity: AuditEntity, rowId: string): Promise<AuditLogEntry[]> {
+    const entries = await this.fetchEntries(accessToken);
+    return entries.filter(entry => entry.entity === entity && entry.rowId === rowId);
+  }
+
+  private async hasChangeLogSheet(accessToken: string): Promise<boolean> {
+    if (this.readySpreadsheets.has(this.spreadsheetId)) return true;
+
+    const response = await axios.get(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}`, {
+      headers: this.getAuthHeaders(accessToken),
+      params: { fields: 'sheets.properties.title' }
+    });
+    const sheets: Array<{ properties: { title: string } }> = response.data.sheets ?? [];
+    const exists = sheets.some(sheet => sheet.properties.title === CHANGE_LOG_SHEET_NAME);
+    if (exists) this.readySpreadsheets.add(this.spreadsheetId);
+    return exists;
+  }
+
+  /**
+   * Create the change log tab with its header row the first time something is logged
+   */
+  private async ensureChangeLogSheet(accessToken: string): Promise<void> {
+    if (await this.hasChangeLogSheet(accessToken)) return;
+
+    console.log(`📝 Creating change log tab '${CHANGE_LOG_SHEET_NAME}'`);
+    await axios.post(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`, {
+      requests: [{
+        addSheet: {
+          properties: {
+            title: CHANGE_LOG_SHEET_NAME,
+            gridProperties: { rowCount: 1000, columnCount: CHANGE_LOG_HEADERS.length, frozenRowCount: 1 }
+          }
+        }
+      }]
+    }, {
+      headers: this.getAuthHeaders(accessToken)
+    });
+
+    await axios.put(
+      `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${CHANGE_LOG_SHEET_NAME}'!A1:H1`,
+      { values: [CHANGE_LOG_HEADERS], majorDimension: 'ROWS' },
+      {
+        headers: this.getAuthHeaders(accessToken),
+        params: { valueInputOption: 'RAW' }
+      }
+    );
+    this.readySpreadsheets.add(this.spreadsheetId);
+  }
+}
+
+export const auditLogService = new AuditLogService();
@@ -0,0 +1,131 @@
+/**
+ * Options controlling how often a background sync task runs
+ */
+export interface BackgroundSyncOptions {
+  intervalMs: number;
+  maxBackoffMs?: number;
+}
+
+const DEFAULT_MAX_BACKOFF_MS = 5 * 60 * 1000; // 5 minutes
+const MIN_INTERVAL_MS = 5000; // Never poll the Sheets API faster than every 5 seconds
+
+/**
+ * Scheduler that periodically runs a sync task while the page is visible and online.
+ *
+ * - Pauses while the tab is hidden or the browser is offline
+ * - Runs an immediate catch-up sync when the tab becomes visible or the connection returns
+ * - Backs off exponentially after consecutive failures
+ */
+export class BackgroundSyncScheduler {
+  private readonly task: () => Promise<void>;
+  private readonly intervalMs: number;
+  private readonly maxBackoffMs: number;
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private inFlight = false;
+  private consecutiveFailures = 0;
+  private lastRunAt = 0;
+
+  constructor(task: () => Promise<void>, options: BackgroundSyncOptions) {
+    this.task = task;
+    this.intervalMs = Math.max(options.intervalMs, MIN_INTERVAL_MS);
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+  }
+
+  /**
+   * Start scheduling sync runs
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.lastRunAt = Date.now();
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+
+    this.scheduleNext(this.intervalMs);
+  }
+
+  /**
+   * Stop scheduling and remove all listeners
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+  }
+
+  /**
+   * Current delay between runs, including any error backoff
+   */
+  getCurrentDelay(): number {
+    if (this.consecutiveFailures === 0) return this.intervalMs;
+    const backoff = this.intervalMs * Math.pow(2, this.consecutiveFailures);
+    return Math.min(backoff, this.maxBackoffMs);
+  }
+
+  private canRun(): boolean {
+    return this.running && document.visibilityState === 'visible' && navigator.onLine;
+  }
+
+  private scheduleNext(delay: number): void {
+    this.clearTimer();
+    if (!this.canRun()) return;
+    this.timerId = setTimeout(() => {
+      void this.run();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+  }
+
+  private async run(): Promise<void> {
+    this.timerId = null;
+    if (!this.canRun() || this.inFlight) return;
+
+    this.inFlight = true;
+    try {
+      await this.task();
+      this.consecutiveFailures = 0;
+    } catch (error) {
+      this.consecutiveFailures++;
+      console.error(`Background sync failed (attempt ${this.consecutiveFailures}), retrying in ${this.getCurrentDelay()}ms:`, error);
+    } finally {
+      this.inFlight = false;
+      this.lastRunAt = Date.now();
+    }
+
+    this.scheduleNext(this.getCurrentDelay());
+  }
+
+  /**
+   * Resume when the tab becomes visible again, syncing right away if the last run is stale
+   */
+  private handleVisibilityChange = () => {
+    if (document.visibilityState !== 'visible') {
+      this.clearTimer();
+      return;
+    }
+
+    const elapsed = Date.now() - this.lastRunAt;
+    this.scheduleNext(Math.max(0, this.getCurrentDelay() - elapsed));
+  };
+
+  private handleOnline = () => {
+    // A restored connection is a fresh start, so drop any backoff from offline failures
+    this.consecutiveFailures = 0;
+    this.scheduleNext(0);
+  };
+
+  private handleOffline = () => {
+    this.clearTimer();
+  };
+}
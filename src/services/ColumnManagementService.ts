@@ -1,4 +1,5 @@
 import { googleSheetsService } from './GoogleSheetsService';
+import { dataSourceService } from './DataSourceService';
 import type { ColumnSettings } from '../contexts/SettingsContext';
 
 export class ColumnManagementService {
@@ -19,7 +20,7 @@ export class ColumnManagementService {
       const columnLetter = this.getNextAvailableColumn();
       
       // Add the header for the new column
-      const range = `AllScholars!${columnLetter}1`;
+      const range = `'${dataSourceService.studentsSheetName}'!${columnLetter}1`;
       
       // This is a placeholder - you'd need to implement the actual Google Sheets API call
       // to add a column header. The exact implementation depends on your sheet structure.
@@ -0,0 +1,130 @@
+import type { Student } from '../types';
+import type { SignInRow } from '../types/signIn';
+import { dataSourceService } from './DataSourceService';
+
+const CACHE_STORAGE_KEY_PREFIX = 'studentApp_cache';
+const MAX_CACHE_AGE_MS = 24 * 60 * 60 * 1000; // Never show data older than a day
+
+type CacheDataset = 'students' | 'signIns' | 'studentHeaders' | 'signInHeaders';
+
+export interface CachedSnapshot<T> {
+  savedAt: Date;
+  data: T;
+}
+
+/**
+ * Service for the per-user snapshot of sheet data shown while fresh data loads
+ */
+export class DataCacheService {
+  /**
+   * Get the storage key prefix covering every data source a user has cached
+   */
+  private static getUserKeyPrefix(dataset: CacheDataset, userEmail: string): string {
+    return `${CACHE_STORAGE_KEY_PREFIX}_${dataset}_${userEmail}_`;
+  }
+
+  /**
+   * Get user-specific storage key for a dataset from the active data source
+   */
+  private static getStorageKey(dataset: CacheDataset, userEmail: string): string {
+    return `${this.getUserKeyPrefix(dataset, userEmail)}${dataSourceService.getSourceKey()}`;
+  }
+
+  private static save<T>(dataset: CacheDataset, userEmail: string, data: T): void {
+    try {
+      const snapshot = { savedAt: Date.now(), data };
+      localStorage.setItem(this.getStorageKey(dataset, userEmail), JSON.stringify(snapshot));
+    } catch (error) {
+      // A full localStorage only costs us the instant startup, so don't surface it
+      console.error(`Failed to cache ${dataset} in localStorage:`, error);
+    }
+  }
+
+  private static load<T>(dataset: CacheDataset, userEmail: string): CachedSnapshot<T> | null {
+    try {
+      const storageKey = this.getStorageKey(dataset, userEmail);
+      const stored = localStorage.getItem(storageKey);
+      if (!stored) return null;
+
+      const snapshot: { savedAt: number; data: T } = JSON.parse(stored);
+      if (Date.now() - snapshot.savedAt > MAX_CACHE_AGE_MS) {
+        localStorage.removeItem(storageKey);
+        return null;
+      }
+
+      return { savedAt: new Date(snapshot.savedAt), data: snapshot.data };
+    } catch (error) {
+      console.error(`Failed to load cached ${dataset} from localStorage:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Cache the latest students fetched from the sheet
+   */
+  static saveStudents(userEmail: string, students: Student[]): void {
+    this.save('students', userEmail, students);
+  }
+
+  /**
+   * Load cached students, restoring their date fields
+   */
+  static loadStudents(userEmail: string): CachedSnapshot<Student[]> | null {
+    const snapshot = this.load<Student[]>('students', userEmail);
+    if (!snapshot) return null;
+
+    const toDate = (value?: Date | string) => value ? new Date(value) : undefined;
+    return {
+      ...snapshot,
+      data: snapshot.data.map(student => ({
+        ...student,
+        dob: new Date(student.dob),
+        careerExploration: toDate(student.careerExploration),
+        collegeExploration: toDate(student.collegeExploration),
+        lastModified: new Date(student.lastModified),
+      })),
+    };
+  }
+
+  /**
+   * Cache the latest sign-ins fetched from the sheet
+   */
+  static saveSignIns(userEmail: string, signIns: SignInRow[]): void {
+    this.save('signIns', userEmail, signIns);
+  }
+
+  /**
+   * Load cached sign-ins
+   */
+  static loadSignIns(userEmail: string): CachedSnapshot<SignInRow[]> | null {
+    return this.load<SignInRow[]>('signIns', userEmail);
+  }
+
+  /**
+   * Cache the header row of the students or sign-ins sheet
+   */
+  static saveHeaders(sheet: 'students' | 'signIns', userEmail: string, headers: string[]): void {
+    this.save(sheet === 'students' ? 'studentHeaders' : 'signInHeaders', userEmail, headers);
+  }
+
+  /**
+   * Load a cached header row
+   */
+  static loadHeaders(sheet: 'students' | 'signIns', userEmail: string): CachedSnapshot<string[]> | null {
+    return this.load<string[]>(sheet === 'students' ? 'studentHeaders' : 'signInHeaders', userEmail);
+  }
+
+  /**
+   * Remove every cached dataset for a user across all data sources (e.g. on logout)
+   */
+  static clearUserCache(userEmail: string): void {
+    const datasets: CacheDataset[] = ['students', 'signIns', 'studentHeaders', 'signInHeaders'];
+    const prefixes = datasets.map(dataset => this.getUserKeyPrefix(dataset, userEmail));
+    try {
+      const keys = Object.keys(localStorage).filter(key => prefixes.some(prefix => key.startsWith(prefix)));
+      keys.forEach(key => localStorage.removeItem(key));
+    } catch (error) {
+      console.error('Failed to clear cached data from localStorage:', error);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import type { DataSourceConfig, Program, ProgramList } from '../types';
+
+const DATA_SOURCE_STORAGE_KEY_PREFIX = 'studentApp_dataSource'; // Single data source saved before programs existed
+const PROGRAMS_STORAGE_KEY_PREFIX = 'studentApp_programs';
+
+export const DEFAULT_PROGRAM_ID = 'default';
+
+export const DEFAULT_STUDENTS_SHEET_NAME = 'AllScholars';
+export const DEFAULT_SIGN_INS_SHEET_NAME = 'sign-ins';
+export const DEFAULT_ARCHIVED_SHEET_NAME = 'Archived';
+export const DEFAULT_EVENTS_SHEET_NAME = 'Events';
+
+/**
+ * Service holding the spreadsheet and tabs every Sheets service reads from and writes to.
+ * Each user has a list of programs, each with its own data source; the first program
+ * falls back to VITE_GOOGLE_SHEETS_ID and the default tab names.
+ */
+class DataSourceService {
+  private activeConfig: DataSourceConfig = this.getDefaultConfig();
+
+  /**
+   * Get user-specific storage key
+   */
+  private getStorageKey(userEmail: string): string {
+    return `${PROGRAMS_STORAGE_KEY_PREFIX}_${userEmail}`;
+  }
+
+  /**
+   * The data source configured through environment variables
+   */
+  getDefaultConfig(): DataSourceConfig {
+    return {
+      spreadsheetId: import.meta.env.VITE_GOOGLE_SHEETS_ID ?? '',
+      studentsSheetName: DEFAULT_STUDENTS_SHEET_NAME,
+      signInsSheetName: DEFAULT_SIGN_INS_SHEET_NAME,
+      archivedSheetName: DEFAULT_ARCHIVED_SHEET_NAME,
+      eventsSheetName: DEFAULT_EVENTS_SHEET_NAME,
+    };
+  }
+
+  /**
+   * Fill anything unset in a saved data source from the defaults
+   */
+  private withDefaults(config: Partial<DataSourceConfig> = {}): DataSourceConfig {
+    const defaults = this.getDefaultConfig();
+    return {
+      spreadsheetId: config.spreadsheetId?.trim() || defaults.spreadsheetId,
+      studentsSheetName: config.studentsSheetName?.trim() || defaults.studentsSheetName,
+      signInsSheetName: config.signInsSheetName?.trim() || defaults.signInsSheetName,
+      archivedSheetName: config.archivedSheetName?.trim() || defaults.archivedSheetName,
+      eventsSheetName: config.eventsSheetName?.trim() || defaults.eventsSheetName,
+    };
+  }
+
+  /**
+   * Load a user's programs, migrating a data source saved before programs existed
+   */
+  loadPrograms(userEmail: string): ProgramList {
+    try {
+      const stored = localStorage.getItem(this.getStorageKey(userEmail));
+      if (stored) {
+        const parsed: ProgramList = JSON.parse(stored);
+        if (parsed.programs?.length) {
+          const programs = parsed.programs.map(program => ({ ...program, dataSource: this.withDefaults(program.dataSource) }));
+          const activeProgramId = programs.some(program => program.id === parsed.activeProgramId)
+            ? parsed.activeProgramId
+            : programs[0].id;
+          return { programs, activeProgramId };
+        }
+      }
+
+      const legacy = localStorage.getItem(`${DATA_SOURCE_STORAGE_KEY_PREFIX}_${userEmail}`);
+      return this.getDefaultPrograms(legacy ? JSON.parse(legacy) : undefined);
+    } catch (error) {
+      console.error('Failed to load programs from localStorage:', error);
+      return this.getDefaultPrograms();
+    }
+  }
+
+  /**
+   * A single default program, optionally with a previously saved data source
+   */
+  getDefaultPrograms(dataSource?: Partial<DataSourceConfig>): ProgramList {
+    return {
+      programs: [{ id: DEFAULT_PROGRAM_ID, name: 'Default Program', dataSource: this.withDefaults(dataSource) }],
+      activeProgramId: DEFAULT_PROGRAM_ID,
+    };
+  }
+
+  /**
+   * Save a user's programs
+   */
+  savePrograms(userEmail: string, programList: ProgramList): void {
+    try {
+      localStorage.setItem(this.getStorageKey(userEmail), JSON.stringify(programList));
+    } catch (error) {
+      console.error('Failed to save programs to localStorage:', error);
+      throw new Error('Unable to save programs. Please try again.');
+    }
+  }
+
+  /**
+   * Generate an ID for a new program
+   */
+  generateProgramId(): string {
+    return `program_${Date.now()}`;
+  }
+
+  /**
+   * Get the active program from a program list
+   */
+  getActiveProgram(programList: ProgramList): Program {
+    return programList.programs.find(program => program.id === programList.activeProgramId) ?? programList.programs[0];
+  }
+
+  /**
+   * Point every Sheets service at a data source
+   */
+  setActiveConfig(config: DataSourceConfig): void {
+    this.activeConfig = config;
+  }
+
+  getActiveConfig(): DataSourceConfig {
+    return this.activeConfig;
+  }
+
+  get spreadsheetId(): string {
+    return this.activeConfig.spreadsheetId;
+  }
+
+  get studentsSheetName(): string {
+    return this.activeConfig.studentsSheetName;
+  }
+
+  get signInsSheetName(): string {
+    return this.activeConfig.signInsSheetName;
+  }
+
+  get archivedSheetName(): string {
+    return this.activeConfig.archivedSheetName;
+  }
+
+  get eventsSheetName(): string {
+    return this.activeConfig.eventsSheetName;
+  }
+
+  /**
+   * Stable identifier for a data source, used to keep caches and queued writes apart
+   */
+  getSourceKey(config: DataSourceConfig = this.activeConfig): string {
+    return `${config.spreadsheetId}|${config.studentsSheetName}|${config.signInsSheetName}`;
+  }
+}
+
+export const dataSourceService = new DataSourceService();
@@ -4,6 +4,12 @@ import type { Student, ValidationResult } from '../types';
  * Service for transforming and validating student data
  */
 export class DataTransformService {
+  /**
+   * Header of the hidden column that stores each scholar's persistent ID
+   */
+  static readonly STUDENT_ID_HEADER = 'Scholar ID';
+  private static readonly TEMPORARY_ID_PREFIX = 'unassigned_row_';
+
   /**
    * Convert raw Google Sheets data to Student objects
    */
@@ -17,6 +23,13 @@ export class DataTransformService {
     return rows.map((row, index) => this.transformRowToStudent(row, headers, index));
   }
 
+  /**
+   * Convert a single sheet row (at a known 1-based sheet row number) to a Student object
+   */
+  static transformSheetRowToStudent(row: string[], headers: string[], rowIndex: number): Student {
+    return this.transformRowToStudent(row, headers, rowIndex - 2);
+  }
+
   /**
    * Convert a single row to Student object
    */
@@ -28,6 +41,9 @@ export class DataTransformService {
       const normalizedHeader = this.normalizeHeader(header);
       
       switch (normalizedHeader) {
+        case 'scholarid':
+          student.id = value.trim() || undefined;
+          break;
         case 'lastname':
           student.lastName = value.trim();
           break;
@@ -104,7 +120,7 @@ export class DataTransformService {
 
     return {
       ...student,
-      id: this.generateStudentId(index),
+      id: student.id || this.generateStudentId(index), // Rows without a persistent ID yet get a temporary one
       rowIndex: index + 2, // +2 because sheets are 1-indexed and first row is headers
       lastModified: new Date(),
       customFields: student.customFields || {}
@@ -148,6 +164,8 @@ export class DataTransformService {
       
       // Handle standard fields
       switch (normalizedHeader) {
+        case 'scholarid':
+          return student.id || '';
         case 'lastname':
           return student.lastName || '';
         case 'firstname':
@@ -236,6 +254,13 @@ export class DataTransformService {
       .replace(/^_|_$/g, '');
   }
 
+  /**
+   * Check whether a header is the persistent scholar ID column
+   */
+  static isStudentIdHeader(header: string): boolean {
+    return this.normalizeHeader(header) === this.normalizeHeader(this.STUDENT_ID_HEADER);
+  }
+
   /**
    * Normalize header names for consistent matching
    */
@@ -348,11 +373,25 @@ export class DataTransformService {
   }
 
   /**
-   * Generate unique student ID
+   * Generate a temporary ID for a row with no persistent ID yet. It follows the row number,
+   * so it stays the same across background syncs until rows move
    */
   private static generateStudentId(index: number): string {
-    const timestamp = Date.now();
-    return `student_${timestamp}_${index}`;
+    return `${this.TEMPORARY_ID_PREFIX}${index + 2}`;
+  }
+
+  /**
+   * Whether a student only has a temporary ID, so it can't be written back or linked to by ID
+   */
+  static isTemporaryStudentId(id: string): boolean {
+    return id.startsWith(this.TEMPORARY_ID_PREFIX);
+  }
+
+  /**
+   * Generate a persistent student ID to store in the scholar ID column
+   */
+  static generatePersistentStudentId(): string {
+    return `scholar_${crypto.randomUUID()}`;
   }
 
   /**
@@ -459,7 +498,7 @@ export class DataTransformService {
    */
   static detectCustomColumns(headers: string[]): Array<{id: string, headerName: string, field: string}> {
     const knownHeaders = new Set([
-      'lastname', 'firstname', 'email', 'cellnumber', 'cellnumberxxxxx', 'cellnumberxxxxxxxxx',
+      'scholarid', 'lastname', 'firstname', 'email', 'cellnumber', 'cellnumberxxxxx', 'cellnumberxxxxxxxxx',
       'phone', 'phonenumber', 'cellphone', 'cell', 'mobile', 'mobilenumber', 'parentsname', 
       'parentname', 'parentscell', 'parentcell', 'parentsemail', 'parentemail', 'highschool',
       'graduationyear', 'dob', 'parentform', 'careerexploration', 'collegeexploration',
@@ -0,0 +1,215 @@
+import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import type { GoogleSheetsResponse } from '../types';
+import type { ProgramEvent, ProgramEventInput } from '../types/event';
+import { dataSourceService } from './DataSourceService';
+import { auditLogService } from './AuditLogService';
+
+const EVENT_HEADERS = ['Event ID', 'Name', 'Date', 'Location', 'Type', 'Points'];
+
+interface SheetProperties {
+  sheetId: number;
+  title: string;
+}
+
+/**
+ * Service for the canonical events kept on the events tab, which sign-ins refer to by name
+ */
+class EventService {
+  private readonly baseUrl = 'https://sheets.googleapis.com/v4';
+  // Read on every call so a data source change in Settings applies immediately
+  private get spreadsheetId(): string {
+    return dataSourceService.spreadsheetId;
+  }
+  private get sheetName(): string {
+    return dataSourceService.eventsSheetName;
+  }
+
+  private getAuthHeaders(accessToken: string) {
+    return {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  /**
+   * Read every event, in sheet order; an events tab that doesn't exist yet has none
+   */
+  async fetchEvents(accessToken: string): Promise<ProgramEvent[]> {
+    try {
+      if (!await this.getEventsSheet(accessToken)) {
+        return [];
+      }
+
+      const [, ...rows] = await this.readValues(accessToken, `'${this.sheetName}'`);
+      const events: ProgramEvent[] = [];
+      rows.forEach((row, index) => {
+        if (!row[0]?.trim() && !row[1]?.trim()) return;
+        events.push(this.rowToEvent(row, index + 2));
+      });
+      return events;
+    } catch (error) {
+      console.error('Error fetching events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add an event, creating the events tab first if needed
+   */
+  async addEvent(accessToken: string, input: ProgramEventInput): Promise<ProgramEvent> {
+    try {
+      await this.ensureEventsSheet(accessToken);
+      const event: ProgramEvent = { ...input, id: this.generateEventId(), rowIndex: -1 };
+      const row = this.eventToRow(event);
+
+      const response = await axios.post(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${this.sheetName}':append`,
+        { values: [row], majorDimension: 'ROWS' },
+        {
+          headers: this.getAuthHeaders(accessToken),
+          params: {
+            valueInputOption: 'RAW',
+            insertDataOption: 'INSERT_ROWS',
+          }
+        }
+      );
+      const match = response.data?.updates?.updatedRange?.match(/![A-Z]+(\d+)/);
+      await auditLogService.log(accessToken, auditLogService.rowChanges('event', event.id, EVENT_HEADERS, [], row, 'add'));
+      return { ...event, rowIndex: match ? parseInt(match[1], 10) : -1 };
+    } catch (error) {
+      console.error('Error adding event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Overwrite an event's row, found again by ID in case rows moved
+   */
+  async updateEvent(accessToken: string, event: ProgramEvent): Promise<ProgramEvent> {
+    try {
+      const { rowIndex, current } = await this.findEventRow(accessToken, event.id);
+      const row = this.eventToRow(event);
+
+      await axios.put(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${this.sheetName}'!A${rowIndex}:F${rowIndex}`,
+        { values: [row], majorDimension: 'ROWS' },
+        {
+          headers: this.getAuthHeaders(accessToken),
+          params: { valueInputOption: 'RAW' }
+        }
+      );
+      await auditLogService.log(accessToken, auditLogService.rowChanges('event', event.id, EVENT_HEADERS, current, row));
+      return { ...event, rowIndex };
+    } catch (error) {
+      console.error('Error updating event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an event's row. Sign-ins keep the event name they were recorded with.
+   */
+  async deleteEvent(accessToken: string, eventId: string): Promise<void> {
+    try {
+      const { rowIndex, current } = await this.findEventRow(accessToken, eventId);
+      const sheet = await this.getEventsSheet(accessToken);
+      if (!sheet) {
+        throw new Error(`Sheet '${this.sheetName}' not found`);
+      }
+
+      await axios.post(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`, {
+        requests: [{
+          deleteDimension: {
+            range: { sheetId: sheet.sheetId, dimension: 'ROWS', startIndex: rowIndex - 1, endIndex: rowIndex }
+          }
+        }]
+      }, {
+        headers: this.getAuthHeaders(accessToken)
+      });
+      await auditLogService.log(accessToken, auditLogService.rowChanges('event', eventId, EVENT_HEADERS, current, [], 'delete'));
+    } catch (error) {
+      console.error('Error deleting event:', error);
+      throw error;
+    }
+  }
+
+  private async findEventRow(accessToken: string, eventId: string): Promise<{ rowIndex: number; current: string[] }> {
+    const [, ...rows] = await this.readValues(accessToken, `'${this.sheetName}'`);
+    const index = rows.findIndex(row => row[0]?.trim() === eventId);
+    if (index === -1) {
+      throw new Error('This event no longer exists in Google Sheets. Refresh the events and try again.');
+    }
+    return { rowIndex: index + 2, current: rows[index] };
+  }
+
+  private rowToEvent(row: string[], rowIndex: number): ProgramEvent {
+    const points = parseFloat(row[5] ?? '');
+    return {
+      id: row[0]?.trim() ?? '',
+      name: row[1]?.trim() ?? '',
+      date: row[2]?.trim() ?? '',
+      location: row[3]?.trim() ?? '',
+      type: row[4]?.trim() ?? '',
+      points: isNaN(points) ? 0 : points,
+      rowIndex,
+    };
+  }
+
+  private eventToRow(event: ProgramEvent): string[] {
+    return [event.id, event.name.trim(), event.date, event.location.trim(), event.type.trim(), event.points.toString()];
+  }
+
+  private generateEventId(): string {
+    return `EVT-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+  }
+
+  private async getEventsSheet(accessToken: string): Promise<SheetProperties | null> {
+    const response = await axios.get(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}`, {
+      headers: this.getAuthHeaders(accessToken),
+      params: { fields: 'sheets.properties' }
+    });
+    const sheets: Array<{ properties: SheetProperties }> = response.data.sheets ?? [];
+    return sheets.find(sheet => sheet.properties.title === this.sheetName)?.properties ?? null;
+  }
+
+  /**
+   * Create the events tab with its header row the first time an event is added
+   */
+  private async ensureEventsSheet(accessToken: string): Promise<void> {
+    if (await this.getEventsSheet(accessToken)) return;
+
+    console.log(`📅 Creating events tab '${this.sheetName}'`);
+    await axios.post(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`, {
+      requests: [{
+        addSheet: {
+          properties: {
+            title: this.sheetName,
+            gridProperties: { rowCount: 1000, columnCount: EVENT_HEADERS.length, frozenRowCount: 1 }
+          }
+        }
+      }]
+    }, {
+      headers: this.getAuthHeaders(accessToken)
+    });
+
+    await axios.put(
+      `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${this.sheetName}'!A1:F1`,
+      { values: [EVENT_HEADERS], majorDimension: 'ROWS' },
+      {
+        headers: this.getAuthHeaders(accessToken),
+        params: { valueInputOption: 'RAW' }
+      }
+    );
+  }
+
+  private async readValues(accessToken: string, range: string): Promise<string[][]> {
+    const response: AxiosResponse<GoogleSheetsResponse> = await axios.get(
+      `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`,
+      { headers: this.getAuthHeaders(accessToken) }
+    );
+    return response.data.values ?? [];
+  }
+}
+
+export const eventService = new EventService();
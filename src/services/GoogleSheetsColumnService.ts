@@ -1,17 +1,24 @@
 import axios from 'axios';
 import type { ColumnSettings } from '../contexts/SettingsContext';
+import { DataTransformService } from './DataTransformService';
+import { dataSourceService } from './DataSourceService';
+import { auditLogService } from './AuditLogService';
 
 /**
  * Service for managing Google Sheets column structure and metadata
  */
 export class GoogleSheetsColumnService {
   private readonly baseUrl = 'https://sheets.googleapis.com/v4';
-  private readonly spreadsheetId: string;
+  // Read on every call so a data source change in Settings applies immediately
+  private get spreadsheetId(): string {
+    return dataSourceService.spreadsheetId;
+  }
+  private get sheetName(): string {
+    return dataSourceService.studentsSheetName;
+  }
   private readonly apiKey: string;
-  private readonly sheetName = 'AllScholars';
 
   constructor() {
-    this.spreadsheetId = import.meta.env.VITE_GOOGLE_SHEETS_ID;
     this.apiKey = import.meta.env.VITE_GOOGLE_API_KEY;
     
     if (!this.spreadsheetId || !this.apiKey) {
@@ -31,7 +38,7 @@ export class GoogleSheetsColumnService {
    */
   async getSheetHeaders(accessToken: string): Promise<string[]> {
     try {
-      const range = `${this.sheetName}!1:1`;
+      const range = `'${this.sheetName}'!1:1`;
       const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`;
       
       const response = await axios.get(url, {
@@ -84,6 +91,139 @@ export class GoogleSheetsColumnService {
     }
   }
 
+  /**
+   * Make sure the hidden scholar ID column exists, creating and hiding it if needed.
+   * Returns the (possibly extended) header row.
+   */
+  async ensureStudentIdColumn(accessToken: string, headers?: string[]): Promise<string[]> {
+    const currentHeaders = headers ?? await this.getSheetHeaders(accessToken);
+    if (currentHeaders.some(header => DataTransformService.isStudentIdHeader(header))) {
+      return currentHeaders;
+    }
+
+    try {
+      const metadata = await this.getSheetMetadata(accessToken);
+      const columnIndex = currentHeaders.length;
+      const requests: object[] = [];
+
+      // Grow the grid first if the header row already fills every column
+      if (columnIndex >= metadata.columnCount) {
+        requests.push({
+          appendDimension: {
+            sheetId: metadata.sheetId,
+            dimension: 'COLUMNS',
+            length: 1
+          }
+        });
+      }
+
+      requests.push({
+        updateDimensionProperties: {
+          range: {
+            sheetId: metadata.sheetId,
+            dimension: 'COLUMNS',
+            startIndex: columnIndex,
+            endIndex: columnIndex + 1
+          },
+          properties: { hiddenByUser: true },
+          fields: 'hiddenByUser'
+        }
+      });
+
+      await this.batchUpdate(accessToken, requests);
+
+      const columnLetter = this.numberToColumn(columnIndex + 1);
+      await this.batchUpdateValues(
+        accessToken,
+        `'${this.sheetName}'!${columnLetter}1`,
+        [[DataTransformService.STUDENT_ID_HEADER]]
+      );
+
+      console.log(`✅ Created hidden '${DataTransformService.STUDENT_ID_HEADER}' column at ${columnLetter}1`);
+      return [...currentHeaders, DataTransformService.STUDENT_ID_HEADER];
+    } catch (error) {
+      console.error('❌ Error creating scholar ID column:', error);
+      throw new Error(`Failed to create scholar ID column: ${error}`);
+    }
+  }
+
+  /**
+   * Assign persistent IDs to every non-empty data row that doesn't have one yet.
+   * Takes the raw sheet values (header row first) and returns how many rows were given an ID.
+   */
+  async backfillStudentIds(accessToken: string, values: string[][]): Promise<number> {
+    const [sheetHeaders = [], ...rows] = values;
+    const headers = await this.ensureStudentIdColumn(accessToken, sheetHeaders);
+    const idColumnIndex = headers.findIndex(header => DataTransformService.isStudentIdHeader(header));
+    const columnLetter = this.numberToColumn(idColumnIndex + 1);
+
+    const updates: { range: string; values: string[][] }[] = [];
+    rows.forEach((row, index) => {
+      const hasData = row.some(cell => cell && cell.trim() !== '');
+      if (!hasData || row[idColumnIndex]?.trim()) {
+        return;
+      }
+
+      updates.push({
+        range: `'${this.sheetName}'!${columnLetter}${index + 2}`,
+        values: [[DataTransformService.generatePersistentStudentId()]]
+      });
+    });
+
+    if (updates.length > 0) {
+      try {
+        await this.batchUpdateValueRanges(accessToken, updates);
+        console.log(`✅ Backfilled scholar IDs for ${updates.length} rows`);
+      } catch (error) {
+        console.error('❌ Error backfilling scholar IDs:', error);
+        throw new Error(`Failed to backfill scholar IDs: ${error}`);
+      }
+    }
+
+    return updates.length;
+  }
+
+  /**
+   * Find the current sheet row number (1-based) of a student by persistent ID
+   */
+  async findStudentRowById(accessToken: string, studentId: string, headers?: string[]): Promise<number | null> {
+    const rowsById = await this.getStudentRowsById(accessToken, headers);
+    return rowsById.get(studentId) ?? null;
+  }
+
+  /**
+   * Map every persistent student ID to its current sheet row number (1-based)
+   */
+  async getStudentRowsById(accessToken: string, headers?: string[]): Promise<Map<string, number>> {
+    try {
+      const currentHeaders = headers ?? await this.getSheetHeaders(accessToken);
+      const idColumnIndex = currentHeaders.findIndex(header => DataTransformService.isStudentIdHeader(header));
+      if (idColumnIndex === -1) return new Map();
+
+      const columnLetter = this.numberToColumn(idColumnIndex + 1);
+      const range = `'${this.sheetName}'!${columnLetter}2:${columnLetter}`;
+
+      const response = await axios.get(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`,
+        {
+          headers: this.getAuthHeaders(accessToken),
+          params: { key: this.apiKey }
+        }
+      );
+
+      const ids: string[][] = response.data.values || [];
+      const rowsById = new Map<string, number>();
+      ids.forEach((row, index) => {
+        const id = row[0]?.trim();
+        if (id && !rowsById.has(id)) rowsById.set(id, index + 2);
+      });
+      return rowsById;
+    } catch (error) {
+      console.error('Error looking up student row by ID:', error);
+      throw new Error('Failed to look up student row');
+    }
+  }
+
   /**
    * Add a new column to the Google Sheet
    */
@@ -102,9 +242,12 @@ export class GoogleSheetsColumnService {
 
       // Use batchUpdate for values
       const columnLetter = this.numberToColumn(targetColumnIndex + 1);
-      const range = `${this.sheetName}!${columnLetter}1`;
+      const range = `'${this.sheetName}'!${columnLetter}1`;
       
       await this.batchUpdateValues(accessToken, range, [[columnName]]);
+      await auditLogService.log(accessToken, [{
+        entity: 'studentColumn', action: 'add', rowId: columnName, field: 'Header', oldValue: '', newValue: columnName
+      }]);
 
       console.log(`✅ Successfully added column '${columnName}' at ${columnLetter}1`);
     } catch (error) {
@@ -138,6 +281,10 @@ export class GoogleSheetsColumnService {
         newColumnName
       );
 
+      await auditLogService.log(accessToken, [{
+        entity: 'studentColumn', action: 'rename', rowId: oldColumnName, field: 'Header', oldValue: oldColumnName, newValue: newColumnName
+      }]);
+
       console.log(`Successfully renamed column from '${oldColumnName}' to '${newColumnName}'`);
     } catch (error) {
       console.error('Error renaming column:', error);
@@ -164,6 +311,10 @@ export class GoogleSheetsColumnService {
       // Delete the column
       await this.deleteColumns(accessToken, metadata.sheetId, columnIndex, 1);
 
+      await auditLogService.log(accessToken, [{
+        entity: 'studentColumn', action: 'delete', rowId: columnName, field: 'Header', oldValue: columnName, newValue: ''
+      }]);
+
       console.log(`Successfully removed column '${columnName}'`);
     } catch (error) {
       console.error('Error removing column:', error);
@@ -194,6 +345,10 @@ export class GoogleSheetsColumnService {
       const range = `'${this.sheetName}'!1:1`;
       await this.updateRange(accessToken, range, [newHeaderOrder]);
 
+      await auditLogService.log(accessToken, [{
+        entity: 'studentColumn', action: 'reorder', rowId: '', field: 'Column Order', oldValue: currentHeaders.join(', '), newValue: newHeaderOrder.join(', ')
+      }]);
+
       console.log('Successfully reordered columns');
     } catch (error) {
       console.error('Error reordering columns:', error);
@@ -314,7 +469,7 @@ export class GoogleSheetsColumnService {
       'firstname', 'lastname', 'email', 'cellnumber', 'highschool', 
       'graduationyear', 'parentname', 'parentcell', 'parentemail',
       'dob', 'parentform', 'careerexploration', 'collegeexploration',
-      'participationpoints', 'spreadsheetsubmitted', 'places'
+      'participationpoints', 'spreadsheetsubmitted', 'places', 'scholarid'
     ];
     
     return systemColumns.includes(columnName.toLowerCase().replace(/\s+/g, ''));
@@ -353,7 +508,7 @@ export class GoogleSheetsColumnService {
     value: string
   ): Promise<void> {
     const columnLetter = this.numberToColumn(column);
-    const range = `${this.sheetName}!${columnLetter}${row}`;
+    const range = `'${this.sheetName}'!${columnLetter}${row}`;
     
     await this.updateRange(accessToken, range, [[value]]);
   }
@@ -428,6 +583,29 @@ export class GoogleSheetsColumnService {
     }
   }
 
+  /**
+   * Write several value ranges in a single values:batchUpdate call
+   */
+  private async batchUpdateValueRanges(
+    accessToken: string,
+    data: { range: string; values: string[][] }[]
+  ): Promise<void> {
+    const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values:batchUpdate`;
+
+    try {
+      await axios.post(url, {
+        valueInputOption: 'RAW',
+        data: data.map(entry => ({ ...entry, majorDimension: 'ROWS' }))
+      }, {
+        headers: this.getAuthHeaders(accessToken),
+        params: { key: this.apiKey }
+      });
+    } catch (error) {
+      console.error('❌ Failed to update values:', axios.isAxiosError(error) ? error.response?.data : error);
+      throw error;
+    }
+  }
+
   /**
    * Convert column number to letter (1 = A, 26 = Z, 27 = AA, etc.)
    */
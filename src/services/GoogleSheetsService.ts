@@ -1,17 +1,30 @@
 import axios from 'axios';
 import type { AxiosResponse } from 'axios';
-import type { Student, GoogleSheetsResponse, SheetMetadata, BatchUpdate } from '../types';
+import type { Student, GoogleSheetsResponse, SheetMetadata, BatchUpdate, StudentFetchResult } from '../types';
 import { DataTransformService } from './DataTransformService';
 import { GoogleSheetsColumnService } from './GoogleSheetsColumnService';
+import { dataSourceService } from './DataSourceService';
+import { auditLogService } from './AuditLogService';
+import type { AuditLogInput } from './AuditLogService';
+import { StudentConflictError, getChangedFields } from '../utils/studentConflicts';
+
+const STUDENT_PAGE_SIZE = 1000; // Rows per read request
+const MAX_STUDENT_ROWS = 20000; // Upper bound on rows loaded into the browser
+const MISSING_ID_HINT = 'was added directly in the sheet and has no scholar ID yet. Use Assign IDs on the dashboard, then try again.';
 
 class GoogleSheetsService {
   private readonly baseUrl = 'https://sheets.googleapis.com/v4';
-  private readonly spreadsheetId: string;
+  // Read on every call so a data source change in Settings applies immediately
+  private get spreadsheetId(): string {
+    return dataSourceService.spreadsheetId;
+  }
+  private get sheetName(): string {
+    return dataSourceService.studentsSheetName;
+  }
   private readonly apiKey: string;
   private readonly columnService: GoogleSheetsColumnService;
   
   constructor() {
-    this.spreadsheetId = import.meta.env.VITE_GOOGLE_SHEETS_ID;
     this.apiKey = import.meta.env.VITE_GOOGLE_API_KEY;
     this.columnService = new GoogleSheetsColumnService();
     
@@ -39,27 +52,19 @@ class GoogleSheetsService {
   }
 
   /**
-   * Fetch all student data from the Google Sheet
+   * Fetch all student data from the Google Sheet. Rows added directly in the sheet keep a
+   * temporary ID until assignMissingStudentIds is run, so reading never writes to the sheet.
    */
-  async fetchStudents(accessToken: string): Promise<Student[]> {
+  async fetchStudents(accessToken: string): Promise<StudentFetchResult> {
     try {
-      const range = "'AllScholars'!A1:Q1000"; // Updated sheet name and quoted
-      const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`;
-      
-      const response: AxiosResponse<GoogleSheetsResponse> = await axios.get(url, {
-        headers: this.getAuthHeaders(accessToken),
-        params: {
-          key: this.apiKey
-        }
-      });
-
-      const { values } = response.data;
-      
-      if (!values || values.length === 0) {
-        return [];
+      const { values, truncated, loadedRows, totalRows } = await this.readStudentValues(accessToken);
+      if (values.length === 0) {
+        return { students: [], truncated, loadedRows: 0, totalRows, missingIds: 0 };
       }
-      
-      return DataTransformService.transformSheetsDataToStudents(values);
+
+      const students = DataTransformService.transformSheetsDataToStudents(values);
+      const missingIds = students.filter(student => DataTransformService.isTemporaryStudentId(student.id)).length;
+      return { students, truncated, loadedRows, totalRows, missingIds };
     } catch (error) {
       // Log to a dedicated logging service in production
       console.error('Error fetching students:', error);
@@ -70,20 +75,82 @@ class GoogleSheetsService {
     }
   }
 
+  /**
+   * Give a persistent ID to every row added directly in the sheet that doesn't have one yet
+   * @returns The number of rows that were given an ID
+   */
+  async assignMissingStudentIds(accessToken: string): Promise<number> {
+    try {
+      const { values } = await this.readStudentValues(accessToken);
+      if (values.length === 0) return 0;
+      return await this.columnService.backfillStudentIds(accessToken, values);
+    } catch (error) {
+      console.error('❌ Error assigning scholar IDs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read the raw student rows (header row first), sized from the sheet's grid and read in pages
+   */
+  private async readStudentValues(accessToken: string): Promise<{ values: string[][]; truncated: boolean; loadedRows: number; totalRows: number }> {
+    const { rowCount, columnCount } = await this.getSheetMetadata(accessToken);
+    const lastRow = Math.min(rowCount, MAX_STUDENT_ROWS + 1); // +1 for the header row
+    const lastColumn = this.numberToColumnLetter(Math.max(columnCount, 1)); // All columns, so the hidden scholar ID column is included
+
+    const values: string[][] = [];
+    for (let startRow = 1; startRow <= lastRow; startRow += STUDENT_PAGE_SIZE) {
+      const endRow = Math.min(startRow + STUDENT_PAGE_SIZE - 1, lastRow);
+      const page = await this.fetchRowRange(accessToken, `'${this.sheetName}'!A${startRow}:${lastColumn}${endRow}`);
+
+      // The API drops trailing blank rows, so pad each page to keep later rows at their sheet position
+      while (page.length < endRow - startRow + 1) page.push([]);
+      values.push(...page);
+    }
+
+    // Then drop the blank rows at the bottom of the grid
+    while (values.length > 0 && values[values.length - 1].every(cell => !cell?.trim())) {
+      values.pop();
+    }
+
+    const totalRows = Math.max(rowCount - 1, 0);
+    const truncated = rowCount > lastRow;
+    if (truncated) {
+      console.warn(`⚠️ ${this.sheetName} has ${totalRows} rows; only the first ${MAX_STUDENT_ROWS} were loaded`);
+    }
+
+    return { values, truncated, loadedRows: lastRow - 1, totalRows };
+  }
+
+  /**
+   * Read one page of rows from the sheet
+   */
+  private async fetchRowRange(accessToken: string, range: string): Promise<string[][]> {
+    const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`;
+    const response: AxiosResponse<GoogleSheetsResponse> = await axios.get(url, {
+      headers: this.getAuthHeaders(accessToken),
+      params: {
+        key: this.apiKey
+      }
+    });
+    return response.data.values ?? [];
+  }
+
   /**
    * Add a new student to the Google Sheet with dynamic column support
    */
   async addStudent(accessToken: string, student: Partial<Student>): Promise<Student> {
     try {
       // Get current headers to ensure we write to the correct columns
-      const headers = await this.columnService.getSheetHeaders(accessToken);
+      const headers = await this.columnService.ensureStudentIdColumn(accessToken);
+      const studentId = student.id || DataTransformService.generatePersistentStudentId();
       
-      const range = 'AllScholars'; // Updated sheet name for append
+      const range = `'${this.sheetName}'`; // Configured sheet name for append
       const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}:append`;
       
       // Use dynamic transformation based on current sheet structure
       const rowData = DataTransformService.transformStudentToSheetsRowDynamic(
-        student as Student, 
+        { ...student, id: studentId } as Student, 
         headers
       );
       
@@ -100,12 +167,13 @@ class GoogleSheetsService {
 
       const newStudent: Student = {
         ...student as Student,
-        id: this.generateStudentIdInternal(),
+        id: studentId,
         rowIndex: this.getRowIndexFromResponse(response.data), 
         lastModified: new Date(),
         customFields: student.customFields || {}
       };
 
+      await auditLogService.log(accessToken, auditLogService.rowChanges('student', studentId, headers, [], rowData, 'add'));
       return newStudent;
     } catch (error) {
       console.error('Error adding student:', error);
@@ -115,21 +183,87 @@ class GoogleSheetsService {
   }
 
   /**
-   * Update an existing student in the Google Sheet
+   * Read the current contents of a single student row from the Google Sheet
    */
-  async updateStudent(accessToken: string, rowIndex: number, student: Partial<Student>): Promise<Student> {
+  async fetchStudentRow(accessToken: string, rowIndex: number, headers?: string[]): Promise<Student | null> {
+    try {
+      const sheetHeaders = headers ?? await this.columnService.getSheetHeaders(accessToken);
+      const endColumn = this.numberToColumnLetter(sheetHeaders.length);
+      const range = `'${this.sheetName}'!A${rowIndex}:${endColumn}${rowIndex}`;
+      const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`;
+
+      const response: AxiosResponse<GoogleSheetsResponse> = await axios.get(url, {
+        headers: this.getAuthHeaders(accessToken),
+        params: {
+          key: this.apiKey
+        }
+      });
+
+      const row = response.data.values?.[0];
+      if (!row || row.every(cell => !cell?.trim())) {
+        return null;
+      }
+
+      return DataTransformService.transformSheetRowToStudent(row, sheetHeaders, rowIndex);
+    } catch (error) {
+      console.error('Error fetching student row:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Look up the current row of a student by persistent ID, since rows can move
+   * when other scholars are deleted or the sheet is sorted
+   */
+  private async resolveStudentRow(accessToken: string, studentId: string, headers?: string[]): Promise<number> {
+    if (DataTransformService.isTemporaryStudentId(studentId)) {
+      throw new Error(`This scholar ${MISSING_ID_HINT}`);
+    }
+    const rowIndex = await this.columnService.findStudentRowById(accessToken, studentId, headers);
+    if (rowIndex === null) {
+      throw new Error('This student no longer exists in Google Sheets. Refresh the data and try again.');
+    }
+    return rowIndex;
+  }
+
+  /**
+   * Check whether a student with the given persistent ID is in the Google Sheet
+   */
+  async studentExists(accessToken: string, studentId: string): Promise<boolean> {
+    const rowIndex = await this.columnService.findStudentRowById(accessToken, studentId);
+    return rowIndex !== null;
+  }
+
+  /**
+   * Update an existing student in the Google Sheet.
+   *
+   * When `baseVersion` (the student as the editor loaded it) is given, the row is re-read first
+   * and a StudentConflictError is thrown if someone else changed it in the meantime.
+   */
+  async updateStudent(accessToken: string, studentId: string, student: Partial<Student>, baseVersion?: Student): Promise<Student> {
     try {
       // Get current headers to ensure we write to the correct columns
       const headers = await this.columnService.getSheetHeaders(accessToken);
+      const rowIndex = await this.resolveStudentRow(accessToken, studentId, headers);
+      const current = await this.fetchStudentRow(accessToken, rowIndex, headers);
+
+      if (baseVersion) {
+        if (!current) {
+          throw new Error('This student no longer exists in Google Sheets. Refresh the data and try again.');
+        }
+        if (getChangedFields(baseVersion, current).length > 0) {
+          throw new StudentConflictError({ ...current, id: baseVersion.id });
+        }
+      }
       
       // Calculate the range dynamically based on the number of columns
       const endColumn = this.numberToColumnLetter(headers.length);
-      const range = `'AllScholars'!A${rowIndex}:${endColumn}${rowIndex}`;
+      const range = `'${this.sheetName}'!A${rowIndex}:${endColumn}${rowIndex}`;
       const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`;
       
       // Use dynamic transformation based on current sheet structure
       const rowData = DataTransformService.transformStudentToSheetsRowDynamic(
-        student as Student, 
+        { ...student, id: studentId } as Student, 
         headers
       );
       
@@ -143,13 +277,20 @@ class GoogleSheetsService {
         }
       });
 
+      const previousRow = current ? DataTransformService.transformStudentToSheetsRowDynamic(current, headers) : [];
+      await auditLogService.log(accessToken, auditLogService.rowChanges('student', studentId, headers, previousRow, rowData));
+
       return {
         ...student as Student,
+        id: studentId,
         rowIndex,
         lastModified: new Date(),
         customFields: student.customFields || {}
       };
     } catch (error) {
+      if (error instanceof StudentConflictError) {
+        throw error;
+      }
       console.error('Error updating student:', error);
       // Optionally log more details from error.response
       throw error;
@@ -157,17 +298,53 @@ class GoogleSheetsService {
   }
 
   /**
-   * Delete a student from the Google Sheet
+   * Write only the cells that differ between two versions of a student (a single cell for inline edits)
    */
-  async deleteStudent(accessToken: string, rowIndex: number): Promise<void> {
+  async updateStudentCells(accessToken: string, original: Student, updated: Student): Promise<Student> {
     try {
+      const headers = await this.columnService.getSheetHeaders(accessToken);
+      const rowIndex = await this.resolveStudentRow(accessToken, original.id, headers);
+
+      const before = DataTransformService.transformStudentToSheetsRowDynamic(original, headers);
+      const after = DataTransformService.transformStudentToSheetsRowDynamic(updated, headers);
+      const data = after.flatMap((value, columnIndex) => value === before[columnIndex] ? [] : [{
+        range: `'${this.sheetName}'!${this.numberToColumnLetter(columnIndex + 1)}${rowIndex}`,
+        values: [[value]]
+      }]);
+
+      if (data.length > 0) {
+        const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values:batchUpdate`;
+        await axios.post(url, {
+          valueInputOption: 'USER_ENTERED',
+          data
+        }, {
+          headers: this.getAuthHeaders(accessToken)
+        });
+        await auditLogService.log(accessToken, auditLogService.rowChanges('student', original.id, headers, before, after));
+      }
+
+      return { ...updated, rowIndex, lastModified: new Date() };
+    } catch (error) {
+      console.error('Error updating student cells:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a student from the Google Sheet, returning the row it was in
+   */
+  async deleteStudent(accessToken: string, studentId: string): Promise<number> {
+    try {
+      const headers = await this.columnService.getSheetHeaders(accessToken);
+      const rowIndex = await this.resolveStudentRow(accessToken, studentId, headers);
+      const current = await this.fetchStudentRow(accessToken, rowIndex, headers);
       const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`;
       
       const requestBody = {
         requests: [{
           deleteDimension: {
             range: {
-              sheetId: await this.getSheetIdByName(accessToken, 'AllScholars'), // Dynamically get sheetId
+              sheetId: await this.getSheetIdByName(accessToken, this.sheetName), // Dynamically get sheetId
               dimension: 'ROWS',
               startIndex: rowIndex - 1,
               endIndex: rowIndex
@@ -180,6 +357,10 @@ class GoogleSheetsService {
         headers: this.getAuthHeaders(accessToken),
         params: {}
       });
+
+      const previousRow = current ? DataTransformService.transformStudentToSheetsRowDynamic(current, headers) : [];
+      await auditLogService.log(accessToken, auditLogService.rowChanges('student', studentId, headers, previousRow, [], 'delete'));
+      return rowIndex;
     } catch (error) {
       console.error('Error deleting student:', error);
       // Optionally log more details from error.response
@@ -188,39 +369,149 @@ class GoogleSheetsService {
   }
 
   /**
-   * Batch update multiple cells
+   * Insert a student as a new row at a given position, e.g. to restore a deleted row where it was
    */
-  async batchUpdate(accessToken: string, updates: BatchUpdate[]): Promise<void> {
+  async insertStudentRow(accessToken: string, student: Student, rowIndex: number): Promise<Student> {
     try {
-      const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`;
-      const sheetId = await this.getSheetIdByName(accessToken, 'AllScholars'); // Dynamically get sheetId
-
-      const requests = updates.map(update => ({
-        updateCells: {
-          range: {
-            sheetId: sheetId,
-            startRowIndex: update.rowIndex - 1,
-            endRowIndex: update.rowIndex,
-            startColumnIndex: update.columnIndex,
-            endColumnIndex: update.columnIndex + 1
-          },
-          rows: [{
-            values: [{
-              userEnteredValue: {
-                stringValue: update.value
-              }
-            }]
-          }],
-          fields: 'userEnteredValue'
-        }
-      }));
+      if (await this.studentExists(accessToken, student.id)) {
+        throw new Error(`${student.firstName} ${student.lastName} is already in Google Sheets.`);
+      }
+
+      const headers = await this.columnService.getSheetHeaders(accessToken);
+      const metadata = await this.getSheetMetadata(accessToken);
+      // Rows may have been removed since, so fall back to the end of the sheet
+      const position = Math.max(2, Math.min(rowIndex, metadata.rowCount + 1));
 
-      await axios.post(url, { requests }, {
+      await axios.post(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`, {
+        requests: [{
+          insertDimension: {
+            range: {
+              sheetId: metadata.sheetId,
+              dimension: 'ROWS',
+              startIndex: position - 1,
+              endIndex: position
+            },
+            inheritFromBefore: position > 2
+          }
+        }]
+      }, {
+        headers: this.getAuthHeaders(accessToken)
+      });
+
+      const endColumn = this.numberToColumnLetter(headers.length);
+      const range = `'${this.sheetName}'!A${position}:${endColumn}${position}`;
+      const rowData = DataTransformService.transformStudentToSheetsRowDynamic(student, headers);
+      await axios.put(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`, {
+        values: [rowData],
+        majorDimension: 'ROWS'
+      }, {
         headers: this.getAuthHeaders(accessToken),
         params: {
-          key: this.apiKey // apiKey might be needed here depending on auth setup for batchUpdate specifically
+          valueInputOption: 'USER_ENTERED',
         }
       });
+
+      await auditLogService.log(accessToken, auditLogService.rowChanges('student', student.id, headers, [], rowData, 'add'));
+      return { ...student, rowIndex: position, lastModified: new Date() };
+    } catch (error) {
+      console.error('Error inserting student row:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update many students in a single batchUpdate, writing only the cells that changed
+   */
+  async bulkUpdateStudents(accessToken: string, changes: Array<{ original: Student; updated: Student }>): Promise<void> {
+    const headers = await this.columnService.getSheetHeaders(accessToken);
+    const rowsById = await this.columnService.getStudentRowsById(accessToken, headers);
+
+    const updates: BatchUpdate[] = [];
+    const auditEntries: AuditLogInput[] = [];
+    changes.forEach(({ original, updated }) => {
+      const rowIndex = this.getBulkRow(rowsById, original);
+      const before = DataTransformService.transformStudentToSheetsRowDynamic(original, headers);
+      const after = DataTransformService.transformStudentToSheetsRowDynamic(updated, headers);
+      after.forEach((value, columnIndex) => {
+        if (value !== before[columnIndex]) {
+          updates.push({ rowIndex, columnIndex, value });
+        }
+      });
+      auditEntries.push(...auditLogService.rowChanges('student', original.id, headers, before, after));
+    });
+
+    if (updates.length > 0) {
+      await this.batchUpdate(accessToken, updates);
+      await auditLogService.log(accessToken, auditEntries);
+    }
+  }
+
+  /**
+   * Delete many students in a single batchUpdate
+   */
+  async bulkDeleteStudents(accessToken: string, students: Student[]): Promise<void> {
+    const headers = await this.columnService.getSheetHeaders(accessToken);
+    const rowsById = await this.columnService.getStudentRowsById(accessToken, headers);
+    const rowIndexes = students.map(student => this.getBulkRow(rowsById, student));
+    await this.batchUpdate(accessToken, [], rowIndexes);
+
+    await auditLogService.log(accessToken, students.flatMap(student => auditLogService.rowChanges(
+      'student', student.id, headers, DataTransformService.transformStudentToSheetsRowDynamic(student, headers), [], 'delete'
+    )));
+  }
+
+  private getBulkRow(rowsById: Map<string, number>, student: Student): number {
+    if (DataTransformService.isTemporaryStudentId(student.id)) {
+      throw new Error(`${student.firstName} ${student.lastName} ${MISSING_ID_HINT}`);
+    }
+    const rowIndex = rowsById.get(student.id);
+    if (!rowIndex) {
+      throw new Error(`${student.firstName} ${student.lastName} no longer exists in Google Sheets. Refresh the data and try again.`);
+    }
+    return rowIndex;
+  }
+
+  /**
+   * Batch update multiple cells, optionally deleting rows (1-based) afterwards.
+   * Cells are written as USER_ENTERED, like single edits, so numbers and dates keep their type.
+   */
+  async batchUpdate(accessToken: string, updates: BatchUpdate[], deleteRowIndexes: number[] = []): Promise<void> {
+    try {
+      if (updates.length > 0) {
+        const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values:batchUpdate`;
+        await axios.post(url, {
+          valueInputOption: 'USER_ENTERED',
+          data: updates.map(update => ({
+            range: `'${this.sheetName}'!${this.numberToColumnLetter(update.columnIndex + 1)}${update.rowIndex}`,
+            values: [[update.value]]
+          }))
+        }, {
+          headers: this.getAuthHeaders(accessToken)
+        });
+      }
+
+      if (deleteRowIndexes.length > 0) {
+        const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`;
+        const sheetId = await this.getSheetIdByName(accessToken, this.sheetName); // Dynamically get sheetId
+
+        // Delete bottom-up so earlier deletions don't shift the rows still to be deleted
+        const requests = [...new Set(deleteRowIndexes)]
+          .sort((a, b) => b - a)
+          .map(rowIndex => ({
+            deleteDimension: {
+              range: {
+                sheetId: sheetId,
+                dimension: 'ROWS',
+                startIndex: rowIndex - 1,
+                endIndex: rowIndex
+              }
+            }
+          }));
+
+        await axios.post(url, { requests }, {
+          headers: this.getAuthHeaders(accessToken)
+        });
+      }
     } catch (error) {
       console.error('Error batch updating:', error);
       // Consider more specific error type
@@ -229,11 +520,12 @@ class GoogleSheetsService {
   }
 
   /**
-   * Get sheet metadata
+   * Get sheet metadata. Defaults to the scholars tab of the active data source;
+   * pass a spreadsheet ID to check a data source before switching to it.
    */
-  async getSheetMetadata(accessToken: string, sheetName: string = 'AllScholars'): Promise<SheetMetadata> { // Added sheetName param with default
+  async getSheetMetadata(accessToken: string, sheetName: string = this.sheetName, spreadsheetId: string = this.spreadsheetId): Promise<SheetMetadata> {
     try {
-      const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}?includeGridData=false`; // includeGridData=false if only properties needed
+      const url = `${this.baseUrl}/spreadsheets/${spreadsheetId}?includeGridData=false`; // includeGridData=false if only properties needed
       
       const response = await axios.get(url, {
         headers: this.getAuthHeaders(accessToken),
@@ -267,11 +559,6 @@ class GoogleSheetsService {
     return metadata.sheetId;
   }
 
-  // Placeholder for actual implementation if needed within this service
-  private generateStudentIdInternal(): string {
-    return `student_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-  }
-
   // Placeholder for actual implementation
   private getRowIndexFromResponse(responseData: any): number {
     // console.warn('getRowIndexFromResponse is not fully implemented.', responseData); // Removed console.warn
@@ -0,0 +1,141 @@
+/**
+ * Options controlling when an idle session warns and expires
+ */
+export interface IdleTimeoutOptions {
+  timeoutMs: number;
+  warningMs: number;
+  onWarning: (remainingMs: number) => void;
+  onActive: () => void;
+  onTimeout: () => void;
+}
+
+// Shared across tabs so activity in any open tab keeps every tab alive
+const LAST_ACTIVITY_KEY = 'studentApp_lastActivity';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+const ACTIVITY_WRITE_THROTTLE_MS = 5000; // Avoid writing localStorage on every mouse move
+const CHECK_INTERVAL_MS = 1000;
+
+/**
+ * Tracks user activity and expires the session after a period of inactivity.
+ *
+ * - Last activity is shared through localStorage, so any open tab keeps the session alive
+ * - Once the warning starts, only an explicit `recordActivity()` (e.g. "Stay signed in") extends it
+ * - Calls `onTimeout` once when the session expires, then stops itself
+ */
+export class IdleTimeoutTracker {
+  private readonly options: IdleTimeoutOptions;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private lastActivity = 0;
+  private lastWrite = 0;
+  private warning = false;
+
+  constructor(options: IdleTimeoutOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start tracking activity, treating the start itself as activity
+   */
+  start(): void {
+    if (this.intervalId !== null) return;
+
+    this.recordActivity();
+
+    ACTIVITY_EVENTS.forEach(event => {
+      window.addEventListener(event, this.handleActivity, { passive: true });
+    });
+    window.addEventListener('storage', this.handleStorage);
+    this.intervalId = setInterval(this.check, CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop tracking and remove all listeners
+   */
+  stop(): void {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    ACTIVITY_EVENTS.forEach(event => {
+      window.removeEventListener(event, this.handleActivity);
+    });
+    window.removeEventListener('storage', this.handleStorage);
+  }
+
+  /**
+   * Record activity now and share it with other tabs, dismissing any active warning
+   */
+  recordActivity(): void {
+    const now = Date.now();
+    this.lastActivity = now;
+    this.writeLastActivity(now);
+
+    if (this.warning) {
+      this.warning = false;
+      this.options.onActive();
+    }
+  }
+
+  /**
+   * Forget the shared activity timestamp (used on logout)
+   */
+  static clearActivity(): void {
+    try {
+      localStorage.removeItem(LAST_ACTIVITY_KEY);
+    } catch (error) {
+      console.error('Failed to clear last activity from localStorage:', error);
+    }
+  }
+
+  private writeLastActivity(timestamp: number): void {
+    this.lastWrite = timestamp;
+    try {
+      localStorage.setItem(LAST_ACTIVITY_KEY, timestamp.toString());
+    } catch (error) {
+      console.error('Failed to save last activity to localStorage:', error);
+    }
+  }
+
+  private getLastActivity(): number {
+    const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+    return Math.max(this.lastActivity, isNaN(stored) ? 0 : stored);
+  }
+
+  private handleActivity = () => {
+    // Passive activity doesn't cancel the warning; the user has to confirm in the dialog
+    if (this.warning) return;
+
+    const now = Date.now();
+    this.lastActivity = now;
+    if (now - this.lastWrite >= ACTIVITY_WRITE_THROTTLE_MS) {
+      this.writeLastActivity(now);
+    }
+  };
+
+  /**
+   * React right away when another tab records activity
+   */
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key === LAST_ACTIVITY_KEY) {
+      this.check();
+    }
+  };
+
+  private check = () => {
+    const remaining = this.options.timeoutMs - (Date.now() - this.getLastActivity());
+
+    if (remaining <= 0) {
+      this.stop();
+      this.warning = false;
+      IdleTimeoutTracker.clearActivity();
+      this.options.onTimeout();
+    } else if (remaining <= this.options.warningMs) {
+      this.warning = true;
+      this.options.onWarning(remaining);
+    } else if (this.warning) {
+      this.warning = false;
+      this.options.onActive();
+    }
+  };
+}
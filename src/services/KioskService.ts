@@ -0,0 +1,76 @@
+// The two scholar-facing sign-in screens: the full-screen kiosk and the mobile check-in page
+export type KioskLockMode = 'kiosk' | 'checkIn';
+
+const LOCK_KEY_PREFIXES: Record<KioskLockMode, string> = {
+  kiosk: 'studentApp_kioskEventId',
+  checkIn: 'studentApp_checkInEventId',
+};
+
+/**
+ * Helpers for kiosk mode and mobile check-in: the staff PIN that unlocks them and the event each
+ * is running for
+ * - Only a SHA-256 hash of the PIN is kept in settings
+ * - The running event is kept in localStorage per user and program, so reloading the page or
+ *   opening another tab stays locked
+ */
+export class KioskService {
+  static readonly MIN_PIN_LENGTH = 4;
+
+  /**
+   * Hash a PIN for storing in settings
+   */
+  static async hashPin(pin: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pin.trim()));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Check an entered PIN against the stored hash
+   */
+  static async verifyPin(pin: string, pinHash: string): Promise<boolean> {
+    if (!pinHash) return false;
+    return (await this.hashPin(pin)) === pinHash;
+  }
+
+  /**
+   * Check a new PIN, returning the error message if it can't be used
+   */
+  static getPinError(pin: string): string | null {
+    if (!/^\d*$/.test(pin)) return 'Use digits only';
+    if (pin.length < this.MIN_PIN_LENGTH) return `Use at least ${this.MIN_PIN_LENGTH} digits`;
+    return null;
+  }
+
+  /**
+   * The storage key of a kiosk or check-in lock for a user's program. It is shared by every tab,
+   * so opening the app in a new tab doesn't get around the lock
+   */
+  static getLockKey(userEmail: string, programId: string, mode: KioskLockMode = 'kiosk'): string {
+    return `${LOCK_KEY_PREFIXES[mode]}_${userEmail}_${programId}`;
+  }
+
+  static loadLock(userEmail: string, programId: string, mode: KioskLockMode = 'kiosk'): string | null {
+    try {
+      return localStorage.getItem(this.getLockKey(userEmail, programId, mode));
+    } catch (error) {
+      console.error(`Failed to load the ${mode} lock:`, error);
+      return null;
+    }
+  }
+
+  static saveLock(userEmail: string, programId: string, eventId: string, mode: KioskLockMode = 'kiosk'): void {
+    try {
+      localStorage.setItem(this.getLockKey(userEmail, programId, mode), eventId);
+    } catch (error) {
+      console.error(`Failed to save the ${mode} lock:`, error);
+    }
+  }
+
+  static clearLock(userEmail: string, programId: string, mode: KioskLockMode = 'kiosk'): void {
+    try {
+      localStorage.removeItem(this.getLockKey(userEmail, programId, mode));
+    } catch (error) {
+      console.error(`Failed to clear the ${mode} lock:`, error);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import axios from 'axios';
+import type { OutboxEntry, PendingMutation, Student } from '../types';
+import type { SignInRow } from '../types/signIn';
+import { dataSourceService } from './DataSourceService';
+
+const DB_NAME = 'studentApp_offline';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+
+/**
+ * Service for the IndexedDB-backed outbox of mutations made while offline
+ */
+class OfflineQueueService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+            const store = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+            store.createIndex('userEmail', 'userEmail', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(OUTBOX_STORE, mode);
+      const request = action(transaction.objectStore(OUTBOX_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Get a user's outbox entries for the active data source, oldest first
+   */
+  async getEntries(userEmail: string): Promise<OutboxEntry[]> {
+    try {
+      const entries = await this.runRequest('readonly', store =>
+        store.index('userEmail').getAll(userEmail) as IDBRequest<OutboxEntry[]>
+      );
+      const sourceKey = dataSourceService.getSourceKey();
+      const defaultSourceKey = dataSourceService.getSourceKey(dataSourceService.getDefaultConfig());
+      return entries
+        .filter(entry => (entry.dataSource ?? defaultSourceKey) === sourceKey)
+        .sort((a, b) => a.id - b.id);
+    } catch (error) {
+      console.error('Failed to load offline outbox:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add a mutation to the end of a user's outbox
+   */
+  async enqueue(userEmail: string, mutation: PendingMutation): Promise<OutboxEntry> {
+    const entry: Omit<OutboxEntry, 'id'> = {
+      userEmail,
+      dataSource: dataSourceService.getSourceKey(),
+      mutation,
+      status: 'pending',
+      createdAt: new Date(),
+      attempts: 0,
+    };
+
+    const id = await this.runRequest('readwrite', store => store.add(entry));
+    console.log(`📥 Queued offline ${mutation.type} (#${id})`);
+    return { ...entry, id: id as number };
+  }
+
+  /**
+   * Save changes to an existing outbox entry
+   */
+  async updateEntry(entry: OutboxEntry): Promise<void> {
+    await this.runRequest('readwrite', store => store.put(entry));
+  }
+
+  /**
+   * Remove an entry from the outbox (after it replayed, or when discarded)
+   */
+  async removeEntry(id: number): Promise<void> {
+    await this.runRequest('readwrite', store => store.delete(id));
+  }
+}
+
+/**
+ * Whether an error means the Sheets API couldn't be reached, so the write should be queued
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (!navigator.onLine) return true;
+  return axios.isAxiosError(error) && !error.response;
+};
+
+/**
+ * Layer pending outbox mutations over student data from the sheet, so queued edits
+ * stay visible across refreshes until they have been written
+ */
+export const applyPendingMutations = (students: Student[], entries: OutboxEntry[]): Student[] => {
+  if (entries.length === 0) return students;
+
+  return entries.reduce((result, entry) => {
+    const { mutation } = entry;
+    switch (mutation.type) {
+      case 'addStudent':
+        return result.some(student => student.id === mutation.student.id)
+          ? result
+          : [...result, mutation.student];
+      case 'updateStudent':
+        return result.map(student => student.id === mutation.student.id ? mutation.student : student);
+      case 'deleteStudent':
+        return result.filter(student => student.id !== mutation.student.id);
+      default:
+        return result;
+    }
+  }, students);
+};
+
+/**
+ * The record a mutation changes, so a failed entry can hold back later entries for the same one.
+ * New sign-ins don't touch existing rows, so they have none.
+ */
+export const getMutationTarget = (mutation: PendingMutation): string | null => {
+  switch (mutation.type) {
+    case 'addStudent':
+    case 'updateStudent':
+    case 'deleteStudent':
+      return `student:${mutation.student.id}`;
+    case 'appendSignIn':
+      return null;
+    case 'updateSignIn':
+      return `signIn:${mutation.original.rowIndex}`;
+    case 'deleteSignIn':
+      return `signIn:${mutation.signIn.rowIndex}`;
+  }
+};
+
+/**
+ * Layer pending outbox mutations over sign-ins from the sheet, so sign-ins made offline
+ * are shown and counted until they have been written
+ */
+export const applyPendingSignIns = (signIns: SignInRow[], entries: OutboxEntry[]): SignInRow[] => {
+  if (entries.length === 0) return signIns;
+
+  return entries.reduce((result, entry) => {
+    const { mutation } = entry;
+    switch (mutation.type) {
+      case 'appendSignIn':
+        return [...result, mutation.signIn];
+      case 'updateSignIn':
+        return result.map(signIn => signIn.rowIndex === mutation.original.rowIndex ? { ...mutation.signIn, rowIndex: signIn.rowIndex } : signIn);
+      case 'deleteSignIn':
+        return result.filter(signIn => signIn.rowIndex !== mutation.signIn.rowIndex);
+      default:
+        return result;
+    }
+  }, signIns);
+};
+
+export const offlineQueueService = new OfflineQueueService();
@@ -0,0 +1,143 @@
+import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import type { GoogleSheetsResponse } from '../types';
+import type { PointsRule } from '../contexts/SettingsContext';
+import { dataSourceService } from './DataSourceService';
+import { auditLogService } from './AuditLogService';
+
+export const POINTS_RULES_SHEET_NAME = 'PointsRules';
+const POINTS_RULE_HEADERS = ['Rule ID', 'Match', 'Pattern', 'Points'];
+const MATCH_TYPES: PointsRule['matchType'][] = ['exact', 'contains', 'regex'];
+
+/**
+ * Service for the participation points rules kept on the 'PointsRules' tab of the active
+ * spreadsheet, so every staff member computes points from the same rules
+ */
+class PointsRuleService {
+  private readonly baseUrl = 'https://sheets.googleapis.com/v4';
+  private get spreadsheetId(): string {
+    return dataSourceService.spreadsheetId;
+  }
+
+  private getAuthHeaders(accessToken: string) {
+    return {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  /**
+   * Read the rules in order, or null when the workbook has no rules tab yet
+   */
+  async fetchRules(accessToken: string): Promise<PointsRule[] | null> {
+    try {
+      if (!await this.hasRulesSheet(accessToken)) {
+        return null;
+      }
+
+      const response: AxiosResponse<GoogleSheetsResponse> = await axios.get(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${POINTS_RULES_SHEET_NAME}'`,
+        { headers: this.getAuthHeaders(accessToken) }
+      );
+      const [, ...rows] = response.data.values ?? [];
+      return rows.filter(row => row[0]?.trim()).map(row => this.rowToRule(row));
+    } catch (error) {
+      console.error('Error fetching points rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the rules on the tab, creating it first if needed. Throws if another staff member
+   * saved different rules since `loaded` was read, rather than overwriting them.
+   */
+  async saveRules(accessToken: string, rules: PointsRule[], loaded: PointsRule[] | null): Promise<void> {
+    try {
+      const current = await this.fetchRules(accessToken);
+      if (JSON.stringify(current ?? []) !== JSON.stringify(loaded ?? [])) {
+        throw new Error('The points rules have changed in Google Sheets since they were loaded. Reload the rules and try again.');
+      }
+      if (current === null) {
+        await this.createRulesSheet(accessToken);
+      }
+
+      const rows = rules.map(rule => this.ruleToRow(rule));
+      await axios.put(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${POINTS_RULES_SHEET_NAME}'!A1:D${rows.length + 1}`,
+        { values: [POINTS_RULE_HEADERS, ...rows], majorDimension: 'ROWS' },
+        {
+          headers: this.getAuthHeaders(accessToken),
+          params: { valueInputOption: 'RAW' }
+        }
+      );
+      // Clear rows left over from a longer list
+      await axios.post(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${POINTS_RULES_SHEET_NAME}'!A${rows.length + 2}:D:clear`,
+        {},
+        { headers: this.getAuthHeaders(accessToken) }
+      );
+
+      await auditLogService.log(accessToken, this.getRuleChanges(current ?? [], rules));
+      console.log(`✅ Saved ${rules.length} points rule(s)`);
+    } catch (error) {
+      console.error('Error saving points rules:', error);
+      throw error;
+    }
+  }
+
+  private getRuleChanges(before: PointsRule[], after: PointsRule[]) {
+    const beforeById = new Map(before.map(rule => [rule.id, this.ruleToRow(rule)]));
+    const afterIds = new Set(after.map(rule => rule.id));
+    return [
+      ...after.flatMap(rule => {
+        const previous = beforeById.get(rule.id);
+        return auditLogService.rowChanges('pointsRule', rule.id, POINTS_RULE_HEADERS, previous ?? [], this.ruleToRow(rule), previous ? 'update' : 'add');
+      }),
+      ...before
+        .filter(rule => !afterIds.has(rule.id))
+        .flatMap(rule => auditLogService.rowChanges('pointsRule', rule.id, POINTS_RULE_HEADERS, this.ruleToRow(rule), [], 'delete')),
+    ];
+  }
+
+  private rowToRule(row: string[]): PointsRule {
+    const matchType = MATCH_TYPES.find(type => type === row[1]?.trim()) ?? 'contains';
+    const points = parseFloat(row[3] ?? '');
+    return {
+      id: row[0].trim(),
+      matchType,
+      pattern: row[2] ?? '',
+      points: isNaN(points) ? 0 : points,
+    };
+  }
+
+  private ruleToRow(rule: PointsRule): string[] {
+    return [rule.id, rule.matchType, rule.pattern, rule.points.toString()];
+  }
+
+  private async hasRulesSheet(accessToken: string): Promise<boolean> {
+    const response = await axios.get(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}`, {
+      headers: this.getAuthHeaders(accessToken),
+      params: { fields: 'sheets.properties.title' }
+    });
+    const sheets: Array<{ properties: { title: string } }> = response.data.sheets ?? [];
+    return sheets.some(sheet => sheet.properties.title === POINTS_RULES_SHEET_NAME);
+  }
+
+  private async createRulesSheet(accessToken: string): Promise<void> {
+    console.log(`🏅 Creating points rules tab '${POINTS_RULES_SHEET_NAME}'`);
+    await axios.post(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`, {
+      requests: [{
+        addSheet: {
+          properties: {
+            title: POINTS_RULES_SHEET_NAME,
+            gridProperties: { rowCount: 100, columnCount: POINTS_RULE_HEADERS.length, frozenRowCount: 1 }
+          }
+        }
+      }]
+    }, {
+      headers: this.getAuthHeaders(accessToken)
+    });
+  }
+}
+
+export const pointsRuleService = new PointsRuleService();
@@ -1,21 +1,26 @@
 import type { AppSettings } from '../contexts/SettingsContext';
+import { DEFAULT_PROGRAM_ID } from './DataSourceService';
 
 const SETTINGS_STORAGE_KEY_PREFIX = 'studentApp_settings';
 
 export class SettingsStorageService {
   /**
-   * Get user-specific storage key
+   * Get user- and program-specific storage key. The default program keeps the
+   * per-user key used before programs existed.
    */
-  private static getStorageKey(userEmail?: string): string {
-    return userEmail ? `${SETTINGS_STORAGE_KEY_PREFIX}_${userEmail}` : SETTINGS_STORAGE_KEY_PREFIX;
+  static getStorageKey(userEmail?: string, programId?: string): string {
+    if (!userEmail) return SETTINGS_STORAGE_KEY_PREFIX;
+    return programId && programId !== DEFAULT_PROGRAM_ID
+      ? `${SETTINGS_STORAGE_KEY_PREFIX}_${userEmail}_${programId}`
+      : `${SETTINGS_STORAGE_KEY_PREFIX}_${userEmail}`;
   }
 
   /**
-   * Save settings to localStorage for a specific user
+   * Save settings to localStorage for a specific user and program
    */
-  static saveSettings(settings: AppSettings, userEmail?: string): void {
+  static saveSettings(settings: AppSettings, userEmail?: string, programId?: string): void {
     try {
-      const storageKey = this.getStorageKey(userEmail);
+      const storageKey = this.getStorageKey(userEmail, programId);
       localStorage.setItem(storageKey, JSON.stringify(settings));
     } catch (error) {
       console.error('Failed to save settings to localStorage:', error);
@@ -24,11 +29,11 @@ export class SettingsStorageService {
   }
 
   /**
-   * Load settings from localStorage for a specific user
+   * Load settings from localStorage for a specific user and program
    */
-  static loadSettings(userEmail?: string): AppSettings | null {
+  static loadSettings(userEmail?: string, programId?: string): AppSettings | null {
     try {
-      const storageKey = this.getStorageKey(userEmail);
+      const storageKey = this.getStorageKey(userEmail, programId);
       const storedSettings = localStorage.getItem(storageKey);
       if (storedSettings) {
         return JSON.parse(storedSettings);
@@ -41,11 +46,11 @@ export class SettingsStorageService {
   }
 
   /**
-   * Clear all settings from localStorage for a specific user
+   * Clear all settings from localStorage for a specific user and program
    */
-  static clearSettings(userEmail?: string): void {
+  static clearSettings(userEmail?: string, programId?: string): void {
     try {
-      const storageKey = this.getStorageKey(userEmail);
+      const storageKey = this.getStorageKey(userEmail, programId);
       localStorage.removeItem(storageKey);
     } catch (error) {
       console.error('Failed to clear settings from localStorage:', error);
@@ -53,11 +58,11 @@ export class SettingsStorageService {
   }
 
   /**
-   * Check if settings exist in localStorage for a specific user
+   * Check if settings exist in localStorage for a specific user and program
    */
-  static hasStoredSettings(userEmail?: string): boolean {
+  static hasStoredSettings(userEmail?: string, programId?: string): boolean {
     try {
-      const storageKey = this.getStorageKey(userEmail);
+      const storageKey = this.getStorageKey(userEmail, programId);
       return localStorage.getItem(storageKey) !== null;
     } catch (error) {
       return false;
@@ -65,11 +70,11 @@ export class SettingsStorageService {
   }
 
   /**
-   * Get the size of stored settings in bytes for a specific user
+   * Get the size of stored settings in bytes for a specific user and program
    */
-  static getStorageSize(userEmail?: string): number {
+  static getStorageSize(userEmail?: string, programId?: string): number {
     try {
-      const storageKey = this.getStorageKey(userEmail);
+      const storageKey = this.getStorageKey(userEmail, programId);
       const settings = localStorage.getItem(storageKey);
       return settings ? new Blob([settings]).size : 0;
     } catch (error) {
@@ -14,13 +14,13 @@ export class SignInDataTransformService {
 
     const [headers, ...rows] = rawData;
     
-    return rows.map((row, index) => this.transformRowToSignIn(row, headers, index));
+    return rows.map((row, index) => this.transformRowToSignIn(row, headers, index + 2));
   }
 
   /**
    * Convert a single row to SignInRow object
    */
-  private static transformRowToSignIn(row: string[], headers: string[], _index: number): SignInRow {
+  private static transformRowToSignIn(row: string[], headers: string[], rowIndex: number): SignInRow {
     const signIn: Partial<SignInRow> = {};
     
     headers.forEach((header, colIndex) => {
@@ -58,6 +58,9 @@ export class SignInDataTransformService {
         case 'event':
           signIn.event = value.trim();
           break;
+        case 'scholarid':
+          signIn.studentId = value.trim() || undefined;
+          break;
         default:
           // Handle custom fields - any unknown column becomes a custom field
           if (value.trim()) {
@@ -78,10 +81,19 @@ export class SignInDataTransformService {
     return {
       ...signIn,
       name: fullName,
+      rowIndex,
       customFields: signIn.customFields || {}
     } as SignInRow;
   }
 
+  /**
+   * Timestamp for a sign-in made in this app, in the "M/D/YYYY H:MM:SS" form Google Forms writes
+   */
+  static formatSignInDate(date: Date = new Date()): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()} ${date.getHours()}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  }
+
   /**
    * Transform sign-in to sheets row based on dynamic headers
    */
@@ -113,6 +125,8 @@ export class SignInDataTransformService {
           return signIn.date || '';
         case 'event':
           return signIn.event || '';
+        case 'scholarid':
+          return signIn.studentId || '';
         default:
           // Handle custom fields
           const fieldName = this.generateFieldName(header);
@@ -167,7 +181,7 @@ export class SignInDataTransformService {
   static detectCustomColumns(headers: string[]): Array<{id: string, headerName: string, field: string}> {
     const knownHeaders = new Set([
       'firstname', 'lastname', 'school', 'phone', 'phonenumber', 'cellnumber',
-      'cell', 'mobile', 'mobilenumber', 'gradyear', 'graduationyear', 'email', 'date', 'event'
+      'cell', 'mobile', 'mobilenumber', 'gradyear', 'graduationyear', 'email', 'date', 'event', 'scholarid'
     ]);
 
     const customColumns: Array<{id: string, headerName: string, field: string}> = [];
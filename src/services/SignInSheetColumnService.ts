@@ -1,17 +1,24 @@
 import axios from 'axios';
 import type { ColumnSettings } from '../contexts/SettingsContext';
+import { dataSourceService } from './DataSourceService';
+import { auditLogService } from './AuditLogService';
+import { DataTransformService } from './DataTransformService';
 
 /**
  * Service for managing Sign-In Google Sheets column structure and metadata
  */
 export class SignInSheetColumnService {
   private readonly baseUrl = 'https://sheets.googleapis.com/v4';
-  private readonly spreadsheetId: string;
+  // Read on every call so a data source change in Settings applies immediately
+  private get spreadsheetId(): string {
+    return dataSourceService.spreadsheetId;
+  }
+  private get sheetName(): string {
+    return dataSourceService.signInsSheetName;
+  }
   private readonly apiKey: string;
-  private readonly sheetName = 'sign-ins';
 
   constructor() {
-    this.spreadsheetId = import.meta.env.VITE_GOOGLE_SHEETS_ID;
     this.apiKey = import.meta.env.VITE_GOOGLE_API_KEY;
     
     if (!this.spreadsheetId || !this.apiKey) {
@@ -31,7 +38,7 @@ export class SignInSheetColumnService {
    */
   async getSheetHeaders(accessToken: string): Promise<string[]> {
     try {
-      const range = `${this.sheetName}!1:1`;
+      const range = `'${this.sheetName}'!1:1`;
       const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`;
       
       const response = await axios.get(url, {
@@ -84,6 +91,54 @@ export class SignInSheetColumnService {
     }
   }
 
+  /**
+   * Make sure the sheet has a Scholar ID column for links to students, returning the headers
+   */
+  async ensureStudentIdColumn(accessToken: string): Promise<string[]> {
+    const headers = await this.getSheetHeaders(accessToken);
+    if (headers.some(header => DataTransformService.isStudentIdHeader(header))) {
+      return headers;
+    }
+
+    try {
+      const metadata = await this.getSheetMetadata(accessToken);
+      // Grow the grid first if the header row already fills every column
+      if (headers.length >= metadata.columnCount) {
+        await this.batchUpdate(accessToken, [{
+          appendDimension: { sheetId: metadata.sheetId, dimension: 'COLUMNS', length: 1 }
+        }]);
+      }
+
+      const columnLetter = this.numberToColumn(headers.length + 1);
+      await this.updateRange(accessToken, `'${this.sheetName}'!${columnLetter}1`, [[DataTransformService.STUDENT_ID_HEADER]]);
+      console.log(`✅ Added '${DataTransformService.STUDENT_ID_HEADER}' column to sign-in sheet at ${columnLetter}1`);
+      return [...headers, DataTransformService.STUDENT_ID_HEADER];
+    } catch (error) {
+      console.error('❌ Error adding sign-in Scholar ID column:', error);
+      throw new Error('Failed to add the Scholar ID column to the sign-in sheet');
+    }
+  }
+
+  /**
+   * Write several single cells in one request; rows and columns are 1-based
+   */
+  async updateCells(accessToken: string, cells: { row: number; column: number; value: string }[]): Promise<void> {
+    if (cells.length === 0) return;
+
+    const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values:batchUpdate`;
+    await axios.post(url, {
+      valueInputOption: 'RAW',
+      data: cells.map(cell => ({
+        range: `'${this.sheetName}'!${this.numberToColumn(cell.column)}${cell.row}`,
+        majorDimension: 'ROWS',
+        values: [[cell.value]]
+      }))
+    }, {
+      headers: this.getAuthHeaders(accessToken),
+      params: { key: this.apiKey }
+    });
+  }
+
   /**
    * Add a new column to the Sign-In Google Sheet
    */
@@ -102,9 +157,12 @@ export class SignInSheetColumnService {
 
       // Simply add the header to the target column
       const columnLetter = this.numberToColumn(targetColumnIndex + 1);
-      const range = `${this.sheetName}!${columnLetter}1`;
+      const range = `'${this.sheetName}'!${columnLetter}1`;
       
       await this.updateRange(accessToken, range, [[columnName]]);
+      await auditLogService.log(accessToken, [{
+        entity: 'signInColumn', action: 'add', rowId: columnName, field: 'Header', oldValue: '', newValue: columnName
+      }]);
 
       console.log(`✅ Successfully added sign-in column '${columnName}' at ${columnLetter}1`);
     } catch (error) {
@@ -138,6 +196,10 @@ export class SignInSheetColumnService {
         newColumnName
       );
 
+      await auditLogService.log(accessToken, [{
+        entity: 'signInColumn', action: 'rename', rowId: oldColumnName, field: 'Header', oldValue: oldColumnName, newValue: newColumnName
+      }]);
+
       console.log(`Successfully renamed sign-in column from '${oldColumnName}' to '${newColumnName}'`);
     } catch (error) {
       console.error('Error renaming sign-in column:', error);
@@ -164,6 +226,10 @@ export class SignInSheetColumnService {
       // Delete the column
       await this.deleteColumns(accessToken, metadata.sheetId, columnIndex, 1);
 
+      await auditLogService.log(accessToken, [{
+        entity: 'signInColumn', action: 'delete', rowId: columnName, field: 'Header', oldValue: columnName, newValue: ''
+      }]);
+
       console.log(`Successfully removed column '${columnName}' from sign-in sheet`);
     } catch (error) {
       console.error('Error removing sign-in column:', error);
@@ -191,9 +257,13 @@ export class SignInSheetColumnService {
       }
 
       // Update the header row with the new order
-      const range = `${this.sheetName}!1:1`;
+      const range = `'${this.sheetName}'!1:1`;
       await this.updateRange(accessToken, range, [newHeaderOrder]);
 
+      await auditLogService.log(accessToken, [{
+        entity: 'signInColumn', action: 'reorder', rowId: '', field: 'Column Order', oldValue: currentHeaders.join(', '), newValue: newHeaderOrder.join(', ')
+      }]);
+
       console.log('Successfully reordered sign-in columns');
     } catch (error) {
       console.error('Error reordering sign-in columns:', error);
@@ -286,7 +356,7 @@ export class SignInSheetColumnService {
       if (columnIndex === -1) return false;
 
       const columnLetter = this.numberToColumn(columnIndex + 1);
-      const range = `${this.sheetName}!${columnLetter}2:${columnLetter}1000`;
+      const range = `'${this.sheetName}'!${columnLetter}2:${columnLetter}1000`;
       
       const response = await axios.get(
         `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`,
@@ -350,7 +420,7 @@ export class SignInSheetColumnService {
     value: string
   ): Promise<void> {
     const columnLetter = this.numberToColumn(column);
-    const range = `${this.sheetName}!${columnLetter}${row}`;
+    const range = `'${this.sheetName}'!${columnLetter}${row}`;
     
     await this.updateRange(accessToken, range, [[value]]);
   }
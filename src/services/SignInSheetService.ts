@@ -3,15 +3,22 @@ import type { AxiosResponse } from 'axios';
 import type { SignInRow } from '../types/signIn';
 import { SignInSheetColumnService } from './SignInSheetColumnService';
 import { SignInDataTransformService } from './SignInDataTransformService';
+import { dataSourceService } from './DataSourceService';
+import { DataTransformService } from './DataTransformService';
+import { auditLogService } from './AuditLogService';
+
+const ROW_CHECK_BATCH_SIZE = 100; // Rows re-read per request before a bulk write
 
 export class SignInSheetService {
   private readonly baseUrl = 'https://sheets.googleapis.com/v4';
-  private readonly spreadsheetId: string;
+  // Read on every call so a data source change in Settings applies immediately
+  private get spreadsheetId(): string {
+    return dataSourceService.spreadsheetId;
+  }
   private readonly apiKey: string;
   private columnService: SignInSheetColumnService;
 
   constructor() {
-    this.spreadsheetId = import.meta.env.VITE_GOOGLE_SHEETS_ID;
     this.apiKey = import.meta.env.VITE_GOOGLE_API_KEY;
     if (!this.spreadsheetId || !this.apiKey) {
       throw new Error('Google Sheets configuration missing.');
@@ -28,7 +35,7 @@ export class SignInSheetService {
 
   async fetchSignIns(accessToken: string): Promise<SignInRow[]> {
     try {
-      const range = "'sign-ins'!A1:H1000"; // Updated to include all 8 columns
+      const range = `'${dataSourceService.signInsSheetName}'`; // Whole tab, including custom and Scholar ID columns
       const url = `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`;
       const response: AxiosResponse<{ values: string[][] }> = await axios.get(url, {
         headers: this.getAuthHeaders(accessToken),
@@ -45,6 +52,237 @@ export class SignInSheetService {
     }
   }
 
+  /**
+   * Append a sign-in as a new row, laid out to match the sheet's headers, and return it with its row number.
+   * A sign-in already linked to a student adds the Scholar ID column if needed.
+   */
+  async appendSignIn(accessToken: string, signIn: SignInRow): Promise<SignInRow> {
+    try {
+      const headers = signIn.studentId
+        ? await this.columnService.ensureStudentIdColumn(accessToken)
+        : await this.columnService.getSheetHeaders(accessToken);
+      const row = SignInDataTransformService.transformSignInToSheetsRowDynamic(signIn, headers);
+
+      const response = await axios.post(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${dataSourceService.signInsSheetName}':append`,
+        { values: [row], majorDimension: 'ROWS' },
+        {
+          headers: this.getAuthHeaders(accessToken),
+          params: {
+            key: this.apiKey,
+            valueInputOption: 'RAW',
+            insertDataOption: 'INSERT_ROWS',
+          }
+        }
+      );
+      const match = response.data?.updates?.updatedRange?.match(/![A-Z]+(\d+)/);
+      const rowIndex = match ? parseInt(match[1], 10) : undefined;
+
+      await auditLogService.log(accessToken, auditLogService.rowChanges('signIn', String(rowIndex ?? ''), headers, [], row, 'add'));
+      console.log(`✅ Added sign-in for ${signIn.name || 'a scholar'} at row ${rowIndex ?? '?'}`);
+      // Return it as it will read back from the sheet, so later edits compare like with like
+      const [added] = SignInDataTransformService.transformSheetsDataToSignIns([headers, row]);
+      return { ...added, rowIndex };
+    } catch (error) {
+      console.error('Error adding sign-in:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Overwrite a sign-in's row. Fails if the row no longer holds the sign-in that was edited,
+   * since rows shift when others are added or deleted outside the app.
+   */
+  async updateSignIn(accessToken: string, original: SignInRow, updated: SignInRow): Promise<SignInRow> {
+    try {
+      const rowIndex = original.rowIndex;
+      if (!rowIndex) {
+        throw new Error('This sign-in has no row number. Refresh the sign-ins and try again.');
+      }
+      const headers = updated.studentId
+        ? await this.columnService.ensureStudentIdColumn(accessToken)
+        : await this.columnService.getSheetHeaders(accessToken);
+      const current = await this.readCurrentRow(accessToken, original, headers);
+      const row = SignInDataTransformService.transformSignInToSheetsRowDynamic(updated, headers);
+
+      await axios.put(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${dataSourceService.signInsSheetName}'!A${rowIndex}`,
+        { values: [row], majorDimension: 'ROWS' },
+        {
+          headers: this.getAuthHeaders(accessToken),
+          params: { key: this.apiKey, valueInputOption: 'RAW' }
+        }
+      );
+      await auditLogService.log(accessToken, auditLogService.rowChanges('signIn', String(rowIndex), headers, current, row));
+      console.log(`✅ Updated sign-in at row ${rowIndex}`);
+      const [saved] = SignInDataTransformService.transformSheetsDataToSignIns([headers, row]);
+      return { ...saved, rowIndex };
+    } catch (error) {
+      console.error('Error updating sign-in:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a sign-in's row, after checking the row still holds that sign-in. Later rows move up by one.
+   */
+  async deleteSignIn(accessToken: string, signIn: SignInRow): Promise<void> {
+    try {
+      const rowIndex = signIn.rowIndex;
+      if (!rowIndex) {
+        throw new Error('This sign-in has no row number. Refresh the sign-ins and try again.');
+      }
+      const headers = await this.columnService.getSheetHeaders(accessToken);
+      const current = await this.readCurrentRow(accessToken, signIn, headers);
+      const { sheetId } = await this.columnService.getSheetMetadata(accessToken);
+
+      await axios.post(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`, {
+        requests: [{
+          deleteDimension: {
+            range: { sheetId, dimension: 'ROWS', startIndex: rowIndex - 1, endIndex: rowIndex }
+          }
+        }]
+      }, {
+        headers: this.getAuthHeaders(accessToken),
+        params: { key: this.apiKey }
+      });
+      await auditLogService.log(accessToken, auditLogService.rowChanges('signIn', String(rowIndex), headers, current, [], 'delete'));
+      console.log(`🗑️ Deleted sign-in at row ${rowIndex}`);
+    } catch (error) {
+      console.error('Error deleting sign-in:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read a sign-in's row as it is now, throwing if it has changed since the sign-in was loaded
+   */
+  private async readCurrentRow(accessToken: string, signIn: SignInRow, headers: string[]): Promise<string[]> {
+    const range = `'${dataSourceService.signInsSheetName}'!${signIn.rowIndex}:${signIn.rowIndex}`;
+    const response: AxiosResponse<{ values?: string[][] }> = await axios.get(
+      `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`,
+      {
+        headers: this.getAuthHeaders(accessToken),
+        params: { key: this.apiKey }
+      }
+    );
+    const current = response.data.values?.[0] ?? [];
+    if (this.hasRowChanged(current, signIn, headers)) {
+      throw new Error('This sign-in has changed in Google Sheets since it was loaded. Refresh the sign-ins and try again.');
+    }
+    return current;
+  }
+
+  /**
+   * Re-read several sign-ins' rows, throwing if any has changed since the sign-ins were loaded,
+   * so a bulk write can't land on rows that have moved
+   */
+  private async checkCurrentRows(accessToken: string, signIns: SignInRow[], headers: string[]): Promise<void> {
+    let changed = 0;
+    for (let start = 0; start < signIns.length; start += ROW_CHECK_BATCH_SIZE) {
+      const batch = signIns.slice(start, start + ROW_CHECK_BATCH_SIZE);
+      const params = new URLSearchParams({ key: this.apiKey });
+      batch.forEach(signIn => params.append('ranges', `'${dataSourceService.signInsSheetName}'!${signIn.rowIndex}:${signIn.rowIndex}`));
+
+      const response: AxiosResponse<{ valueRanges?: { values?: string[][] }[] }> = await axios.get(
+        `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values:batchGet`,
+        {
+          headers: this.getAuthHeaders(accessToken),
+          params
+        }
+      );
+      const valueRanges = response.data.valueRanges ?? [];
+      changed += batch.filter((signIn, index) => this.hasRowChanged(valueRanges[index]?.values?.[0] ?? [], signIn, headers)).length;
+    }
+
+    if (changed > 0) {
+      throw new Error(`${changed} sign-in(s) have changed in Google Sheets since they were loaded. Refresh the sign-ins and try again.`);
+    }
+  }
+
+  /**
+   * Whether a row read from the sheet no longer holds the sign-in as it was loaded
+   */
+  private hasRowChanged(current: string[], signIn: SignInRow, headers: string[]): boolean {
+    // Compare both versions as read from the sheet, so formatting applied on read doesn't count as a change
+    const [sheetVersion, loadedVersion] = SignInDataTransformService.transformSheetsDataToSignIns([
+      headers,
+      current,
+      SignInDataTransformService.transformSignInToSheetsRowDynamic(signIn, headers)
+    ]);
+    const fields: (keyof SignInRow)[] = ['firstName', 'lastName', 'email', 'phone', 'school', 'gradYear', 'date', 'event'];
+    return fields.some(field => (sheetVersion[field] ?? '') !== (loadedVersion[field] ?? ''));
+  }
+
+  /**
+   * Save links between sign-in rows and students in the Scholar ID column, adding the column if needed.
+   * An empty student ID clears a link.
+   */
+  async linkSignIns(accessToken: string, links: { signIn: SignInRow; studentId: string }[]): Promise<void> {
+    try {
+      if (links.some(link => DataTransformService.isTemporaryStudentId(link.studentId))) {
+        throw new Error('This scholar was added directly in the sheet and has no scholar ID yet. Use Assign IDs on the dashboard, then try again.');
+      }
+      const headers = await this.columnService.ensureStudentIdColumn(accessToken);
+      const column = headers.findIndex(header => DataTransformService.isStudentIdHeader(header)) + 1;
+      const writable = links.filter(link => link.signIn.rowIndex);
+      await this.checkCurrentRows(accessToken, writable.map(link => link.signIn), headers);
+
+      await this.columnService.updateCells(accessToken, writable.map(link => ({
+        row: link.signIn.rowIndex ?? 0,
+        column,
+        value: link.studentId
+      })));
+      await auditLogService.log(accessToken, writable
+        .filter(link => (link.signIn.studentId ?? '') !== link.studentId)
+        .map(link => ({
+          entity: 'signIn' as const,
+          action: 'update' as const,
+          rowId: String(link.signIn.rowIndex),
+          field: headers[column - 1],
+          oldValue: link.signIn.studentId ?? '',
+          newValue: link.studentId
+        })));
+      console.log(`🔗 Linked ${writable.length} sign-in(s) to students`);
+    } catch (error) {
+      console.error('Error linking sign-ins to students:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rewrite the Event cell of several sign-in rows, e.g. to point them at a canonical event name
+   */
+  async updateSignInEvents(accessToken: string, updates: { signIn: SignInRow; event: string }[]): Promise<void> {
+    try {
+      const headers = await this.columnService.getSheetHeaders(accessToken);
+      const column = headers.findIndex(header => header.toLowerCase().replace(/[^a-z0-9]/g, '') === 'event') + 1;
+      if (column === 0) {
+        throw new Error('The sign-in sheet has no Event column');
+      }
+      const writable = updates.filter(update => update.signIn.rowIndex && update.signIn.event !== update.event);
+      await this.checkCurrentRows(accessToken, writable.map(update => update.signIn), headers);
+
+      await this.columnService.updateCells(accessToken, writable.map(update => ({
+        row: update.signIn.rowIndex ?? 0,
+        column,
+        value: update.event
+      })));
+      await auditLogService.log(accessToken, writable.map(update => ({
+        entity: 'signIn' as const,
+        action: 'update' as const,
+        rowId: String(update.signIn.rowIndex),
+        field: headers[column - 1],
+        oldValue: update.signIn.event,
+        newValue: update.event
+      })));
+      console.log(`📅 Updated the event on ${writable.length} sign-in(s)`);
+    } catch (error) {
+      console.error('Error updating sign-in events:', error);
+      throw error;
+    }
+  }
+
   // Column management methods using the column service
   async addColumn(accessToken: string, columnName: string, insertAfterColumn?: number): Promise<void> {
     return this.columnService.addColumn(accessToken, columnName, insertAfterColumn);
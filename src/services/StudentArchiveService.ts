@@ -0,0 +1,276 @@
+import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import type { ArchivedStudent, GoogleSheetsResponse, Student } from '../types';
+import { DataTransformService } from './DataTransformService';
+import { GoogleSheetsColumnService } from './GoogleSheetsColumnService';
+import { googleSheetsService } from './GoogleSheetsService';
+import { dataSourceService } from './DataSourceService';
+import { auditLogService } from './AuditLogService';
+
+const ARCHIVED_AT_HEADER = 'Archived At';
+const ARCHIVED_BY_HEADER = 'Archived By';
+const ARCHIVE_METADATA_HEADERS = [ARCHIVED_AT_HEADER, ARCHIVED_BY_HEADER];
+
+interface SheetProperties {
+  sheetId: number;
+  title: string;
+  gridProperties?: { rowCount?: number; columnCount?: number };
+}
+
+/**
+ * Service for archiving scholars: rows are moved, with every column, from the scholars tab to
+ * the archive tab instead of being deleted, and can be moved back later.
+ */
+class StudentArchiveService {
+  private readonly baseUrl = 'https://sheets.googleapis.com/v4';
+  // Read on every call so a data source change in Settings applies immediately
+  private get spreadsheetId(): string {
+    return dataSourceService.spreadsheetId;
+  }
+  private get studentsSheetName(): string {
+    return dataSourceService.studentsSheetName;
+  }
+  private get archivedSheetName(): string {
+    return dataSourceService.archivedSheetName;
+  }
+  private readonly columnService = new GoogleSheetsColumnService();
+
+  private getAuthHeaders(accessToken: string) {
+    return {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  /**
+   * Move a scholar's row to the archive tab, stamped with when and by whom it was archived
+   */
+  async archiveStudent(accessToken: string, studentId: string, archivedBy: string): Promise<void> {
+    try {
+      const studentHeaders = await this.columnService.getSheetHeaders(accessToken);
+      const rowIndex = await this.columnService.findStudentRowById(accessToken, studentId, studentHeaders);
+      if (rowIndex === null) {
+        throw new Error('This student no longer exists in Google Sheets. Refresh the data and try again.');
+      }
+
+      const endColumn = this.numberToColumnLetter(studentHeaders.length);
+      const [row = []] = await this.readValues(accessToken, `'${this.studentsSheetName}'!A${rowIndex}:${endColumn}${rowIndex}`);
+      const archiveHeaders = await this.ensureArchiveHeaders(accessToken, studentHeaders);
+
+      const archiveRow = archiveHeaders.map(header => {
+        if (header === ARCHIVED_AT_HEADER) return new Date().toLocaleString();
+        if (header === ARCHIVED_BY_HEADER) return archivedBy;
+        const index = studentHeaders.indexOf(header);
+        return index === -1 ? '' : row[index] ?? '';
+      });
+
+      // Copy first, so a failure part way never loses the scholar
+      await this.appendRow(accessToken, this.archivedSheetName, archiveRow);
+      await this.deleteRow(accessToken, this.studentsSheetName, rowIndex);
+      await auditLogService.log(accessToken, [{
+        entity: 'student',
+        action: 'archive',
+        rowId: studentId,
+        field: '',
+        oldValue: this.studentsSheetName,
+        newValue: this.archivedSheetName
+      }]);
+    } catch (error) {
+      console.error('Error archiving student:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read every scholar on the archive tab, most recently archived first
+   */
+  async fetchArchivedStudents(accessToken: string): Promise<ArchivedStudent[]> {
+    try {
+      if (!await this.getArchiveSheet(accessToken)) {
+        return [];
+      }
+
+      const [headers = [], ...rows] = await this.readValues(accessToken, `'${this.archivedSheetName}'`);
+      const archivedAtIndex = headers.indexOf(ARCHIVED_AT_HEADER);
+      const archivedByIndex = headers.indexOf(ARCHIVED_BY_HEADER);
+      const isStudentColumn = (_: string, index: number) => index !== archivedAtIndex && index !== archivedByIndex;
+      const studentHeaders = headers.filter(isStudentColumn);
+
+      const archived: ArchivedStudent[] = [];
+      rows.forEach((row, index) => {
+        if (row.every(cell => !cell?.trim())) return;
+        const rowIndex = index + 2;
+        const archivedAt = row[archivedAtIndex] ? new Date(row[archivedAtIndex]) : undefined;
+        archived.push({
+          student: DataTransformService.transformSheetRowToStudent(row.filter(isStudentColumn), studentHeaders, rowIndex),
+          rowIndex,
+          archivedAt: archivedAt && !isNaN(archivedAt.getTime()) ? archivedAt : undefined,
+          archivedBy: row[archivedByIndex] || undefined
+        });
+      });
+      return archived.reverse();
+    } catch (error) {
+      console.error('Error fetching archived students:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move an archived scholar back to the end of the scholars tab
+   */
+  async restoreStudent(accessToken: string, studentId: string): Promise<Student> {
+    try {
+      if (await googleSheetsService.studentExists(accessToken, studentId)) {
+        throw new Error('This student is already on the scholars tab.');
+      }
+
+      // Look the row up again, since restoring others shifts the archive rows
+      const [archiveHeaders = [], ...rows] = await this.readValues(accessToken, `'${this.archivedSheetName}'`);
+      const idIndex = archiveHeaders.findIndex(header => DataTransformService.isStudentIdHeader(header));
+      const index = idIndex === -1 ? -1 : rows.findIndex(row => row[idIndex]?.trim() === studentId);
+      if (index === -1) {
+        throw new Error('This student is no longer in the archive. Refresh the archive and try again.');
+      }
+
+      const studentHeaders = await this.columnService.ensureStudentIdColumn(accessToken);
+      const row = studentHeaders.map(header => {
+        const archiveIndex = archiveHeaders.indexOf(header);
+        return archiveIndex === -1 ? '' : rows[index][archiveIndex] ?? '';
+      });
+
+      const rowIndex = await this.appendRow(accessToken, this.studentsSheetName, row);
+      await this.deleteRow(accessToken, this.archivedSheetName, index + 2);
+      await auditLogService.log(accessToken, [{
+        entity: 'student',
+        action: 'restore',
+        rowId: studentId,
+        field: '',
+        oldValue: this.archivedSheetName,
+        newValue: this.studentsSheetName
+      }]);
+      return DataTransformService.transformSheetRowToStudent(row, studentHeaders, rowIndex);
+    } catch (error) {
+      console.error('Error restoring student:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the archive tab if needed, and add any scholar columns it doesn't have yet
+   */
+  private async ensureArchiveHeaders(accessToken: string, studentHeaders: string[]): Promise<string[]> {
+    let sheet = await this.getArchiveSheet(accessToken);
+    if (!sheet) {
+      sheet = await this.createArchiveSheet(accessToken, studentHeaders.length + ARCHIVE_METADATA_HEADERS.length);
+    }
+
+    const [existing = []] = await this.readValues(accessToken, `'${this.archivedSheetName}'!1:1`);
+    const missing = [...studentHeaders, ...ARCHIVE_METADATA_HEADERS].filter(header => header && !existing.includes(header));
+    if (missing.length === 0) {
+      return existing;
+    }
+
+    const headers = [...existing, ...missing];
+    const columnCount = sheet.gridProperties?.columnCount ?? 0;
+    if (headers.length > columnCount) {
+      await axios.post(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`, {
+        requests: [{
+          appendDimension: { sheetId: sheet.sheetId, dimension: 'COLUMNS', length: headers.length - columnCount }
+        }]
+      }, {
+        headers: this.getAuthHeaders(accessToken)
+      });
+    }
+
+    const range = `'${this.archivedSheetName}'!A1:${this.numberToColumnLetter(headers.length)}1`;
+    await axios.put(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`, {
+      values: [headers],
+      majorDimension: 'ROWS'
+    }, {
+      headers: this.getAuthHeaders(accessToken),
+      params: {
+        valueInputOption: 'RAW',
+      }
+    });
+    return headers;
+  }
+
+  private async getArchiveSheet(accessToken: string): Promise<SheetProperties | null> {
+    const response = await axios.get(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}`, {
+      headers: this.getAuthHeaders(accessToken),
+      params: { fields: 'sheets.properties' }
+    });
+    const sheets: Array<{ properties: SheetProperties }> = response.data.sheets ?? [];
+    return sheets.find(sheet => sheet.properties.title === this.archivedSheetName)?.properties ?? null;
+  }
+
+  private async createArchiveSheet(accessToken: string, columnCount: number): Promise<SheetProperties> {
+    console.log(`📦 Creating archive tab '${this.archivedSheetName}'`);
+    const response = await axios.post(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`, {
+      requests: [{
+        addSheet: {
+          properties: {
+            title: this.archivedSheetName,
+            gridProperties: { rowCount: 1000, columnCount: Math.max(columnCount, 26), frozenRowCount: 1 }
+          }
+        }
+      }]
+    }, {
+      headers: this.getAuthHeaders(accessToken)
+    });
+    return response.data.replies[0].addSheet.properties;
+  }
+
+  private async readValues(accessToken: string, range: string): Promise<string[][]> {
+    const response: AxiosResponse<GoogleSheetsResponse> = await axios.get(
+      `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/${range}`,
+      { headers: this.getAuthHeaders(accessToken) }
+    );
+    return response.data.values ?? [];
+  }
+
+  /**
+   * Append a row to a tab, returning the row number it was written to. Values are written as
+   * read, so archiving and restoring leaves phone numbers, dates and IDs unchanged.
+   */
+  private async appendRow(accessToken: string, sheetName: string, row: string[]): Promise<number> {
+    const response = await axios.post(
+      `${this.baseUrl}/spreadsheets/${this.spreadsheetId}/values/'${sheetName}':append`,
+      { values: [row], majorDimension: 'ROWS' },
+      {
+        headers: this.getAuthHeaders(accessToken),
+        params: {
+          valueInputOption: 'RAW',
+          insertDataOption: 'INSERT_ROWS',
+        }
+      }
+    );
+    const match = response.data?.updates?.updatedRange?.match(/![A-Z]+(\d+)/);
+    return match ? parseInt(match[1], 10) : -1;
+  }
+
+  private async deleteRow(accessToken: string, sheetName: string, rowIndex: number): Promise<void> {
+    const { sheetId } = await googleSheetsService.getSheetMetadata(accessToken, sheetName);
+    await axios.post(`${this.baseUrl}/spreadsheets/${this.spreadsheetId}:batchUpdate`, {
+      requests: [{
+        deleteDimension: {
+          range: { sheetId, dimension: 'ROWS', startIndex: rowIndex - 1, endIndex: rowIndex }
+        }
+      }]
+    }, {
+      headers: this.getAuthHeaders(accessToken)
+    });
+  }
+
+  private numberToColumnLetter(num: number): string {
+    let columnLetter = '';
+    while (num > 0) {
+      num--; // Adjust for 0-based indexing
+      columnLetter = String.fromCharCode(65 + (num % 26)) + columnLetter;
+      num = Math.floor(num / 26);
+    }
+    return columnLetter;
+  }
+}
+
+export const studentArchiveService = new StudentArchiveService();
@@ -0,0 +1,235 @@
+import axios from 'axios';
+import type { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import type { GoogleAuthResponse } from '../types';
+
+export const GOOGLE_OAUTH_SCOPES = [
+  'https://www.googleapis.com/auth/spreadsheets',
+  'https://www.googleapis.com/auth/userinfo.profile',
+  'https://www.googleapis.com/auth/userinfo.email'
+];
+
+const SHEETS_API_URL = 'https://sheets.googleapis.com/';
+
+/**
+ * Options passed to the Google token client when requesting a token
+ */
+export interface TokenRequestOptions {
+  prompt?: string; // '' skips the consent screen for users who already granted access
+  hint?: string; // Email of the account to use
+}
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { tokenRetried?: boolean };
+
+interface RenewalWaiter {
+  resolve: (token: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Service for the Google access token lifecycle.
+ *
+ * - Requests tokens through the Google Identity Services token client (used by the login button too)
+ * - Refreshes the token on demand, sharing a single in-flight refresh between all callers. Google
+ *   opens a popup for this, so refreshes only start from a user action
+ * - Holds Sheets API calls while a refresh is in flight. A call that gets a 401 waits until the
+ *   user renews the session (in this tab or another) and is then retried once
+ */
+class TokenManagementService {
+  private accessToken: string | null = null;
+  private refreshHandler: (() => Promise<string>) | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  private renewalRequiredHandler: ((required: boolean) => void) | null = null;
+  private renewalWaiters: RenewalWaiter[] = [];
+
+  constructor() {
+    this.installInterceptors();
+  }
+
+  /**
+   * Request an access token from Google's token client
+   */
+  requestAccessToken(options: TokenRequestOptions = {}): Promise<GoogleAuthResponse> {
+    return new Promise((resolve, reject) => {
+      if (!window.google?.accounts?.oauth2) {
+        reject(new Error('Google OAuth library not loaded. Please check your internet connection and try again.'));
+        return;
+      }
+
+      const client = window.google.accounts.oauth2.initTokenClient({
+        client_id: import.meta.env.VITE_GOOGLE_CLIENT_ID,
+        scope: GOOGLE_OAUTH_SCOPES.join(' '),
+        callback: (response: GoogleAuthResponse & { error?: string }) => {
+          if (response.error) {
+            reject(new Error(`OAuth Error: ${response.error}`));
+          } else if (!response.access_token) {
+            reject(new Error('No access token received from Google'));
+          } else {
+            resolve(response);
+          }
+        },
+        error_callback: (error: { type?: string; message?: string }) => {
+          reject(new Error(`OAuth initialization error: ${error?.message || error?.type || error}`));
+        }
+      });
+
+      client.requestAccessToken(options);
+    });
+  }
+
+  /**
+   * Keep track of the current token so queued and retried requests use the latest one
+   */
+  setAccessToken(accessToken: string | null): void {
+    const changed = accessToken !== this.accessToken;
+    this.accessToken = accessToken;
+    // A token renewed in another tab arrives here through the stored login
+    if (changed && accessToken) {
+      this.settleRenewal(accessToken);
+    }
+  }
+
+  /**
+   * Register how to obtain and store a new token (set while a user is signed in)
+   */
+  setRefreshHandler(handler: (() => Promise<string>) | null): void {
+    this.refreshHandler = handler;
+    if (!handler) {
+      // Signed out: calls waiting for a renewal won't get one
+      const waiters = this.renewalWaiters;
+      this.renewalWaiters = [];
+      waiters.forEach(waiter => waiter.reject(new Error('Signed out before the session was renewed')));
+      this.renewalRequiredHandler?.(false);
+    }
+  }
+
+  /**
+   * Register who to tell when Sheets calls are waiting for the user to renew the session
+   */
+  setRenewalRequiredHandler(handler: ((required: boolean) => void) | null): void {
+    this.renewalRequiredHandler = handler;
+    handler?.(this.renewalWaiters.length > 0);
+  }
+
+  /**
+   * Whether a token refresh is currently in flight
+   */
+  isRefreshing(): boolean {
+    return this.refreshPromise !== null;
+  }
+
+  /**
+   * Refresh the access token; concurrent callers share the same refresh
+   */
+  refreshAccessToken(): Promise<string> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    if (!this.refreshHandler) {
+      return Promise.reject(new Error('Cannot refresh token: no user is signed in'));
+    }
+
+    console.log('🔄 Refreshing Google access token...');
+    this.refreshPromise = this.refreshHandler()
+      .then(token => {
+        this.accessToken = token;
+        this.settleRenewal(token);
+        console.log('✅ Google access token refreshed');
+        return token;
+      })
+      .catch(error => {
+        console.error('❌ Failed to refresh Google access token:', error);
+        throw error;
+      })
+      .finally(() => {
+        this.refreshPromise = null;
+      });
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Wait for a new token: the in-flight refresh if there is one, otherwise the next renewal the
+   * user makes in any tab
+   */
+  private waitForRenewal(): Promise<string> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    return new Promise((resolve, reject) => {
+      this.renewalWaiters.push({ resolve, reject });
+      if (this.renewalWaiters.length === 1) {
+        console.log('🔑 Google session expired; waiting for the user to continue');
+        this.renewalRequiredHandler?.(true);
+      }
+    });
+  }
+
+  private settleRenewal(token: string): void {
+    if (this.renewalWaiters.length === 0) return;
+    const waiters = this.renewalWaiters;
+    this.renewalWaiters = [];
+    waiters.forEach(waiter => waiter.resolve(token));
+    this.renewalRequiredHandler?.(false);
+  }
+
+  private isSheetsRequest(url?: string): boolean {
+    return !!url && url.startsWith(SHEETS_API_URL);
+  }
+
+  private setBearer(config: InternalAxiosRequestConfig, token: string): void {
+    if (config.headers?.Authorization) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+  }
+
+  /**
+   * Hook into axios so every Sheets API call waits for in-flight refreshes and survives one 401
+   */
+  private installInterceptors(): void {
+    axios.interceptors.request.use(async config => {
+      if (!this.isSheetsRequest(config.url)) return config;
+
+      if (this.refreshPromise) {
+        try {
+          await this.refreshPromise;
+        } catch {
+          // The request goes out with the old token; the 401 handler below reports the failure
+        }
+      }
+
+      if (this.accessToken) {
+        this.setBearer(config, this.accessToken);
+      }
+      return config;
+    });
+
+    axios.interceptors.response.use(
+      response => response,
+      async (error: AxiosError) => {
+        const config = error.config as RetriableRequestConfig | undefined;
+        const canRetry = error.response?.status === 401 &&
+          !!config &&
+          !config.tokenRetried &&
+          this.isSheetsRequest(config.url) &&
+          this.refreshHandler !== null;
+
+        if (!canRetry || !config) {
+          throw error;
+        }
+
+        config.tokenRetried = true;
+        // The token may already have been renewed while this call was out
+        const sentToken = config.headers?.Authorization?.toString().replace('Bearer ', '');
+        const token = this.accessToken && this.accessToken !== sentToken
+          ? this.accessToken
+          : await this.waitForRenewal();
+        this.setBearer(config, token);
+        return axios.request(config);
+      }
+    );
+  }
+}
+
+export const tokenManagementService = new TokenManagementService();
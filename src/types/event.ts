@@ -0,0 +1,12 @@
+// A canonical event, stored as a row on the events tab
+export interface ProgramEvent {
+  id: string;
+  name: string;
+  date: string; // yyyy-mm-dd, empty for recurring or undated events
+  location: string;
+  type: string;
+  points: number; // Participation points for attending
+  rowIndex: number; // For API updates
+}
+
+export type ProgramEventInput = Omit<ProgramEvent, 'id' | 'rowIndex'>;
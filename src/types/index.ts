@@ -1,3 +1,5 @@
+import type { SignInRow } from './signIn';
+
 export interface Student {
   id: string;
   lastName: string;
@@ -43,7 +45,7 @@ declare global {
             callback: (response: any) => void;
             error_callback?: (error: any) => void;
           }) => {
-            requestAccessToken: () => void;
+            requestAccessToken: (overrideConfig?: { prompt?: string; hint?: string }) => void;
           };
         };
       };
@@ -60,8 +62,44 @@ export interface DataState {
   searchQuery: string;
   filters: FilterOptions;
   sorting?: SortOption;
+  outbox: OutboxEntry[]; // Mutations waiting to be written to Google Sheets
+  cachedAt: Date | null; // Set while showing a cached snapshot that hasn't been revalidated yet
+  truncation: { loadedRows: number; totalRows: number } | null; // Set when the sheet was too large to load in full
+  missingIds: number; // Rows added directly in the sheet that have no scholar ID yet
+  undoStack: StudentHistoryEntry[]; // Most recent change last
+  redoStack: StudentHistoryEntry[];
+}
+
+// Undo/redo history types. Row positions are 1-based sheet rows and list positions
+// are indexes into DataState.students, both captured when the change was made.
+export type StudentHistoryEntry =
+  | { type: 'add' | 'delete'; student: Student; rowIndex: number; listIndex: number }
+  | { type: 'update'; before: Student; after: Student };
+
+// Offline outbox types
+export type PendingMutation =
+  | { type: 'addStudent'; student: Student }
+  | { type: 'updateStudent'; student: Student; baseVersion?: Student }
+  | { type: 'deleteStudent'; student: Student }
+  // Sign-ins have no persistent ID, so edits and deletions find their row by the row number they were loaded with
+  | { type: 'appendSignIn'; signIn: SignInRow }
+  | { type: 'updateSignIn'; original: SignInRow; signIn: SignInRow }
+  | { type: 'deleteSignIn'; signIn: SignInRow };
+
+export interface OutboxEntry {
+  id: number; // Auto-incremented, so entries replay in the order they were made
+  userEmail: string;
+  dataSource?: string; // Source key of the workbook the change belongs to
+  mutation: PendingMutation;
+  status: 'pending' | 'failed';
+  createdAt: Date;
+  attempts: number;
+  lastError?: string;
+  conflict?: boolean; // The sheet changed since the edit was made
 }
 
+export type MutationResult = 'synced' | 'queued';
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
@@ -82,6 +120,55 @@ export interface SheetMetadata {
   columnCount: number;
 }
 
+export interface DataSourceConfig {
+  spreadsheetId: string;
+  studentsSheetName: string; // Tab holding scholars
+  signInsSheetName: string; // Tab holding event sign-ins
+  archivedSheetName: string; // Tab archived scholars are moved to, created on first use
+  eventsSheetName: string; // Tab holding canonical events, created on first use
+}
+
+export interface Program {
+  id: string;
+  name: string;
+  dataSource: DataSourceConfig;
+}
+
+export interface ProgramList {
+  programs: Program[];
+  activeProgramId: string;
+}
+
+export interface ArchivedStudent {
+  student: Student;
+  rowIndex: number; // Row on the archive tab
+  archivedAt?: Date;
+  archivedBy?: string;
+}
+
+// Audit log types
+export type AuditEntity = 'student' | 'studentColumn' | 'signIn' | 'signInColumn' | 'event' | 'pointsRule';
+export type AuditAction = 'add' | 'update' | 'delete' | 'archive' | 'restore' | 'rename' | 'reorder';
+
+export interface AuditLogEntry {
+  timestamp: Date;
+  userEmail: string;
+  entity: AuditEntity;
+  action: AuditAction;
+  rowId: string; // Student, sign-in or event ID, or the column name for column operations
+  field: string; // Column header, empty when the whole row was added or removed
+  oldValue: string;
+  newValue: string;
+}
+
+export interface StudentFetchResult {
+  students: Student[];
+  truncated: boolean; // The sheet has more rows than were loaded
+  loadedRows: number;
+  totalRows: number;
+  missingIds: number; // Rows with no scholar ID yet, which get temporary IDs until IDs are assigned
+}
+
 export interface BatchUpdate {
   rowIndex: number;
   columnIndex: number;
@@ -8,5 +8,20 @@ export interface SignInRow {
   email: string;
   date: string;
   event: string;
+  studentId?: string; // Confirmed link to a student, saved in the sign-ins tab's Scholar ID column
+  rowIndex?: number; // Sheet row number, for writing the link back
   customFields?: Record<string, any>; // Support for custom fields
 }
+
+// Attendance derived from sign-ins matched to a student
+export interface AttendedEvent {
+  event: string;
+  date: Date | null; // null when the sign-in date couldn't be parsed
+  rawDate: string;
+}
+
+export interface StudentAttendance {
+  eventsAttended: number;
+  lastSeen: Date | null;
+  events: AttendedEvent[]; // Most recent first
+}
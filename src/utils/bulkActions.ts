@@ -0,0 +1,118 @@
+import type { Student } from '../types';
+import type { ColumnSettings } from '../contexts/SettingsContext';
+
+/**
+ * A field that can be set on many students at once
+ */
+export interface BulkField {
+  key: string; // Student property name, or the custom field name when isCustom
+  label: string;
+  type: ColumnSettings['type'];
+  isCustom: boolean;
+}
+
+export type BulkAction =
+  | { type: 'setField'; field: BulkField; value: string }
+  | { type: 'addPoints'; points: number }
+  | { type: 'delete' };
+
+const standardBulkFields: BulkField[] = [
+  { key: 'parentForm', label: 'Parent Form', type: 'boolean', isCustom: false },
+  { key: 'collegeEnrolled', label: 'College Enrolled', type: 'boolean', isCustom: false },
+  { key: 'careerExploration', label: 'Career Exploration', type: 'date', isCustom: false },
+  { key: 'collegeExploration', label: 'College Exploration', type: 'date', isCustom: false },
+  { key: 'highSchool', label: 'High School', type: 'string', isCustom: false },
+  { key: 'graduationYear', label: 'Graduation Year', type: 'number', isCustom: false },
+];
+
+/**
+ * Fields offered by the "Set Field" bulk action: common tracking fields plus custom columns
+ */
+export const getBulkFields = (columnSettings: ColumnSettings[]): BulkField[] => [
+  ...standardBulkFields,
+  ...columnSettings
+    .filter(column => column.isCustom)
+    .map(column => ({ key: column.field, label: column.headerName, type: column.type, isCustom: true })),
+];
+
+const parseBulkValue = (field: BulkField, value: string): unknown => {
+  switch (field.type) {
+    case 'boolean':
+      return value === 'true';
+    case 'date':
+      return value ? new Date(`${value}T00:00:00`) : undefined;
+    case 'number':
+      return value === '' ? undefined : Number(value);
+    default:
+      return value.trim() || undefined;
+  }
+};
+
+/**
+ * Apply a bulk action to one student, returning the updated copy
+ */
+export const applyBulkAction = (student: Student, action: BulkAction): Student => {
+  switch (action.type) {
+    case 'setField': {
+      const value = parseBulkValue(action.field, action.value);
+      if (action.field.isCustom) {
+        const customFields = { ...student.customFields };
+        if (value === undefined) {
+          delete customFields[action.field.key];
+        } else {
+          customFields[action.field.key] = value;
+        }
+        return { ...student, customFields };
+      }
+      return { ...student, [action.field.key]: value };
+    }
+    case 'addPoints':
+      return { ...student, participationPoints: (student.participationPoints || 0) + action.points };
+    default:
+      return student;
+  }
+};
+
+const formatBulkValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (value instanceof Date) return value.toDateString();
+  return String(value);
+};
+
+/**
+ * Whether applying a bulk action would change the student
+ */
+export const bulkActionChangesStudent = (student: Student, action: BulkAction): boolean => {
+  switch (action.type) {
+    case 'setField': {
+      const updated = applyBulkAction(student, action);
+      const read = (s: Student): unknown => action.field.isCustom
+        ? s.customFields?.[action.field.key]
+        : s[action.field.key as keyof Student];
+      return formatBulkValue(read(student)) !== formatBulkValue(read(updated));
+    }
+    case 'addPoints':
+      return action.points !== 0;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Short description of a bulk action for confirmation summaries
+ */
+export const describeBulkAction = (action: BulkAction): string => {
+  switch (action.type) {
+    case 'setField': {
+      const { field, value } = action;
+      if (field.type === 'boolean') {
+        return `Set ${field.label} to ${value === 'true' ? 'Yes' : 'No'}`;
+      }
+      return value ? `Set ${field.label} to ${value}` : `Clear ${field.label}`;
+    }
+    case 'addPoints':
+      return `${action.points >= 0 ? 'Add' : 'Remove'} ${Math.abs(action.points)} participation point${Math.abs(action.points) === 1 ? '' : 's'}`;
+    case 'delete':
+      return 'Delete';
+  }
+};
@@ -0,0 +1,59 @@
+import type { Student } from '../types';
+import type { SignInRow } from '../types/signIn';
+import { AttendanceService } from '../services/AttendanceService';
+import { SignInDataTransformService } from '../services/SignInDataTransformService';
+import { DataTransformService } from '../services/DataTransformService';
+import { normalizeEmail } from './studentDuplicates';
+import { getCheckInPath } from './routes';
+
+// Marks a scanned code as a scholar badge rather than some other QR code
+const STUDENT_QR_PREFIX = 'pp-student:';
+
+/**
+ * The text encoded in a scholar's printable QR code
+ */
+export const getStudentQrValue = (studentId: string): string => `${STUDENT_QR_PREFIX}${studentId}`;
+
+/**
+ * Read the student ID from a scanned code, or null if it isn't a scholar code
+ */
+export const parseStudentQrValue = (text: string): string | null => {
+  const value = text.trim();
+  if (!value.startsWith(STUDENT_QR_PREFIX)) return null;
+  return value.slice(STUDENT_QR_PREFIX.length).trim() || null;
+};
+
+/**
+ * The link in an event's check-in QR code, which opens this app on the event's check-in page
+ */
+export const getEventCheckInUrl = (eventId: string): string =>
+  new URL(getCheckInPath(eventId), window.location.origin).toString();
+
+/**
+ * Whether a student already has a sign-in for the event today, linked by ID or with their email
+ */
+export const hasSignedInToday = (signIns: SignInRow[], eventName: string, student: Student): boolean => {
+  const today = new Date().toDateString();
+  return signIns.some(signIn =>
+    signIn.event === eventName &&
+    AttendanceService.parseSignInDate(signIn.date)?.toDateString() === today &&
+    (signIn.studentId === student.id || (!!signIn.email && normalizeEmail(signIn.email) === normalizeEmail(student.email)))
+  );
+};
+
+/**
+ * A sign-in for a known student at the event, stamped with the current time
+ */
+export const buildStudentSignIn = (student: Student, eventName: string): SignInRow => ({
+  firstName: student.firstName,
+  lastName: student.lastName,
+  name: `${student.firstName} ${student.lastName}`,
+  school: student.highSchool,
+  phone: student.cellNumber ?? '',
+  gradYear: student.graduationYear ? String(student.graduationYear) : '',
+  email: student.email,
+  date: SignInDataTransformService.formatSignInDate(),
+  event: eventName,
+  // A temporary ID would change once IDs are assigned, so such sign-ins are matched by email instead
+  studentId: DataTransformService.isTemporaryStudentId(student.id) ? '' : student.id,
+});
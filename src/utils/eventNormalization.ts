@@ -0,0 +1,65 @@
+import type { ProgramEvent } from '../types/event';
+import type { SignInRow } from '../types/signIn';
+import { nameSimilarity } from './studentDuplicates';
+
+// Minimum similarity for suggesting a canonical event for a free-text name
+const SUGGESTION_THRESHOLD = 0.6;
+
+/**
+ * A free-text event name from the sign-in sheet that isn't exactly a canonical event's name
+ */
+export interface EventNameGroup {
+  name: string;
+  signIns: SignInRow[];
+  suggestion: ProgramEvent | null;
+}
+
+/**
+ * Compare event names ignoring case, spacing and punctuation
+ */
+export const normalizeEventName = (name: string | undefined): string =>
+  (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * The canonical event a sign-in's event name refers to, if any
+ */
+export const findCanonicalEvent = (name: string, events: ProgramEvent[]): ProgramEvent | null => {
+  const normalized = normalizeEventName(name);
+  return normalized ? events.find(event => normalizeEventName(event.name) === normalized) ?? null : null;
+};
+
+/**
+ * The canonical event most like a free-text name: a normalized match, else the closest similar name
+ */
+export const suggestCanonicalEvent = (name: string, events: ProgramEvent[]): ProgramEvent | null => {
+  const exact = findCanonicalEvent(name, events);
+  if (exact) return exact;
+
+  const normalized = normalizeEventName(name);
+  let best: ProgramEvent | null = null;
+  let bestScore = 0;
+  for (const event of events) {
+    const score = nameSimilarity(normalized, normalizeEventName(event.name));
+    if (score >= SUGGESTION_THRESHOLD && score > bestScore) {
+      best = event;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Group sign-ins whose event isn't written exactly as a canonical event name, most sign-ins first
+ */
+export const getNonCanonicalEventNames = (signIns: SignInRow[], events: ProgramEvent[]): EventNameGroup[] => {
+  const canonicalNames = new Set(events.map(event => event.name));
+  const groups = new Map<string, SignInRow[]>();
+  signIns.forEach(signIn => {
+    if (!signIn.event || canonicalNames.has(signIn.event)) return;
+    groups.set(signIn.event, [...(groups.get(signIn.event) ?? []), signIn]);
+  });
+
+  return [...groups.entries()]
+    .map(([name, rows]) => ({ name, signIns: rows, suggestion: suggestCanonicalEvent(name, events) }))
+    .sort((a, b) => b.signIns.length - a.signIns.length || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,108 @@
+import type { Student } from '../types';
+import type { StudentAttendance } from '../types/signIn';
+import type { PointsRule } from '../contexts/SettingsContext';
+import type { ProgramEvent } from '../types/event';
+
+/**
+ * A student whose computed points differ from the value in the sheet
+ */
+export interface PointsChange {
+  student: Student;
+  current: number;
+  computed: number;
+}
+
+/**
+ * Whether a rule's pattern matches an event name; invalid regular expressions match nothing
+ */
+export const ruleMatchesEvent = (rule: PointsRule, event: string): boolean => {
+  const pattern = rule.pattern.trim();
+  if (!pattern) return false;
+
+  switch (rule.matchType) {
+    case 'exact':
+      return event.trim().toLowerCase() === pattern.toLowerCase();
+    case 'contains':
+      return event.toLowerCase().includes(pattern.toLowerCase());
+    case 'regex':
+      try {
+        return new RegExp(pattern, 'i').test(event);
+      } catch {
+        return false;
+      }
+  }
+};
+
+/**
+ * Check a rule's regular expression, returning the error message if it doesn't compile
+ */
+export const getRuleError = (rule: PointsRule): string | null => {
+  if (rule.matchType !== 'regex' || !rule.pattern.trim()) return null;
+  try {
+    new RegExp(rule.pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+};
+
+/**
+ * Points for attending an event: the first matching rule wins, and events without one are worth nothing
+ */
+export const getEventPoints = (event: string, rules: PointsRule[]): number => {
+  const rule = rules.find(candidate => ruleMatchesEvent(candidate, event));
+  return rule ? rule.points : 0;
+};
+
+/**
+ * Exact-name rules for each canonical event's point value, checked ahead of the rules in Settings
+ */
+export const getEventRules = (events: ProgramEvent[]): PointsRule[] =>
+  events
+    .filter(event => event.name)
+    .map(event => ({ id: `event_${event.id}`, pattern: event.name, matchType: 'exact' as const, points: event.points }));
+
+/**
+ * Compute every student's points from their attendance
+ */
+export const computeParticipationPoints = (
+  students: Student[],
+  attendance: Map<string, StudentAttendance>,
+  rules: PointsRule[]
+): Map<string, number> => {
+  const points = new Map<string, number>();
+  students.forEach(student => {
+    const events = attendance.get(student.id)?.events ?? [];
+    points.set(student.id, events.reduce((total, { event }) => total + getEventPoints(event, rules), 0));
+  });
+  return points;
+};
+
+/**
+ * Students whose computed points differ from their current sheet value
+ */
+export const getPointsChanges = (
+  students: Student[],
+  attendance: Map<string, StudentAttendance>,
+  rules: PointsRule[]
+): PointsChange[] => {
+  const computed = computeParticipationPoints(students, attendance, rules);
+  return students.flatMap(student => {
+    const current = student.participationPoints ?? 0;
+    const value = computed.get(student.id) ?? 0;
+    return value === current ? [] : [{ student, current, computed: value }];
+  });
+};
+
+/**
+ * Distinct event names that no rule matches, so staff can see what still needs a rule
+ */
+export const getUnmatchedEvents = (attendance: Map<string, StudentAttendance>, rules: PointsRule[]): string[] => {
+  const events = new Set<string>();
+  attendance.forEach(({ events: attended }) => {
+    attended.forEach(({ event }) => {
+      if (!rules.some(rule => ruleMatchesEvent(rule, event))) events.add(event);
+    });
+  });
+  return [...events].sort();
+};
@@ -0,0 +1,36 @@
+// Top-level pages and the paths they live at; the first path segment picks the page
+const pagePaths: Record<string, string> = {
+  dashboard: '/',
+  students: '/students',
+  signins: '/signins',
+  events: '/events',
+  settings: '/settings',
+};
+
+/**
+ * The path of a page in the navigation
+ */
+export const getPagePath = (page: string): string => pagePaths[page] ?? '/';
+
+/**
+ * The navigation page a path belongs to, e.g. "students" for /students/123
+ */
+export const getPageFromPath = (pathname: string): string => {
+  const [segment = ''] = pathname.split('/').filter(Boolean);
+  return Object.keys(pagePaths).find(page => pagePaths[page] === `/${segment}`) ?? 'dashboard';
+};
+
+export const getStudentPath = (studentId: string): string => `/students/${encodeURIComponent(studentId)}`;
+
+// History state set when a student is opened from the list, rather than from a shared link
+export interface StudentDetailsState {
+  fromList: true;
+}
+
+/**
+ * Whether the current history entry was pushed by opening a student from the list
+ */
+export const isOpenedFromList = (state: unknown): boolean =>
+  typeof state === 'object' && state !== null && 'fromList' in state && state.fromList === true;
+
+export const getCheckInPath = (eventId: string): string => `/checkin/${encodeURIComponent(eventId)}`;
@@ -0,0 +1,180 @@
+import type { Student } from '../types';
+import type { SignInRow } from '../types/signIn';
+import {
+  nameSimilarity,
+  normalizeEmail,
+  normalizeName,
+  normalizePhone,
+  normalizeSchool,
+} from './studentDuplicates';
+
+/**
+ * How a sign-in was resolved to a student:
+ * - linked: a staff-confirmed link saved in the sheet
+ * - matched: exactly one student matched automatically
+ * - ambiguous: several students could be the match
+ * - unmatched: no student matched
+ */
+export type SignInMatchStatus = 'linked' | 'matched' | 'ambiguous' | 'unmatched';
+
+export type SignInMatchMethod = 'link' | 'email' | 'phone' | 'name';
+
+export interface SignInMatch {
+  signIn: SignInRow;
+  status: SignInMatchStatus;
+  student?: Student; // Set when linked or matched
+  method?: SignInMatchMethod;
+  candidates: Student[]; // Possible students for ambiguous sign-ins, best first
+}
+
+// Both first and last name must be at least this similar for a name match
+const NAME_MATCH_THRESHOLD = 0.85;
+
+export interface StudentMatchIndex {
+  byId: Map<string, Student>;
+  byEmail: Map<string, Student[]>;
+  byPhone: Map<string, Student[]>;
+  students: Student[];
+}
+
+const phoneKey = (phone: string | undefined): string => normalizePhone(phone).slice(-10);
+
+const addTo = (map: Map<string, Student[]>, key: string, student: Student) => {
+  if (!key) return;
+  const list = map.get(key);
+  if (list) {
+    list.push(student);
+  } else {
+    map.set(key, [student]);
+  }
+};
+
+/**
+ * Index students by ID, email and phone, so matching many sign-ins stays fast
+ */
+export const buildStudentMatchIndex = (students: Student[]): StudentMatchIndex => {
+  const index: StudentMatchIndex = { byId: new Map(), byEmail: new Map(), byPhone: new Map(), students };
+  students.forEach(student => {
+    if (student.id) index.byId.set(student.id, student);
+    addTo(index.byEmail, normalizeEmail(student.email), student);
+    const phone = phoneKey(student.cellNumber);
+    if (phone.length === 10) addTo(index.byPhone, phone, student);
+  });
+  return index;
+};
+
+/**
+ * Narrow several candidates to the one with the sign-in's graduation year, if exactly one has it
+ */
+const narrowByGradYear = (candidates: Student[], signIn: SignInRow): Student[] => {
+  const gradYear = parseInt(signIn.gradYear, 10);
+  if (candidates.length < 2 || isNaN(gradYear)) return candidates;
+  const sameYear = candidates.filter(student => student.graduationYear === gradYear);
+  return sameYear.length === 1 ? sameYear : candidates;
+};
+
+const resolve = (
+  signIn: SignInRow,
+  candidates: Student[],
+  method: SignInMatchMethod
+): SignInMatch => {
+  const narrowed = narrowByGradYear(candidates, signIn);
+  return narrowed.length === 1
+    ? { signIn, status: 'matched', student: narrowed[0], method, candidates: [] }
+    : { signIn, status: 'ambiguous', method, candidates: narrowed };
+};
+
+/**
+ * Resolve a sign-in to a student: a saved link first, then email, then phone, then fuzzy name plus school
+ */
+export const matchSignIn = (signIn: SignInRow, index: StudentMatchIndex): SignInMatch => {
+  const linked = signIn.studentId ? index.byId.get(signIn.studentId) : undefined;
+  if (linked) {
+    return { signIn, status: 'linked', student: linked, method: 'link', candidates: [] };
+  }
+
+  const byEmail = index.byEmail.get(normalizeEmail(signIn.email));
+  if (byEmail) {
+    return resolve(signIn, byEmail, 'email');
+  }
+
+  const phone = phoneKey(signIn.phone);
+  const byPhone = phone.length === 10 ? index.byPhone.get(phone) : undefined;
+  if (byPhone) {
+    return resolve(signIn, byPhone, 'phone');
+  }
+
+  const firstName = normalizeName(signIn.firstName);
+  const lastName = normalizeName(signIn.lastName);
+  if (!firstName || !lastName) {
+    return { signIn, status: 'unmatched', candidates: [] };
+  }
+
+  const scored = index.students
+    .map(student => ({
+      student,
+      score: Math.min(
+        nameSimilarity(firstName, normalizeName(student.firstName)),
+        nameSimilarity(lastName, normalizeName(student.lastName))
+      ),
+    }))
+    .filter(({ score }) => score >= NAME_MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .map(({ student }) => student);
+
+  if (scored.length === 0) {
+    return { signIn, status: 'unmatched', candidates: [] };
+  }
+
+  // A name alone is only a suggestion; it needs the same school to match automatically
+  const school = normalizeSchool(signIn.school);
+  const sameSchool = school ? scored.filter(student => normalizeSchool(student.highSchool) === school) : [];
+  if (sameSchool.length > 0) {
+    return resolve(signIn, sameSchool, 'name');
+  }
+  return { signIn, status: 'ambiguous', method: 'name', candidates: scored };
+};
+
+// Background syncs keep the same students array while nothing changed, so an index and the
+// matches made against it are kept per array and shared by every caller. Matches are keyed by
+// sign-in content, so only new or edited sign-ins are matched again.
+const indexCache = new WeakMap<Student[], StudentMatchIndex>();
+const matchCache = new WeakMap<StudentMatchIndex, Map<string, SignInMatch>>();
+
+const getStudentMatchIndex = (students: Student[]): StudentMatchIndex => {
+  let index = indexCache.get(students);
+  if (!index) {
+    index = buildStudentMatchIndex(students);
+    indexCache.set(students, index);
+  }
+  return index;
+};
+
+/**
+ * Match every sign-in against the students, reusing earlier matches for unchanged sign-ins
+ */
+export const matchSignIns = (signIns: SignInRow[], students: Student[]): SignInMatch[] => {
+  const index = getStudentMatchIndex(students);
+  const previous = matchCache.get(index);
+  const next = new Map<string, SignInMatch>();
+
+  const matches = signIns.map(signIn => {
+    const key = JSON.stringify(signIn);
+    const cached = next.get(key) ?? previous?.get(key);
+    const match = !cached
+      ? matchSignIn(signIn, index)
+      : cached.signIn === signIn ? cached : { ...cached, signIn };
+    next.set(key, match);
+    return match;
+  });
+
+  // Only the current sign-ins are kept, so rows that were edited or deleted don't pile up
+  matchCache.set(index, next);
+  return matches;
+};
+
+/**
+ * Whether a match needs a staff decision before it counts
+ */
+export const needsReview = (match: SignInMatch): boolean =>
+  match.status === 'ambiguous' || match.status === 'unmatched';
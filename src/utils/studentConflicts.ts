@@ -0,0 +1,150 @@
+import type { Student } from '../types';
+
+/**
+ * Thrown when a student row changed in Google Sheets after the editor loaded it
+ */
+export class StudentConflictError extends Error {
+  readonly remote: Student;
+
+  constructor(remote: Student) {
+    super('This student was changed in Google Sheets by someone else since you opened it.');
+    this.name = 'StudentConflictError';
+    this.remote = remote;
+  }
+}
+
+/**
+ * A single field that can be compared and merged between student versions
+ */
+export interface StudentConflictField {
+  key: string; // Student property name, or `customFields.<field>` for custom fields
+  label: string;
+}
+
+export type ConflictResolutionChoice = 'local' | 'remote';
+
+const standardConflictFields: StudentConflictField[] = [
+  { key: 'firstName', label: 'First Name' },
+  { key: 'lastName', label: 'Last Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'cellNumber', label: 'Cell Number' },
+  { key: 'parentName', label: 'Parent Name' },
+  { key: 'parentCell', label: 'Parent Cell' },
+  { key: 'parentEmail', label: 'Parent Email' },
+  { key: 'highSchool', label: 'High School' },
+  { key: 'graduationYear', label: 'Graduation Year' },
+  { key: 'dob', label: 'Date of Birth' },
+  { key: 'parentForm', label: 'Parent Form' },
+  { key: 'careerExploration', label: 'Career Exploration' },
+  { key: 'collegeExploration', label: 'College Exploration' },
+  { key: 'collegeEnrolled', label: 'College Enrolled' },
+  { key: 'participationPoints', label: 'Participation Points' },
+  { key: 'spreadsheetSubmitted', label: 'Spreadsheet Submitted' },
+  { key: 'places', label: 'Places' },
+];
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+/**
+ * Read a field value from a student using a conflict field key
+ */
+export const getStudentFieldValue = (student: Partial<Student>, key: string): unknown => {
+  if (key.startsWith(CUSTOM_FIELD_PREFIX)) {
+    return student.customFields?.[key.slice(CUSTOM_FIELD_PREFIX.length)];
+  }
+  return student[key as keyof Student];
+};
+
+/**
+ * Normalize a value the same way it would be written to the sheet, so that
+ * values which round-trip identically compare as equal
+ */
+export const normalizeFieldValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : value.toLocaleDateString('en-US');
+  }
+  if (typeof value === 'boolean') return value ? 'true' : '';
+  if (typeof value === 'number') return value === 0 ? '' : value.toString();
+  return String(value).trim();
+};
+
+/**
+ * Format a field value for display in the conflict dialog
+ */
+export const formatFieldValue = (value: unknown): string => {
+  const normalized = normalizeFieldValue(value);
+  if (normalized === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return normalized;
+};
+
+/**
+ * List every comparable field across the given student versions, including custom fields
+ */
+export const getComparableFields = (...students: Array<Partial<Student> | null | undefined>): StudentConflictField[] => {
+  const customKeys = new Set<string>();
+  students.forEach(student => {
+    Object.keys(student?.customFields || {}).forEach(key => customKeys.add(key));
+  });
+
+  return [
+    ...standardConflictFields,
+    ...Array.from(customKeys).sort().map(key => ({ key: `${CUSTOM_FIELD_PREFIX}${key}`, label: key })),
+  ];
+};
+
+/**
+ * Get the fields whose values differ between two student versions
+ */
+export const getChangedFields = (a: Partial<Student>, b: Partial<Student>): StudentConflictField[] => {
+  return getComparableFields(a, b).filter(field =>
+    normalizeFieldValue(getStudentFieldValue(a, field.key)) !== normalizeFieldValue(getStudentFieldValue(b, field.key))
+  );
+};
+
+/**
+ * Pick the default side for each field that differs between the local edit and the sheet:
+ * a field only the sheet changed takes the sheet's value, anything else keeps the user's value
+ */
+export const getDefaultResolutions = (
+  base: Partial<Student>,
+  local: Partial<Student>,
+  remote: Partial<Student>
+): Record<string, ConflictResolutionChoice> => {
+  const resolutions: Record<string, ConflictResolutionChoice> = {};
+
+  getChangedFields(local, remote).forEach(field => {
+    const baseValue = normalizeFieldValue(getStudentFieldValue(base, field.key));
+    const localValue = normalizeFieldValue(getStudentFieldValue(local, field.key));
+    resolutions[field.key] = localValue === baseValue ? 'remote' : 'local';
+  });
+
+  return resolutions;
+};
+
+/**
+ * Build the merged student from per-field resolutions
+ */
+export const mergeStudentVersions = (
+  local: Student,
+  remote: Student,
+  resolutions: Record<string, ConflictResolutionChoice>
+): Student => {
+  const merged: Student = {
+    ...local,
+    customFields: { ...(local.customFields || {}) },
+  };
+
+  Object.entries(resolutions).forEach(([key, choice]) => {
+    if (choice !== 'remote') return;
+    const remoteValue = getStudentFieldValue(remote, key);
+    if (key.startsWith(CUSTOM_FIELD_PREFIX)) {
+      merged.customFields[key.slice(CUSTOM_FIELD_PREFIX.length)] = remoteValue;
+    } else {
+      (merged as unknown as Record<string, unknown>)[key] = remoteValue;
+    }
+  });
+
+  return merged;
+};
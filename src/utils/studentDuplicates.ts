@@ -0,0 +1,221 @@
+import type { Student } from '../types';
+import { DataTransformService } from '../services/DataTransformService';
+import {
+  getChangedFields,
+  getStudentFieldValue,
+  normalizeFieldValue,
+} from './studentConflicts';
+import type { ConflictResolutionChoice } from './studentConflicts';
+
+/**
+ * A pair of students that look like the same scholar entered twice
+ */
+export interface DuplicateCandidate {
+  a: Student;
+  b: Student;
+  score: number; // 0-1
+  reasons: string[];
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.6;
+
+// Score weights; a pair only needs enough matching signals to pass the threshold
+const NAME_WEIGHT = 0.4;
+const EMAIL_WEIGHT = 0.35;
+const PHONE_WEIGHT = 0.25;
+const DOB_WEIGHT = 0.25;
+const HIGH_SCHOOL_WEIGHT = 0.1;
+
+// Common short forms, keyed by the short form
+const NICKNAMES: Record<string, string[]> = {
+  alex: ['alexander', 'alexandra', 'alexis'],
+  andy: ['andrew'],
+  ben: ['benjamin'],
+  beth: ['elizabeth'],
+  bill: ['william'],
+  bob: ['robert'],
+  chris: ['christopher', 'christina', 'christine'],
+  dan: ['daniel'],
+  dave: ['david'],
+  ed: ['edward', 'eduardo'],
+  jim: ['james'],
+  joe: ['joseph', 'jose'],
+  jon: ['jonathan', 'john'],
+  kate: ['katherine', 'kathryn', 'katelyn'],
+  liz: ['elizabeth'],
+  matt: ['matthew'],
+  mike: ['michael'],
+  nick: ['nicholas'],
+  pat: ['patrick', 'patricia'],
+  rob: ['robert'],
+  sam: ['samuel', 'samantha'],
+  steve: ['steven', 'stephen'],
+  tom: ['thomas'],
+  tony: ['anthony', 'antonio'],
+  will: ['william'],
+};
+
+export const normalizeName = (name: string | undefined): string =>
+  (name || '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z]/g, '');
+
+export const normalizeEmail = (email: string | undefined): string => (email || '').trim().toLowerCase();
+
+export const normalizePhone = (phone: string | undefined): string =>
+  DataTransformService.sanitizePhoneNumber(phone || '').replace(/\D/g, '');
+
+export const normalizeSchool = (school: string | undefined): string =>
+  (school || '').toLowerCase().replace(/\b(high school|hs|school)\b/g, '').replace(/[^a-z0-9]/g, '');
+
+const getDobKey = (dob: Date | undefined): string =>
+  dob instanceof Date && !isNaN(dob.getTime()) ? dob.toDateString() : '';
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How alike two normalized names are, from 0 to 1, counting nicknames and prefixes ("Jon"/"Jonathan") as close
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (NICKNAMES[a]?.includes(b) || NICKNAMES[b]?.includes(a)) return 0.9;
+  if (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.85;
+  return Math.max(0, 1 - levenshtein(a, b) / Math.max(a.length, b.length));
+};
+
+interface DuplicateKeys {
+  student: Student;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  dob: string;
+  highSchool: string;
+}
+
+const scorePair = (a: DuplicateKeys, b: DuplicateKeys): { score: number; reasons: string[] } => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const lastName = nameSimilarity(a.lastName, b.lastName);
+  const firstName = nameSimilarity(a.firstName, b.firstName);
+  const name = Math.min(lastName, firstName);
+  if (name >= 0.75) {
+    score += NAME_WEIGHT * name;
+    reasons.push(name === 1 ? 'Same name' : 'Similar name');
+  }
+
+  if (a.email && a.email === b.email) {
+    score += EMAIL_WEIGHT;
+    reasons.push('Same email');
+  }
+  if (a.phone.length >= 7 && a.phone === b.phone) {
+    score += PHONE_WEIGHT;
+    reasons.push('Same phone');
+  }
+  if (a.dob && a.dob === b.dob) {
+    score += DOB_WEIGHT;
+    reasons.push('Same date of birth');
+  }
+  if (a.highSchool && a.highSchool === b.highSchool) {
+    score += HIGH_SCHOOL_WEIGHT;
+    reasons.push('Same high school');
+  }
+
+  return { score: Math.min(1, score), reasons };
+};
+
+// Length of the last-name prefix that students are grouped by before scoring
+const LAST_NAME_BLOCK_LENGTH = 3;
+
+/**
+ * The groups a student is compared within. Pairs that share none of these can't reach the
+ * default threshold, so they are never scored.
+ */
+const getBlockingKeys = (keys: DuplicateKeys): string[] => [
+  keys.lastName && `last:${keys.lastName.slice(0, LAST_NAME_BLOCK_LENGTH)}`,
+  keys.email && `email:${keys.email}`,
+  keys.phone.length >= 7 && `phone:${keys.phone}`,
+  keys.dob && `dob:${keys.dob}`,
+].filter((key): key is string => !!key);
+
+/**
+ * Score the pairs of students that share a last-name prefix, email, phone or date of birth,
+ * and return those that look like duplicates, most likely first
+ */
+export const findDuplicateCandidates = (
+  students: Student[],
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+): DuplicateCandidate[] => {
+  const keys: DuplicateKeys[] = students.map(student => ({
+    student,
+    firstName: normalizeName(student.firstName),
+    lastName: normalizeName(student.lastName),
+    email: normalizeEmail(student.email),
+    phone: normalizePhone(student.cellNumber),
+    dob: getDobKey(student.dob),
+    highSchool: normalizeSchool(student.highSchool),
+  }));
+
+  const blocks = new Map<string, number[]>();
+  keys.forEach((key, index) => {
+    getBlockingKeys(key).forEach(blockKey => {
+      const block = blocks.get(blockKey);
+      if (block) {
+        block.push(index);
+      } else {
+        blocks.set(blockKey, [index]);
+      }
+    });
+  });
+
+  const candidates: DuplicateCandidate[] = [];
+  const scored = new Set<string>(); // A pair can share several blocks; score it once
+  blocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const pairKey = `${block[i]}|${block[j]}`;
+        if (scored.has(pairKey)) continue;
+        scored.add(pairKey);
+
+        const a = keys[block[i]];
+        const b = keys[block[j]];
+        const { score, reasons } = scorePair(a, b);
+        if (score >= threshold) {
+          candidates.push({ a: a.student, b: b.student, score, reasons });
+        }
+      }
+    }
+  });
+
+  return candidates.sort((x, y) => y.score - x.score);
+};
+
+/**
+ * Pick the default side for each field that differs between two duplicates: the survivor's
+ * value, unless only the other record has one
+ */
+export const getDefaultMergeChoices = (
+  survivor: Student,
+  duplicate: Student
+): Record<string, ConflictResolutionChoice> => {
+  const choices: Record<string, ConflictResolutionChoice> = {};
+  getChangedFields(survivor, duplicate).forEach(field => {
+    const survivorValue = normalizeFieldValue(getStudentFieldValue(survivor, field.key));
+    choices[field.key] = survivorValue === '' ? 'remote' : 'local';
+  });
+  return choices;
+};
@@ -0,0 +1,25 @@
+import type { StudentHistoryEntry } from '../types';
+
+/**
+ * Short description of an undoable change, e.g. "Deleted Jane Doe"
+ */
+export const describeHistoryEntry = (entry: StudentHistoryEntry): string => {
+  const student = entry.type === 'update' ? entry.after : entry.student;
+  const name = `${student.firstName} ${student.lastName}`.trim();
+  switch (entry.type) {
+    case 'add':
+      return `Added ${name}`;
+    case 'update':
+      return `Edited ${name}`;
+    case 'delete':
+      return `Deleted ${name}`;
+  }
+};
+
+/**
+ * Whether a keyboard event comes from a text field, where Ctrl+Z should undo typing instead
+ */
+export const isTextEditingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};